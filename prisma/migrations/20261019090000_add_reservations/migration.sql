@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "reservation_status" AS ENUM ('PENDING', 'ACTIVE', 'USED', 'CANCELLED', 'EXPIRED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "reservations" (
+    "id" SERIAL NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "connectorId" INTEGER NOT NULL,
+    "idTag" TEXT NOT NULL,
+    "parentIdTag" TEXT,
+    "expiryDate" TIMESTAMP(3) NOT NULL,
+    "status" "reservation_status" NOT NULL DEFAULT 'PENDING',
+    "responseStatus" TEXT,
+    "transactionId" INTEGER,
+    "createdBy" TEXT,
+    "cancelledBy" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reservations_chargePointId_connectorId_status_idx" ON "reservations"("chargePointId", "connectorId", "status");
+
+-- AddForeignKey
+ALTER TABLE "reservations" ADD CONSTRAINT "reservations_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
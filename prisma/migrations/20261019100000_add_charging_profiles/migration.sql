@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "charging_profile_purpose" AS ENUM ('CHARGE_POINT_MAX_PROFILE', 'TX_DEFAULT_PROFILE', 'TX_PROFILE');
+
+-- CreateEnum
+CREATE TYPE "charging_profile_kind" AS ENUM ('ABSOLUTE', 'RECURRING', 'RELATIVE');
+
+-- CreateEnum
+CREATE TYPE "recurrency_kind" AS ENUM ('DAILY', 'WEEKLY');
+
+-- CreateEnum
+CREATE TYPE "charging_rate_unit" AS ENUM ('A', 'W');
+
+-- CreateEnum
+CREATE TYPE "charging_profile_status" AS ENUM ('PENDING', 'ACTIVE', 'REJECTED', 'NOT_SUPPORTED', 'CLEARED');
+
+-- AlterTable
+ALTER TABLE "connectors" ADD COLUMN     "compositeSchedule" JSONB,
+ADD COLUMN     "compositeScheduleUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "charging_profiles" (
+    "id" SERIAL NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "connectorId" INTEGER NOT NULL,
+    "stackLevel" INTEGER NOT NULL,
+    "purpose" "charging_profile_purpose" NOT NULL,
+    "kind" "charging_profile_kind" NOT NULL,
+    "recurrencyKind" "recurrency_kind",
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "transactionId" INTEGER,
+    "chargingRateUnit" "charging_rate_unit" NOT NULL,
+    "duration" INTEGER,
+    "startSchedule" TIMESTAMP(3),
+    "minChargingRate" DOUBLE PRECISION,
+    "schedulePeriods" JSONB NOT NULL,
+    "status" "charging_profile_status" NOT NULL DEFAULT 'PENDING',
+    "responseStatus" TEXT,
+    "source" TEXT,
+    "createdBy" TEXT,
+    "clearedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "charging_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "charging_profiles_chargePointId_connectorId_status_idx" ON "charging_profiles"("chargePointId", "connectorId", "status");
+
+-- AddForeignKey
+ALTER TABLE "charging_profiles" ADD CONSTRAINT "charging_profiles_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN     "siteId" TEXT;
+
+-- CreateTable
+CREATE TABLE "sites" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "address" TEXT,
+    "maxImportCurrent" DOUBLE PRECISION NOT NULL,
+    "maxImportPower" DOUBLE PRECISION,
+    "reservedCurrent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "phases" INTEGER NOT NULL DEFAULT 3,
+    "voltage" DOUBLE PRECISION NOT NULL DEFAULT 230,
+    "minCurrentPerConnector" DOUBLE PRECISION NOT NULL DEFAULT 6,
+    "loadBalancingEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sites_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "charge_points" ADD CONSTRAINT "charge_points_siteId_fkey" FOREIGN KEY ("siteId") REFERENCES "sites"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "meter_values_transactionId_timestamp_idx" ON "meter_values"("transactionId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "meter_values_chargePointId_connectorId_timestamp_idx" ON "meter_values"("chargePointId", "connectorId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "sampled_values_meterValueId_idx" ON "sampled_values"("meterValueId");
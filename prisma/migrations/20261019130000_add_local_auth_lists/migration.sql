@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN     "localAuthListId" TEXT,
+ADD COLUMN     "localListSnapshot" JSONB,
+ADD COLUMN     "localListSyncStatus" TEXT,
+ADD COLUMN     "localListSyncedAt" TIMESTAMP(3),
+ADD COLUMN     "localListVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "local_auth_lists" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "fleetId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "local_auth_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "local_auth_list_entries" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "idTagId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "local_auth_list_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "local_auth_list_entries_listId_idTagId_key" ON "local_auth_list_entries"("listId", "idTagId");
+
+-- AddForeignKey
+ALTER TABLE "charge_points" ADD CONSTRAINT "charge_points_localAuthListId_fkey" FOREIGN KEY ("localAuthListId") REFERENCES "local_auth_lists"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "local_auth_lists" ADD CONSTRAINT "local_auth_lists_fleetId_fkey" FOREIGN KEY ("fleetId") REFERENCES "fleets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "local_auth_list_entries" ADD CONSTRAINT "local_auth_list_entries_listId_fkey" FOREIGN KEY ("listId") REFERENCES "local_auth_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "local_auth_list_entries" ADD CONSTRAINT "local_auth_list_entries_idTagId_fkey" FOREIGN KEY ("idTagId") REFERENCES "IdTag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "auth_cache_clears" (
+    "id" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "idTag" TEXT,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "requestedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auth_cache_clears_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auth_cache_clears_chargePointId_createdAt_idx" ON "auth_cache_clears"("chargePointId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "auth_cache_clears" ADD CONSTRAINT "auth_cache_clears_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "firmware_rollout_status" AS ENUM ('IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "firmware_update_status" AS ENUM ('PENDING', 'SENT', 'DOWNLOADING', 'DOWNLOADED', 'DOWNLOAD_FAILED', 'INSTALLING', 'INSTALLED', 'INSTALLATION_FAILED', 'VERIFIED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "firmware_versions" (
+    "id" TEXT NOT NULL,
+    "vendor" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "checksum" TEXT,
+    "fileSize" INTEGER,
+    "releaseNotes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "firmware_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "firmware_rollouts" (
+    "id" TEXT NOT NULL,
+    "firmwareVersionId" TEXT NOT NULL,
+    "name" TEXT,
+    "retrieveDate" TIMESTAMP(3) NOT NULL,
+    "retries" INTEGER,
+    "retryInterval" INTEGER,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "status" "firmware_rollout_status" NOT NULL DEFAULT 'IN_PROGRESS',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "firmware_rollouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "firmware_updates" (
+    "id" TEXT NOT NULL,
+    "rolloutId" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "status" "firmware_update_status" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastAttemptAt" TIMESTAMP(3),
+    "nextAttemptAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "previousVersion" TEXT,
+    "reportedVersion" TEXT,
+    "statusUpdatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "firmware_updates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "firmware_versions_vendor_model_version_key" ON "firmware_versions"("vendor", "model", "version");
+
+-- CreateIndex
+CREATE INDEX "firmware_updates_chargePointId_status_idx" ON "firmware_updates"("chargePointId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "firmware_updates_rolloutId_chargePointId_key" ON "firmware_updates"("rolloutId", "chargePointId");
+
+-- AddForeignKey
+ALTER TABLE "firmware_rollouts" ADD CONSTRAINT "firmware_rollouts_firmwareVersionId_fkey" FOREIGN KEY ("firmwareVersionId") REFERENCES "firmware_versions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "firmware_updates" ADD CONSTRAINT "firmware_updates_rolloutId_fkey" FOREIGN KEY ("rolloutId") REFERENCES "firmware_rollouts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "firmware_updates" ADD CONSTRAINT "firmware_updates_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "diagnostics_status" AS ENUM ('PENDING', 'REQUESTED', 'NO_DIAGNOSTICS', 'UPLOADING', 'UPLOADED', 'UPLOAD_FAILED', 'RECEIVED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "diagnostics_requests" (
+    "id" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "status" "diagnostics_status" NOT NULL DEFAULT 'PENDING',
+    "uploadToken" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3),
+    "stopTime" TIMESTAMP(3),
+    "retries" INTEGER,
+    "retryInterval" INTEGER,
+    "fileName" TEXT,
+    "storedPath" TEXT,
+    "fileSize" INTEGER,
+    "contentType" TEXT,
+    "checksum" TEXT,
+    "lastError" TEXT,
+    "requestedBy" TEXT,
+    "statusUpdatedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "diagnostics_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "diagnostics_requests_uploadToken_key" ON "diagnostics_requests"("uploadToken");
+
+-- CreateIndex
+CREATE INDEX "diagnostics_requests_chargePointId_createdAt_idx" ON "diagnostics_requests"("chargePointId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "diagnostics_requests" ADD CONSTRAINT "diagnostics_requests_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "vin" TEXT;
+
+-- CreateTable
+CREATE TABLE "bms_samples" (
+    "id" TEXT NOT NULL,
+    "transactionId" INTEGER,
+    "chargePointId" TEXT NOT NULL,
+    "connectorId" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "soc" DOUBLE PRECISION,
+    "batteryVoltage" DOUBLE PRECISION,
+    "batteryCurrent" DOUBLE PRECISION,
+    "demandVoltage" DOUBLE PRECISION,
+    "demandCurrent" DOUBLE PRECISION,
+    "maxCellVoltage" DOUBLE PRECISION,
+    "minCellVoltage" DOUBLE PRECISION,
+    "maxTemperature" DOUBLE PRECISION,
+    "minTemperature" DOUBLE PRECISION,
+    "remainingTime" INTEGER,
+    "raw" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bms_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bms_samples_transactionId_timestamp_idx" ON "bms_samples"("transactionId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "bms_samples_chargePointId_connectorId_timestamp_idx" ON "bms_samples"("chargePointId", "connectorId", "timestamp");
+
+-- AddForeignKey
+ALTER TABLE "bms_samples" ADD CONSTRAINT "bms_samples_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "availability_type" AS ENUM ('OPERATIVE', 'INOPERATIVE');
+
+-- CreateEnum
+CREATE TYPE "maintenance_window_status" AS ENUM ('SCHEDULED', 'ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "connectors" ADD COLUMN "availability" "availability_type" NOT NULL DEFAULT 'OPERATIVE',
+ADD COLUMN "pendingAvailability" "availability_type",
+ADD COLUMN "blockedReason" TEXT,
+ADD COLUMN "blockedBy" TEXT,
+ADD COLUMN "blockedAt" TIMESTAMP(3),
+ADD COLUMN "maintenanceWindowId" TEXT;
+
+-- CreateTable
+CREATE TABLE "maintenance_windows" (
+    "id" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "connectorId" INTEGER NOT NULL DEFAULT 0,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "status" "maintenance_window_status" NOT NULL DEFAULT 'SCHEDULED',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "maintenance_windows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "availability_changes" (
+    "id" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "connectorId" INTEGER NOT NULL,
+    "type" "availability_type" NOT NULL,
+    "status" TEXT NOT NULL,
+    "reason" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'api',
+    "maintenanceWindowId" TEXT,
+    "requestedBy" TEXT,
+    "error" TEXT,
+    "appliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "availability_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "maintenance_windows_status_startsAt_idx" ON "maintenance_windows"("status", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "maintenance_windows_chargePointId_status_idx" ON "maintenance_windows"("chargePointId", "status");
+
+-- CreateIndex
+CREATE INDEX "availability_changes_chargePointId_createdAt_idx" ON "availability_changes"("chargePointId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "maintenance_windows" ADD CONSTRAINT "maintenance_windows_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "availability_changes" ADD CONSTRAINT "availability_changes_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
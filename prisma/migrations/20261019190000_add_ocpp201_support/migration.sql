@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN "ocppVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "ocppTransactionRef" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_chargePointId_ocppTransactionRef_key" ON "transactions"("chargePointId", "ocppTransactionRef");
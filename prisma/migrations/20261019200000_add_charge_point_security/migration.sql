@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN "securityProfile" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "charge_point_credentials" (
+    "chargePointId" TEXT NOT NULL,
+    "authorizationKeyHash" TEXT NOT NULL,
+    "rotatedBy" TEXT,
+    "rotatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "charge_point_credentials_pkey" PRIMARY KEY ("chargePointId")
+);
+
+-- AddForeignKey
+ALTER TABLE "charge_point_credentials" ADD CONSTRAINT "charge_point_credentials_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "certificate_status" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED', 'FAILED', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "charge_point_certificates" (
+    "id" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "certificateType" TEXT NOT NULL,
+    "status" "certificate_status" NOT NULL DEFAULT 'PENDING',
+    "commonName" TEXT,
+    "serialNumber" TEXT,
+    "fingerprint" TEXT,
+    "certificate" TEXT,
+    "csr" TEXT,
+    "hashData" JSONB,
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "lastError" TEXT,
+    "requestedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "charge_point_certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "security_events" (
+    "id" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "techInfo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "charge_point_certificates_chargePointId_certificateType_idx" ON "charge_point_certificates"("chargePointId", "certificateType");
+
+-- CreateIndex
+CREATE INDEX "security_events_chargePointId_timestamp_idx" ON "security_events"("chargePointId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_idx" ON "security_events"("type");
+
+-- AddForeignKey
+ALTER TABLE "charge_point_certificates" ADD CONSTRAINT "charge_point_certificates_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "security_events" ADD CONSTRAINT "security_events_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
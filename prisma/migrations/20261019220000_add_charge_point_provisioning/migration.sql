@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "registration_status" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN     "defaultsAppliedAt" TIMESTAMP(3),
+ADD COLUMN     "registrationStatus" "registration_status" NOT NULL DEFAULT 'ACCEPTED',
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "blocked_serial_numbers" (
+    "serialNumber" TEXT NOT NULL,
+    "reason" TEXT,
+    "blockedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "blocked_serial_numbers_pkey" PRIMARY KEY ("serialNumber")
+);
+
+-- CreateTable
+CREATE TABLE "charge_point_model_defaults" (
+    "id" TEXT NOT NULL,
+    "vendor" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "heartbeatInterval" INTEGER,
+    "configuration" JSONB,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "charge_point_model_defaults_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "charge_point_model_defaults_vendor_model_key" ON "charge_point_model_defaults"("vendor", "model");
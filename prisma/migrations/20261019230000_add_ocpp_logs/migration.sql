@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "message_direction" AS ENUM ('INBOUND', 'OUTBOUND');
+
+-- CreateTable
+CREATE TABLE "ocpp_logs" (
+    "id" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "direction" "message_direction" NOT NULL,
+    "messageType" INTEGER,
+    "uniqueId" TEXT,
+    "action" TEXT,
+    "payload" JSONB,
+    "errorCode" TEXT,
+    "errorDescription" TEXT,
+    "latencyMs" INTEGER,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ocpp_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ocpp_logs_chargePointId_timestamp_idx" ON "ocpp_logs"("chargePointId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "ocpp_logs_chargePointId_action_timestamp_idx" ON "ocpp_logs"("chargePointId", "action", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "ocpp_logs_timestamp_idx" ON "ocpp_logs"("timestamp");
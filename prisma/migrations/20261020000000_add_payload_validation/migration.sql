@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "payload_validation" AS ENUM ('STRICT', 'LENIENT', 'OFF');
+
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN     "payloadValidation" "payload_validation";
@@ -0,0 +1,5 @@
+-- Transaction ids were random between 100000 and 999999; allocate from a sequence above that range
+CREATE SEQUENCE "transaction_id_seq" AS INTEGER START WITH 1000000 MINVALUE 1000000 MAXVALUE 2147483647 NO CYCLE;
+
+-- Continue after ids already above the old range, if any
+SELECT setval('transaction_id_seq', GREATEST(1000000, (SELECT COALESCE(MAX("transactionId"), 0) + 1 FROM "transactions")), false);
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "offline_command_status" AS ENUM ('QUEUED', 'DELIVERING', 'DELIVERED', 'FAILED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "offline_commands" (
+    "id" TEXT NOT NULL,
+    "chargePointId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "offline_command_status" NOT NULL DEFAULT 'QUEUED',
+    "expiresAt" TIMESTAMP(3),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "response" JSONB,
+    "createdBy" TEXT,
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "offline_commands_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "offline_commands_chargePointId_status_createdAt_idx" ON "offline_commands"("chargePointId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "offline_commands_status_expiresAt_idx" ON "offline_commands"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "offline_commands" ADD CONSTRAINT "offline_commands_chargePointId_fkey" FOREIGN KEY ("chargePointId") REFERENCES "charge_points"("id") ON DELETE CASCADE ON UPDATE CASCADE;
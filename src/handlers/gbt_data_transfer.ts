@@ -0,0 +1,130 @@
+import { Prisma, Transaction } from "@prisma/client";
+import { Logger } from "../Utils/logger";
+import { DatabaseService } from "../services/database";
+import { DataTransferContext, DataTransferRegistry } from "../services/data-transfer-registry";
+
+// GB/T DC chargers forward what the vehicle BMS reports during the handshake
+// (BRM → VIN) and while charging (BCL/BCS/BSM → demand, SoC, cell data) as
+// DataTransfer messages with a JSON body.
+const BMS_MESSAGE_IDS = ["BMSData", "BmsData"];
+const VIN_MESSAGE_IDS = ["VIN", "VehicleVIN"];
+
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const logger = Logger.getInstance();
+
+export const registerGbtDataTransferHandlers = (registry: DataTransferRegistry, db: DatabaseService): void => {
+  const vendorIds = (process.env.GBT_DATA_TRANSFER_VENDOR_IDS || "GBT")
+    .split(",")
+    .map((vendorId) => vendorId.trim())
+    .filter(Boolean);
+
+  for (const vendorId of vendorIds) {
+    BMS_MESSAGE_IDS.forEach((messageId) => registry.register(vendorId, messageId, (context) => handleBmsData(db, context)));
+    VIN_MESSAGE_IDS.forEach((messageId) => registry.register(vendorId, messageId, (context) => handleVin(db, context)));
+  }
+};
+
+const handleBmsData = async (db: DatabaseService, context: DataTransferContext): Promise<void> => {
+  const data = parseData(context.data);
+  const transaction = await resolveTransaction(db, context.chargePointId, data);
+  const connectorId = pickNumber(data, "connectorId") ?? transaction?.connectorId;
+  const remainingTime = pickNumber(data, "remainingTime");
+
+  if (connectorId === undefined) {
+    throw new Error("BMS data without connectorId");
+  }
+
+  await db.createBmsSample({
+    chargePointId: context.chargePointId,
+    connectorId,
+    transactionId: transaction?.id ?? null,
+    timestamp: parseTimestamp(data.timestamp),
+    soc: pickNumber(data, "soc", "SOC", "stateOfCharge"),
+    batteryVoltage: pickNumber(data, "batteryVoltage", "voltage"),
+    batteryCurrent: pickNumber(data, "batteryCurrent", "current"),
+    demandVoltage: pickNumber(data, "demandVoltage", "requestVoltage"),
+    demandCurrent: pickNumber(data, "demandCurrent", "requestCurrent"),
+    maxCellVoltage: pickNumber(data, "maxCellVoltage"),
+    minCellVoltage: pickNumber(data, "minCellVoltage"),
+    maxTemperature: pickNumber(data, "maxTemperature", "maxBatteryTemperature"),
+    minTemperature: pickNumber(data, "minTemperature", "minBatteryTemperature"),
+    remainingTime: remainingTime !== undefined ? Math.round(remainingTime) : undefined,
+    raw: data as Prisma.InputJsonValue,
+  });
+};
+
+const handleVin = async (db: DatabaseService, context: DataTransferContext): Promise<void> => {
+  const data = parseData(context.data);
+  // Some BMS pad the 17 ASCII bytes with NUL or spaces
+  const vin = String(data.vin ?? data.VIN ?? "").replace(/\u0000/g, "").trim().toUpperCase();
+
+  if (!VIN_PATTERN.test(vin)) {
+    throw new Error(`Invalid VIN "${vin}"`);
+  }
+
+  const transaction = await resolveTransaction(db, context.chargePointId, data);
+  if (!transaction) {
+    logger.warn(`VIN ${vin} from ${context.chargePointId} without an active transaction`);
+    return;
+  }
+
+  await db.setTransactionVin(transaction.id, vin);
+  logger.info(`🚗 VIN ${vin} recorded for transaction ${transaction.transactionId} on ${context.chargePointId}`);
+};
+
+/**
+ * Prefer the transactionId in the payload, otherwise use the active
+ * transaction on the connector (or the only one on the charge point)
+ */
+const resolveTransaction = async (
+  db: DatabaseService,
+  chargePointId: string,
+  data: Record<string, any>
+): Promise<Transaction | null> => {
+  const transactionId = pickNumber(data, "transactionId");
+  if (transactionId !== undefined) {
+    const transaction = await db.findTransactionByOcppId(transactionId);
+    return transaction?.chargePointId === chargePointId ? transaction : null;
+  }
+
+  const active = await db.getActiveTransactions(chargePointId);
+  const connectorId = pickNumber(data, "connectorId");
+  if (connectorId !== undefined) {
+    return active.find((tx) => tx.connectorId === connectorId) ?? null;
+  }
+
+  return active.length === 1 ? active[0] : null;
+};
+
+const parseData = (data?: string | object): Record<string, any> => {
+  if (data && typeof data === "object") {
+    return data as Record<string, any>;
+  }
+
+  try {
+    const parsed = JSON.parse(data || "");
+    if (parsed && typeof parsed === "object") {
+      return parsed;
+    }
+  } catch {
+    // fall through
+  }
+
+  throw new Error("DataTransfer data is not a JSON object");
+};
+
+const pickNumber = (data: Record<string, any>, ...keys: string[]): number | undefined => {
+  for (const key of keys) {
+    if (data[key] === undefined || data[key] === null || data[key] === "") continue;
+
+    const value = Number(data[key]);
+    if (!Number.isNaN(value)) return value;
+  }
+  return undefined;
+};
+
+const parseTimestamp = (value: unknown): Date => {
+  const timestamp = typeof value === "string" ? new Date(value) : null;
+  return timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp : new Date();
+};
@@ -0,0 +1,801 @@
+import { Logger } from "../Utils/logger";
+import { DatabaseService } from "../services/database";
+import { RedisService } from "../services/redis";
+import { OCPPServer } from "../services/ocpp_server";
+import { APIGateway, pendingChargeSessions } from "../services/api_gateway";
+import { OCPPMessageHandler } from "./ocpp_handlers";
+import crypto from "crypto"
+import { convertInternalStatusToOCPP, idTagStatus, toStopReason } from "../helpers/helper";
+import {
+  ChargePointConnection,
+  ChargePointStatus,
+  MessageType,
+  MeterValue,
+  ReserveNowRequest,
+  SendLocalListRequest,
+  CertificateUseType,
+} from "../types/ocpp_types";
+import {
+  AuthorizationStatus201,
+  AuthorizeRequest201,
+  AuthorizeResponse201,
+  BootNotificationRequest201,
+  BootNotificationResponse201,
+  ChargingState201,
+  ComponentVariable201,
+  GetVariableResult201,
+  IdTokenInfo201,
+  MeterValue201,
+  MeterValuesRequest201,
+  SampledValue201,
+  SetVariableResult201,
+  StatusNotificationRequest201,
+  TransactionEventRequest201,
+  TransactionEventResponse201,
+} from "../types/ocpp201_types";
+
+const chargingStateToStatus: Record<ChargingState201, ChargePointStatus> = {
+  Charging: "CHARGING",
+  EVConnected: "PREPARING",
+  SuspendedEV: "SUSPENDED_EV",
+  SuspendedEVSE: "SUSPENDED_EVSE",
+  Idle: "PREPARING",
+};
+
+/**
+ * OCPP 2.0.1 counterpart of OCPPMessageHandler. EVSE ids are stored as
+ * connector ids and 2.0.1 transactions get a numeric transactionId like 1.6
+ * ones (the charger's own id is kept in ocppTransactionRef), so the REST
+ * API reads both versions from the same models.
+ */
+export class OCPP201MessageHandler {
+  private readonly logger = Logger.getInstance();
+  // -> key = transactionId; ocppTransactionRef is only unique per charge point
+  private transactionState = new Map<number, { soc?: number; energy?: number }>();
+  private ocppServer: OCPPServer | null = null;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly redis: RedisService,
+    private readonly apiGateway: APIGateway,
+    private readonly ocpp16Handler: OCPPMessageHandler
+  ) { }
+
+  public setOcppServer(ocppServer: OCPPServer): void {
+    this.ocppServer = ocppServer;
+  }
+
+  public async handleCall(
+    chargePointId: string,
+    uniqueId: string,
+    action: string,
+    payload: any,
+    connection: ChargePointConnection
+  ): Promise<any> {
+    try {
+      let response: any;
+
+      this.logger.debug(`Processing 2.0.1 ${action} from ${chargePointId}`, { uniqueId, payload });
+
+      switch (action) {
+        case "BootNotification":
+          response = await this.handleBootNotification(chargePointId, payload, connection);
+          break;
+
+        case "Heartbeat":
+          await this.db.updateChargePointStatus(chargePointId, true);
+          response = { currentTime: new Date().toISOString() };
+          break;
+
+        case "StatusNotification":
+          response = await this.handleStatusNotification(chargePointId, payload, connection);
+          break;
+
+        case "MeterValues":
+          response = await this.handleMeterValues(chargePointId, payload);
+          break;
+
+        case "Authorize":
+          response = await this.handleAuthorize(chargePointId, payload);
+          break;
+
+        case "TransactionEvent":
+          response = await this.handleTransactionEvent(chargePointId, payload, connection);
+          break;
+
+        case "DataTransfer":
+          response = this.ocppServer
+            ? await this.ocppServer.getDataTransferRegistry().handle(chargePointId, payload)
+            : { status: "Rejected" };
+          break;
+
+        // Same payloads as the 1.6 security extension
+        case "SignCertificate":
+          response = await this.ocpp16Handler.handleSignCertificate(chargePointId, payload);
+          break;
+
+        case "SecurityEventNotification":
+          response = await this.ocpp16Handler.handleSecurityEventNotification(chargePointId, payload);
+          break;
+
+        default:
+          this.logger.warn(`Unhandled 2.0.1 action: ${action} from ${chargePointId}`);
+          return [
+            MessageType.CALLERROR,
+            uniqueId,
+            "NotImplemented",
+            `Action ${action} not implemented`,
+            {},
+          ];
+      }
+
+      return [MessageType.CALLRESULT, uniqueId, response];
+
+    } catch (error) {
+      this.logger.error(`Error handling 2.0.1 ${action} from ${chargePointId}:`, error);
+      return [
+        MessageType.CALLERROR,
+        uniqueId,
+        "InternalError",
+        "Internal server error",
+        {},
+      ];
+    }
+  }
+
+  // ==================== OCPP 2.0.1 MESSAGE HANDLERS ====================
+
+  private async handleBootNotification(
+    chargePointId: string,
+    payload: BootNotificationRequest201,
+    connection: ChargePointConnection
+  ): Promise<BootNotificationResponse201> {
+    this.logger.info(`2.0.1 boot notification from ${chargePointId} (${payload.reason}):`, payload.chargingStation);
+
+    try {
+      const registration = await this.ocpp16Handler.evaluateBoot(chargePointId, {
+        vendor: payload.chargingStation.vendorName,
+        model: payload.chargingStation.model,
+        serialNumber: payload.chargingStation.serialNumber,
+      });
+
+      await this.db.createOrUpdateChargePoint({
+        id: chargePointId,
+        vendor: payload.chargingStation.vendorName,
+        model: payload.chargingStation.model,
+        serialNumber: payload.chargingStation.serialNumber,
+        firmwareVersion: payload.chargingStation.firmwareVersion,
+        iccid: payload.chargingStation.modem?.iccid,
+        imsi: payload.chargingStation.modem?.imsi,
+        ocppVersion: connection.ocppVersion,
+        registrationStatus: registration.registrationStatus,
+      });
+
+      connection.registrationStatus = registration.status;
+      connection.bootNotificationSent = registration.status === "Accepted";
+      if (registration.status === "Accepted") {
+        connection.heartbeatInterval = registration.interval;
+      }
+
+      return {
+        status: registration.status,
+        currentTime: new Date().toISOString(),
+        interval: registration.interval,
+      };
+    } catch (error) {
+      this.logger.error(`Error in 2.0.1 BootNotification for ${chargePointId}:`, error);
+      return {
+        status: "Rejected",
+        currentTime: new Date().toISOString(),
+        interval: 0,
+      };
+    }
+  }
+
+  private async handleStatusNotification(
+    chargePointId: string,
+    payload: StatusNotificationRequest201,
+    connection: ChargePointConnection
+  ): Promise<{}> {
+    const evseId = payload.evseId;
+    let status: ChargePointStatus;
+
+    switch (payload.connectorStatus) {
+      case "Available":
+        status = "AVAILABLE";
+        break;
+      case "Occupied": {
+        // 2.0.1 has no Charging state here; TransactionEvent refines it
+        const active = await this.db.getActiveTransactions(chargePointId);
+        status = active.some((tx) => tx.connectorId === evseId) ? "CHARGING" : "PREPARING";
+        break;
+      }
+      case "Reserved":
+        status = "RESERVED";
+        break;
+      case "Faulted":
+        status = "FAULTED";
+        break;
+      default:
+        status = "UNAVAILABLE";
+    }
+
+    await this.setConnectorStatus(chargePointId, evseId, status, connection);
+
+    this.ocppServer?.getAvailabilityService().onStatusNotification(chargePointId, evseId, payload.connectorStatus).catch((error) => {
+      this.logger.error(`Failed to apply scheduled availability for ${chargePointId}:${evseId}:`, error);
+    });
+
+    return {};
+  }
+
+  private async handleMeterValues(chargePointId: string, payload: MeterValuesRequest201): Promise<{}> {
+    if (!Array.isArray(payload?.meterValue)) {
+      return {};
+    }
+
+    const meterValues = payload.meterValue.map((mv) => this.toMeterValue(mv));
+    await this.ocpp16Handler.persistMeterValues(chargePointId, payload.evseId, meterValues, null);
+    this.recordLoadSamples(chargePointId, payload.evseId, meterValues);
+
+    return {};
+  }
+
+  private async handleAuthorize(chargePointId: string, payload: AuthorizeRequest201): Promise<AuthorizeResponse201> {
+    // Same rule as 1.6: ConcurrentTx only applies when a transaction starts,
+    // a driver presenting the card to stop their own session must be Accepted
+    return {
+      idTokenInfo: await this.authorizeIdToken(payload.idToken.idToken, true),
+    };
+  }
+
+  private async handleTransactionEvent(
+    chargePointId: string,
+    payload: TransactionEventRequest201,
+    connection: ChargePointConnection
+  ): Promise<TransactionEventResponse201> {
+    const ref = payload.transactionInfo.transactionId;
+    const meterValues = (payload.meterValue ?? []).map((mv) => this.toMeterValue(mv));
+    let transaction = await this.db.findTransactionByOcppRef(chargePointId, ref);
+    let response: TransactionEventResponse201 = {};
+
+    this.logger.info(`TransactionEvent ${payload.eventType} (${payload.triggerReason}) for ${ref} from ${chargePointId}`);
+
+    // Started may be lost or arrive late when the charger was offline
+    if (!transaction && payload.eventType !== "Ended") {
+      const started = await this.startTransaction(chargePointId, payload, meterValues);
+      transaction = started.transaction;
+      response = started.response;
+    } else if (transaction && payload.idToken && !transaction.idTagId && payload.idToken.type !== "NoAuthorization") {
+      response.idTokenInfo = await this.authorizeIdToken(payload.idToken.idToken, false);
+      if (response.idTokenInfo.status === "Accepted") {
+        await this.db.setTransactionIdTag(transaction.id, payload.idToken.idToken);
+      }
+    }
+
+    if (!transaction) {
+      this.logger.warn(`TransactionEvent Ended for unknown transaction ${ref} from ${chargePointId}`);
+      return {};
+    }
+
+    const connectorId = payload.evse?.id ?? transaction.connectorId;
+    await this.ocpp16Handler.persistMeterValues(chargePointId, connectorId, meterValues, transaction.id);
+    this.recordLoadSamples(chargePointId, connectorId, meterValues);
+    await this.trackMeterState(chargePointId, connectorId, transaction.transactionId, meterValues, !transaction.startSoC);
+
+    meterValues.forEach((meterValue) => {
+      this.apiGateway.sendMeterValueToClients({
+        chargePointId,
+        connectorId,
+        transactionId: transaction!.transactionId,
+        timestamp: new Date(meterValue.timestamp).toISOString(),
+        meterValue,
+      });
+    });
+
+    if (payload.eventType === "Ended") {
+      await this.endTransaction(chargePointId, transaction.transactionId, connectorId, payload, connection);
+    } else if (payload.transactionInfo.chargingState) {
+      await this.setConnectorStatus(chargePointId, connectorId, chargingStateToStatus[payload.transactionInfo.chargingState], connection);
+    }
+
+    return response;
+  }
+
+  // ==================== TRANSACTIONS ====================
+
+  private async startTransaction(
+    chargePointId: string,
+    payload: TransactionEventRequest201,
+    meterValues: MeterValue[]
+  ) {
+    const evseId = payload.evse?.id ?? 1;
+    const idToken = payload.idToken && payload.idToken.type !== "NoAuthorization" ? payload.idToken.idToken : undefined;
+    const pending = pendingChargeSessions.get(`${chargePointId}:${evseId}`);
+    const response: TransactionEventResponse201 = {};
+
+    // The charger has already started the transaction, so it is recorded
+    // even when the token is refused; the charger ends it on a rejection
+    if (idToken) {
+      response.idTokenInfo = await this.authorizeIdToken(idToken, !!pending);
+    }
+
+    const reservationManager = this.ocppServer?.getReservationManager();
+    const reservationCheck = reservationManager && idToken
+      ? await reservationManager.checkStartTransaction({
+          chargePointId,
+          connectorId: evseId,
+          idTag: idToken,
+          reservationId: payload.reservationId,
+        })
+      : { allowed: true };
+
+    if (!reservationCheck.allowed) {
+      this.logger.warn(`TransactionEvent Started on ${chargePointId}:${evseId} conflicts with a reservation: ${reservationCheck.reason}`);
+      response.idTokenInfo = { status: "Invalid" };
+    }
+
+    await this.db.createOrUpdateConnector(chargePointId, evseId, {});
+
+    const created = await this.db.createTransaction({
+      ocppTransactionRef: payload.transactionInfo.transactionId,
+      chargePointId,
+      connectorId: evseId,
+      idTag: response.idTokenInfo?.status === "Accepted" ? idToken : undefined,
+      meterStart: this.findEnergyRegister(meterValues) ?? 0,
+      startTimestamp: new Date(payload.timestamp),
+      reservationId: payload.reservationId,
+      vehicleId: pending?.vehicleId,
+    });
+
+    await this.db.createOrUpdateConnector(chargePointId, evseId, {}, created.transactionId);
+
+    if (reservationCheck.allowed && reservationCheck.reservation) {
+      await reservationManager!.markUsed(reservationCheck.reservation.id, created.transactionId);
+    }
+
+    this.ocppServer?.getLoadManagementService().onSessionChanged(chargePointId).catch((error) => {
+      this.logger.error(`Failed to schedule load rebalance for ${chargePointId}:`, error);
+    });
+
+    const transaction = await this.db.findTransactionByOcppId(created.transactionId);
+    return { transaction, response };
+  }
+
+  private async endTransaction(
+    chargePointId: string,
+    transactionId: number,
+    connectorId: number,
+    payload: TransactionEventRequest201,
+    connection: ChargePointConnection
+  ): Promise<void> {
+    const transaction = await this.db.findTransactionByOcppId(transactionId);
+    if (!transaction || transaction.stopTimestamp) return;
+
+    const state = this.transactionState.get(transactionId);
+    this.transactionState.delete(transactionId);
+
+    await this.db.stopTransaction(
+      transactionId,
+      state?.energy ?? transaction.meterStart,
+      new Date(payload.timestamp),
+      toStopReason(payload.transactionInfo.stoppedReason),
+      state?.soc ?? null
+    );
+
+    try {
+      await this.ocppServer?.getSmartChargingService().onTransactionStopped(chargePointId, transactionId);
+    } catch (error) {
+      this.logger.error(`Failed to discard TxProfiles for transaction ${transactionId}:`, error);
+    }
+
+    this.ocppServer?.getLoadManagementService().onSessionChanged(chargePointId).catch((error) => {
+      this.logger.error(`Failed to schedule load rebalance for ${chargePointId}:`, error);
+    });
+
+    await this.setConnectorStatus(chargePointId, connectorId, "AVAILABLE", connection);
+  }
+
+  /**
+   * Keep the latest energy register and SoC of the transaction; the first
+   * SoC seen becomes the transaction's startSoC
+   */
+  private async trackMeterState(
+    chargePointId: string,
+    connectorId: number,
+    transactionId: number,
+    meterValues: MeterValue[],
+    needsStartSoc: boolean
+  ): Promise<void> {
+    const state = this.transactionState.get(transactionId) ?? {};
+
+    const energy = this.findEnergyRegister(meterValues);
+    if (energy !== undefined) state.energy = energy;
+
+    for (const meterValue of meterValues) {
+      for (const sv of meterValue.sampledValue) {
+        if (sv.measurand !== "SoC") continue;
+
+        const soc = Number(sv.value);
+        if (Number.isNaN(soc)) continue;
+
+        if (needsStartSoc && state.soc === undefined) {
+          await this.db.writeStartSOCToTXN(transactionId, soc);
+        }
+        state.soc = soc;
+        await this.redis.set(`soc:${chargePointId}:${connectorId}:${transactionId}:latest`, soc.toString());
+      }
+    }
+
+    this.transactionState.set(transactionId, state);
+  }
+
+  // ==================== HELPERS ====================
+
+  private async authorizeIdToken(idToken: string, allowConcurrentTx: boolean): Promise<IdTokenInfo201> {
+    const validation = await this.db.validateIdTag(idToken, { allowConcurrentTx });
+
+    if (validation.status === "ACCEPTED") {
+      await this.db.markIdTagUsed(idToken);
+    }
+
+    // 1.6 idTag statuses are a subset of 2.0.1 AuthorizationStatus
+    return {
+      status: idTagStatus(validation.status) as AuthorizationStatus201,
+      ...(validation.expiryDate && { cacheExpiryDateTime: validation.expiryDate.toISOString() }),
+      ...(validation.parentIdTag && { groupIdToken: { idToken: validation.parentIdTag, type: "Central" as const } }),
+    };
+  }
+
+  private async setConnectorStatus(
+    chargePointId: string,
+    connectorId: number,
+    status: ChargePointStatus,
+    connection: ChargePointConnection
+  ): Promise<void> {
+    await this.db.updateConnectorStatus(chargePointId, connectorId, status);
+
+    const connectorData = connection.connectors.get(connectorId)
+      ?? this.ocppServer?.getDefaultChargingData(chargePointId, connectorId);
+    if (!connectorData) return;
+
+    // The live connector map carries 1.6 status names for both versions
+    connectorData.status = convertInternalStatusToOCPP(status) as any;
+    connectorData.connected = status !== "AVAILABLE" && status !== "UNAVAILABLE" && status !== "FAULTED";
+    connectorData.timestamp = new Date();
+    connection.connectors.set(connectorId, connectorData);
+  }
+
+  private recordLoadSamples(chargePointId: string, connectorId: number, meterValues: MeterValue[]): void {
+    const loadManagement = this.ocppServer?.getLoadManagementService();
+    if (!loadManagement) return;
+
+    for (const meterValue of meterValues) {
+      for (const sv of meterValue.sampledValue) {
+        if (sv.measurand === "Current.Import" || sv.measurand === "Power.Active.Import") {
+          loadManagement.recordSample(chargePointId, connectorId, sv.measurand, sv.value, sv.unit);
+        }
+      }
+    }
+  }
+
+  // Energy.Active.Import.Register in Wh, from the last sample that has one
+  private findEnergyRegister(meterValues: MeterValue[]): number | undefined {
+    let energy: number | undefined;
+
+    for (const meterValue of meterValues) {
+      for (const sv of meterValue.sampledValue) {
+        if ((sv.measurand ?? "Energy.Active.Import.Register") !== "Energy.Active.Import.Register" || sv.phase) continue;
+
+        const value = Number(sv.value);
+        if (!Number.isNaN(value)) {
+          energy = sv.unit === "kWh" ? value * 1000 : value;
+        }
+      }
+    }
+
+    return energy;
+  }
+
+  /**
+   * Convert to the 1.6 shape stored in meter_values: numeric values with
+   * the unit multiplier applied become strings, unitOfMeasure becomes unit
+   */
+  private toMeterValue(meterValue: MeterValue201): MeterValue {
+    return {
+      timestamp: meterValue.timestamp,
+      sampledValue: (meterValue.sampledValue ?? []).map((sv: SampledValue201) => ({
+        value: String(sv.value * Math.pow(10, sv.unitOfMeasure?.multiplier ?? 0)),
+        context: sv.context,
+        measurand: sv.measurand ?? "Energy.Active.Import.Register",
+        phase: sv.phase,
+        location: sv.location,
+        unit: sv.unitOfMeasure?.unit,
+      })),
+    };
+  }
+}
+
+// ==================== OUTBOUND TRANSLATION ====================
+
+export interface TranslatedCommand {
+  action: string;
+  payload: any;
+  // Converts the 2.0.1 response back into the 1.6 shape the caller expects
+  translateResponse: (response: any) => any;
+}
+
+// 1.6 configuration keys with a 2.0.1 device model equivalent. Other keys
+// can be addressed as "Component.Variable".
+const configurationVariables: Record<string, ComponentVariable201> = {
+  HeartbeatInterval: { component: { name: "OCPPCommCtrlr" }, variable: { name: "HeartbeatInterval" } },
+  WebSocketPingInterval: { component: { name: "OCPPCommCtrlr" }, variable: { name: "WebSocketPingInterval" } },
+  MeterValueSampleInterval: { component: { name: "SampledDataCtrlr" }, variable: { name: "TxUpdatedInterval" } },
+  MeterValuesSampledData: { component: { name: "SampledDataCtrlr" }, variable: { name: "TxUpdatedMeasurands" } },
+  ConnectionTimeOut: { component: { name: "TxCtrlr" }, variable: { name: "EVConnectionTimeOut" } },
+  AuthorizeRemoteTxRequests: { component: { name: "AuthCtrlr" }, variable: { name: "AuthorizeRemoteStart" } },
+  LocalAuthListEnabled: { component: { name: "LocalAuthListCtrlr" }, variable: { name: "Enabled" } },
+  AuthorizationKey: { component: { name: "SecurityCtrlr" }, variable: { name: "BasicAuthPassword" } },
+};
+
+const certificateUseTo201: Record<CertificateUseType, string> = {
+  CentralSystemRootCertificate: "CSMSRootCertificate",
+  ManufacturerRootCertificate: "ManufacturerRootCertificate",
+};
+
+// Messages that only exist in 2.0.1 are sent unchanged
+const native201Actions = new Set([
+  "RequestStartTransaction",
+  "RequestStopTransaction",
+  "GetVariables",
+  "SetVariables",
+  "GetBaseReport",
+  "GetTransactionStatus",
+]);
+
+const toComponentVariable = (key: string): ComponentVariable201 | undefined => {
+  if (configurationVariables[key]) return configurationVariables[key];
+
+  const separator = key.indexOf(".");
+  if (separator <= 0 || separator === key.length - 1) return undefined;
+
+  return {
+    component: { name: key.slice(0, separator) },
+    variable: { name: key.slice(separator + 1) },
+  };
+};
+
+const passThrough = (action: string, payload: any): TranslatedCommand => ({
+  action,
+  payload,
+  translateResponse: (response) => response,
+});
+
+/**
+ * Translate a 1.6 command issued by the services and the REST API into its
+ * 2.0.1 counterpart. Commands without one are refused.
+ */
+export const translateCommandTo201 = async (
+  db: DatabaseService,
+  action: string,
+  payload: any
+): Promise<TranslatedCommand> => {
+  if (native201Actions.has(action)) {
+    return passThrough(action, payload);
+  }
+
+  switch (action) {
+    case "ClearCache":
+    case "DataTransfer":
+    case "CancelReservation":
+    case "DeleteCertificate":
+      return passThrough(action, payload);
+
+    case "CertificateSigned":
+      return {
+        action,
+        payload: { certificateChain: payload.certificateChain, certificateType: "ChargingStationCertificate" },
+        translateResponse: (response) => response,
+      };
+
+    case "InstallCertificate":
+      return {
+        action,
+        payload: {
+          certificateType: certificateUseTo201[payload.certificateType as CertificateUseType],
+          certificate: payload.certificate,
+        },
+        translateResponse: (response) => response,
+      };
+
+    case "GetInstalledCertificateIds":
+      return {
+        action,
+        payload: { certificateType: [certificateUseTo201[payload.certificateType as CertificateUseType]] },
+        translateResponse: (response) => ({
+          status: response?.status,
+          certificateHashData: (response?.certificateHashDataChain ?? []).map((chain: any) => chain.certificateHashData),
+        }),
+      };
+
+    case "RemoteStartTransaction": {
+      if (payload.chargingProfile) {
+        throw new Error("Charging profiles in RemoteStartTransaction are not supported for OCPP 2.0.1 charge points");
+      }
+
+      return {
+        action: "RequestStartTransaction",
+        payload: {
+          ...(payload.connectorId && { evseId: payload.connectorId }),
+          idToken: { idToken: payload.idTag, type: "Central" },
+          remoteStartId: crypto.randomInt(1, 2147483647),
+        },
+        translateResponse: (response) => ({ status: response?.status }),
+      };
+    }
+
+    case "RemoteStopTransaction": {
+      const transaction = await db.findTransactionByOcppId(payload.transactionId);
+      if (!transaction?.ocppTransactionRef) {
+        throw new Error(`Transaction ${payload.transactionId} was not started over OCPP 2.0.1`);
+      }
+
+      return {
+        action: "RequestStopTransaction",
+        payload: { transactionId: transaction.ocppTransactionRef },
+        translateResponse: (response) => ({ status: response?.status }),
+      };
+    }
+
+    case "Reset":
+      return {
+        action,
+        payload: { type: payload.type === "Hard" ? "Immediate" : "OnIdle" },
+        translateResponse: (response) => ({
+          status: response?.status === "Scheduled" ? "Accepted" : response?.status,
+        }),
+      };
+
+    case "UnlockConnector":
+      return {
+        action,
+        payload: { evseId: payload.connectorId, connectorId: 1 },
+        translateResponse: (response) => {
+          switch (response?.status) {
+            case "Unlocked":
+              return { status: "Unlocked" };
+            case "UnknownConnector":
+              return { status: "NotSupported" };
+            default:
+              return { status: "UnlockFailed" };
+          }
+        },
+      };
+
+    case "ChangeAvailability":
+      return {
+        action,
+        payload: {
+          operationalStatus: payload.type,
+          ...(payload.connectorId > 0 && { evse: { id: payload.connectorId } }),
+        },
+        translateResponse: (response) => response,
+      };
+
+    case "TriggerMessage":
+      return {
+        action,
+        payload: {
+          requestedMessage: payload.requestedMessage === "DiagnosticsStatusNotification"
+            ? "LogStatusNotification"
+            : payload.requestedMessage,
+          ...(payload.connectorId !== undefined && payload.connectorId > 0 && { evse: { id: payload.connectorId } }),
+        },
+        translateResponse: (response) => response,
+      };
+
+    case "GetLocalListVersion":
+      return {
+        action,
+        payload: {},
+        translateResponse: (response) => ({ listVersion: response?.versionNumber }),
+      };
+
+    case "SendLocalList": {
+      const request = payload as SendLocalListRequest;
+
+      return {
+        action,
+        payload: {
+          versionNumber: request.listVersion,
+          updateType: request.updateType,
+          localAuthorizationList: request.localAuthorizationList?.map((entry) => ({
+            idToken: { idToken: entry.idTag, type: "Central" },
+            ...(entry.idTagInfo && {
+              idTokenInfo: {
+                status: entry.idTagInfo.status,
+                ...(entry.idTagInfo.expiryDate && { cacheExpiryDateTime: entry.idTagInfo.expiryDate }),
+                ...(entry.idTagInfo.parentIdTag && { groupIdToken: { idToken: entry.idTagInfo.parentIdTag, type: "Central" } }),
+              },
+            }),
+          })),
+        },
+        translateResponse: (response) => response,
+      };
+    }
+
+    case "ReserveNow": {
+      const request = payload as ReserveNowRequest;
+
+      return {
+        action,
+        payload: {
+          id: request.reservationId,
+          expiryDateTime: request.expiryDate,
+          idToken: { idToken: request.idTag, type: "Central" },
+          ...(request.connectorId > 0 && { evseId: request.connectorId }),
+          ...(request.parentIdTag && { groupIdToken: { idToken: request.parentIdTag, type: "Central" } }),
+        },
+        translateResponse: (response) => response,
+      };
+    }
+
+    case "GetConfiguration": {
+      const keys: string[] = payload.key?.length ? payload.key : Object.keys(configurationVariables);
+      const known = keys.filter((key) => toComponentVariable(key));
+      const unknownKey = keys.filter((key) => !toComponentVariable(key));
+
+      return {
+        action: "GetVariables",
+        payload: {
+          getVariableData: known.map((key) => toComponentVariable(key)),
+        },
+        translateResponse: (response) => {
+          const results: GetVariableResult201[] = response?.getVariableResult ?? [];
+          const configurationKey = [];
+
+          for (const [index, key] of known.entries()) {
+            const result = results[index];
+            if (result?.attributeStatus === "Accepted") {
+              configurationKey.push({ key, readonly: false, value: result.attributeValue });
+            } else {
+              unknownKey.push(key);
+            }
+          }
+
+          return { configurationKey, unknownKey };
+        },
+      };
+    }
+
+    case "ChangeConfiguration": {
+      const componentVariable = toComponentVariable(payload.key);
+      if (!componentVariable) {
+        throw new Error(`Configuration key ${payload.key} has no OCPP 2.0.1 equivalent, use Component.Variable`);
+      }
+
+      return {
+        action: "SetVariables",
+        payload: {
+          setVariableData: [{ ...componentVariable, attributeValue: String(payload.value) }],
+        },
+        translateResponse: (response) => {
+          const result: SetVariableResult201 | undefined = response?.setVariableResult?.[0];
+          switch (result?.attributeStatus) {
+            case "Accepted":
+            case "RebootRequired":
+              return { status: result.attributeStatus };
+            case "UnknownComponent":
+            case "UnknownVariable":
+              return { status: "NotSupported" };
+            default:
+              return { status: "Rejected" };
+          }
+        },
+      };
+    }
+
+    default:
+      throw new Error(`${action} is not supported for OCPP 2.0.1 charge points`);
+  }
+};
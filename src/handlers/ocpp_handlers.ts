@@ -12,6 +12,7 @@ import {
   HeartbeatResponse,
   StatusNotificationRequest,
   StatusNotificationResponse,
+  MeterValue,
   MeterValuesRequest,
   MeterValuesResponse,
   StartTransactionRequest,
@@ -22,11 +23,19 @@ import {
   AuthorizeResponse,
   ChargingStationData,
   LiveMeterState,
+  FirmwareStatusNotificationRequest,
+  DiagnosticsStatusNotificationRequest,
+  DataTransferRequest,
+  DataTransferResponse,
+  SignCertificateRequest,
+  SignCertificateResponse,
+  SecurityEventNotificationRequest,
 } from "../types/ocpp_types";
 import { APIGateway, pendingChargeSessions } from "../services/api_gateway";
-import crypto from "crypto"
-import { idTagStatus } from "../helpers/helper";
-import { StopReason} from "../types/ocpp_types"
+import { OCPP201MessageHandler } from "./ocpp201_handlers";
+import { BootRegistration } from "../services/charge-point-provisioning";
+import { RegistrationStatus } from "@prisma/client";
+import { idTagStatus, toStopReason } from "../helpers/helper";
 
 
 interface PendingCall {
@@ -42,13 +51,23 @@ export class OCPPMessageHandler {
   private transactionSocCache = new Map<number, number>();
   // -> reminder: key = `${chargePointId}:${connectorId}`
   private liveMeterValues = new Map<string, LiveMeterState>()
+  private ocppServer: OCPPServer | null = null;
+  private readonly ocpp201Handler: OCPP201MessageHandler;
 
 
   constructor(
     private readonly db: DatabaseService,
     private readonly redis: RedisService,
     private readonly apiGateway: APIGateway
-  ) { }
+  ) {
+    this.ocpp201Handler = new OCPP201MessageHandler(db, redis, apiGateway, this);
+  }
+
+  // Set once the server is constructed (same circular dependency as APIGateway)
+  public setOcppServer(ocppServer: OCPPServer): void {
+    this.ocppServer = ocppServer;
+    this.ocpp201Handler.setOcppServer(ocppServer);
+  }
 
   // ==================== MESSAGE ROUTING ====================
 
@@ -66,6 +85,23 @@ export class OCPPMessageHandler {
 
     switch (messageTypeId) {
       case MessageType.CALL:
+        // Until it is accepted a charge point may only boot again
+        if (
+          actionOrErrorCode !== "BootNotification" &&
+          (connection.registrationStatus === "Pending" || connection.registrationStatus === "Rejected")
+        ) {
+          this.logger.warn(`${actionOrErrorCode} from ${chargePointId} refused, registration is ${connection.registrationStatus}`);
+          return [
+            MessageType.CALLERROR,
+            uniqueId,
+            "SecurityError",
+            `Charge point registration is ${connection.registrationStatus}`,
+            {},
+          ];
+        }
+        if (connection.ocppVersion === '2.0.1') {
+          return this.ocpp201Handler.handleCall(chargePointId, uniqueId, actionOrErrorCode, payload, connection);
+        }
         return this.handleCall(
           chargePointId,
           uniqueId,
@@ -178,6 +214,26 @@ export class OCPPMessageHandler {
           response = await this.handleAuthorize(chargePointId, payload, connection);
           break;
 
+        case "FirmwareStatusNotification":
+          response = await this.handleFirmwareStatusNotification(chargePointId, payload);
+          break;
+
+        case "DiagnosticsStatusNotification":
+          response = await this.handleDiagnosticsStatusNotification(chargePointId, payload);
+          break;
+
+        case "DataTransfer":
+          response = await this.handleDataTransfer(chargePointId, payload);
+          break;
+
+        case "SignCertificate":
+          response = await this.handleSignCertificate(chargePointId, payload);
+          break;
+
+        case "SecurityEventNotification":
+          response = await this.handleSecurityEventNotification(chargePointId, payload);
+          break;
+
         default:
           this.logger.warn(`Unhandled action: ${action} from ${chargePointId}`);
           return [
@@ -219,6 +275,12 @@ export class OCPPMessageHandler {
       console.log(`📋 Payload:`, JSON.stringify(payload, null, 2));
       this.logger.info(`Boot notification from ${chargePointId}:`, payload);
 
+      const registration = await this.evaluateBoot(chargePointId, {
+        vendor: payload.chargePointVendor,
+        model: payload.chargePointModel,
+        serialNumber: payload.chargePointSerialNumber ?? payload.chargeBoxSerialNumber,
+      });
+
       console.log(`💾 Attempting to save to database...`);
       await this.db.createOrUpdateChargePoint({
         id: chargePointId,
@@ -230,16 +292,21 @@ export class OCPPMessageHandler {
         imsi: payload.imsi,
         meterType: payload.meterType,
         meterSerialNumber: payload.meterSerialNumber,
+        ocppVersion: connection.ocppVersion,
+        registrationStatus: registration.registrationStatus,
       });
       console.log(`✅ Database save successful`);
 
-      connection.bootNotificationSent = true;
-      connection.heartbeatInterval = 300; // 5 minutes
+      connection.registrationStatus = registration.status;
+      connection.bootNotificationSent = registration.status === "Accepted";
+      if (registration.status === "Accepted") {
+        connection.heartbeatInterval = registration.interval;
+      }
 
       const response = {
-        status: "Accepted" as const,
+        status: registration.status,
         currentTime: new Date().toISOString(),
-        interval: connection.heartbeatInterval,
+        interval: registration.interval,
       };
 
       console.log(`📤 Returning BootNotification response:`, response);
@@ -300,6 +367,10 @@ export class OCPPMessageHandler {
       payload.vendorErrorCode
     );
 
+    this.ocppServer?.getAvailabilityService().onStatusNotification(chargePointId, payload.connectorId, payload.status).catch((error) => {
+      this.logger.error(`Failed to apply scheduled availability for ${chargePointId}:${payload.connectorId}:`, error);
+    });
+
     // Handle alarms if there's an error
     if (payload.errorCode && payload.errorCode !== "NoError") {
       await this.db.createAlarm({
@@ -326,12 +397,17 @@ export class OCPPMessageHandler {
     payload: MeterValuesRequest,
     connection: ChargePointConnection
   ) {
-    if (
-      !payload?.meterValue ||
-      !Array.isArray(payload.meterValue) ||
-      !payload.transactionId ||
-      !payload.connectorId
-    ) {
+    if (!payload?.meterValue || !Array.isArray(payload.meterValue)) {
+      return {};
+    }
+
+    // Keep every sample, including clock-aligned values sent outside a transaction
+    const transactionRecord = payload.transactionId
+      ? await this.db.findTransactionByOcppId(payload.transactionId)
+      : null;
+    await this.persistMeterValues(chargePointId, payload.connectorId ?? 0, payload.meterValue, transactionRecord?.id ?? null);
+
+    if (!payload.transactionId || !payload.connectorId) {
       return {};
     }
 
@@ -369,7 +445,7 @@ export class OCPPMessageHandler {
               await this.redis.set(startSocKey, soc.toString()); // 24 hour expiry
               console.log(`✅ Saved startSOC=${soc}% for CP:${chargePointId}, Connector:${connectorId}, Txn:${transactionId}`);
             }
-            const transaction = await this.db.getTransaction(transactionId);
+            const transaction = transactionRecord;
 
             const latestSocKey = `soc:${chargePointId}:${connectorId}:${transactionId}:latest`;
             await this.redis.set(latestSocKey, soc.toString());
@@ -395,6 +471,10 @@ export class OCPPMessageHandler {
           }
         }
 
+        if (measurand === "Current.Import" || measurand === "Power.Active.Import") {
+          this.ocppServer?.getLoadManagementService().recordSample(chargePointId, connectorId, measurand, sv.value, sv.unit);
+        }
+
         // this.apiGateway.sendMeterValueToClients()
 
        // Send meter values to clients via API gateway
@@ -412,6 +492,38 @@ export class OCPPMessageHandler {
     return {};
   }
 
+  public async persistMeterValues(
+    chargePointId: string,
+    connectorId: number,
+    meterValues: MeterValue[],
+    transactionPrimaryKey: number | null
+  ): Promise<void> {
+    for (const meterValue of meterValues) {
+      if (!meterValue?.sampledValue?.length) continue;
+
+      try {
+        await this.db.saveMeterValues({
+          transactionId: transactionPrimaryKey,
+          connectorId,
+          chargePointId,
+          timestamp: meterValue.timestamp ? new Date(meterValue.timestamp) : new Date(),
+          sampledValues: meterValue.sampledValue.map((sv) => ({
+            value: String(sv.value),
+            context: sv.context,
+            format: sv.format,
+            measurand: sv.measurand ?? "Energy.Active.Import.Register",
+            phase: sv.phase,
+            location: sv.location,
+            unit: sv.unit,
+          })),
+        });
+      } catch (error) {
+        // Storage problems must not make the charge point resend the message
+        this.logger.error(`Failed to store meter values from ${chargePointId}:${connectorId}:`, error);
+      }
+    }
+  }
+
   // private async handleStartTransaction(
   //   chargePointId: string,
   //   payload: StartTransactionRequest,
@@ -480,26 +592,45 @@ export class OCPPMessageHandler {
     console.log("The start config", { StartTransaction: payload });
 
     const connectorId = payload.connectorId;
-    // const idTagValidation = await this.db.validateIdTag(payload.idTag);
-
-    // if (idTagValidation.status !== "ACCEPTED") {
-    //   return {
-    //     transactionId: -1,
-    //     idTagInfo: {
-    //       status: idTagValidation.status as any,
-    //       expiryDate: idTagValidation.expiryDate?.toISOString(),
-    //     },
-    //   };
-    // }
     const key = `${chargePointId}:${connectorId}`
     const pending = pendingChargeSessions.get(key)
     console.log("pending", pending)
 
-    const transactionId = 100000 + crypto.randomInt(0, 900000);
-    console.log({ transactionId });
+    // Sessions started from the API run on the operator's tag, which is
+    // expected to have several transactions open at once
+    const idTagValidation = await this.db.validateIdTag(payload.idTag, {
+      allowConcurrentTx: !!pending,
+    });
+
+    if (idTagValidation.status !== "ACCEPTED") {
+      this.logger.warn(`StartTransaction rejected for ${chargePointId}:${connectorId}: idTag ${payload.idTag} is ${idTagValidation.status}`);
+      return {
+        transactionId: -1,
+        idTagInfo: this.toIdTagInfo(idTagValidation),
+      };
+    }
+
+    const reservationManager = this.ocppServer?.getReservationManager();
+    const reservationCheck = reservationManager
+      ? await reservationManager.checkStartTransaction({
+          chargePointId,
+          connectorId,
+          idTag: payload.idTag,
+          reservationId: payload.reservationId,
+        })
+      : { allowed: true };
+
+    if (!reservationCheck.allowed) {
+      this.logger.warn(`StartTransaction rejected for ${chargePointId}:${connectorId}: ${reservationCheck.reason}`);
+      return {
+        transactionId: -1,
+        idTagInfo: {
+          status: "Invalid",
+        },
+      };
+    }
 
     const transaction = await this.db.createTransaction({
-      transactionId: transactionId,
       chargePointId,
       connectorId: payload.connectorId,
       idTag: payload.idTag,
@@ -517,6 +648,16 @@ export class OCPPMessageHandler {
       transaction.transactionId
     );
 
+    if (reservationCheck.reservation) {
+      await reservationManager!.markUsed(reservationCheck.reservation.id, transaction.transactionId);
+    }
+
+    await this.db.markIdTagUsed(payload.idTag);
+
+    this.ocppServer?.getLoadManagementService().onSessionChanged(chargePointId).catch((error) => {
+      this.logger.error(`Failed to schedule load rebalance for ${chargePointId}:`, error);
+    });
+
     // Update connector data
     const connectorData = connection.connectors.get(connectorId)!;
     connectorData.status = "Charging" as any;
@@ -526,10 +667,7 @@ export class OCPPMessageHandler {
 
     return {
       transactionId: transaction.transactionId,  // ✅ Return DB ID, not random number
-      idTagInfo: {
-        status: "Accepted",
-        // expiryDate: idTagValidation.expiryDate?.toISOString(),
-      },
+      idTagInfo: this.toIdTagInfo(idTagValidation),
     };
   }
 
@@ -542,7 +680,7 @@ export class OCPPMessageHandler {
     this.logger.info(`Stop transaction from ${chargePointId}:`, payload);
 
     // Get transaction using OCPP transactionId
-    const transaction = await this.db.getTransaction(payload.transactionId);
+    const transaction = await this.db.findTransactionByOcppId(payload.transactionId);
     console.log({ StopTransaction: payload });
 
     // If transaction not found → still respond Accepted
@@ -555,35 +693,22 @@ export class OCPPMessageHandler {
         idTagInfo: { status: "Accepted" }
       };
     }
+
+    // Resent with a new uniqueId (e.g. from the offline queue after a reconnect): already stopped, nothing to redo
+    if (transaction.stopTimestamp) {
+      this.logger.warn(
+        `StopTransaction ${payload.transactionId} from ${chargePointId} repeated, transaction was already stopped at ${transaction.stopTimestamp.toISOString()}`
+      );
+
+      return {
+        idTagInfo: { status: "Accepted" }
+      };
+    }
+
     const stopSoc = this.transactionSocCache.get(payload.transactionId) ?? null;
     console.log({ stopSoc })
 
-    const stopReasonMap: Record<string, string> = {
-      "Local": "LOCAL",
-      "Remote": "REMOTE",
-      "Emergency": "EMERGENCY_STOP",
-      "EVDisconnected": "EV_DISCONNECTED",
-      "HardReset": "HARD_RESET",
-      "SoftReset": "SOFT_RESET",
-      "Other": "OTHER",
-      "PowerLoss": "POWER_LOSS",
-      "Reboot": "REBOOT",
-      "UnlockCommand": "UNLOCK_COMMAND",
-      "DeAuthorized": "DE_AUTHORIZED",
-      "EnergyLimitReached": "ENERGY_LIMIT_REACHED",
-      "GroundFault": "GROUND_FAULT",
-      "ImmediateReset": "IMMEDIATE_RESET",
-      "LocalOutOfCredit": "LOCAL_OUT_OF_CREDIT",
-      "MasterPass": "MASTER_PASS",
-      "OvercurrentFault": "OVERCURRENT_FAULT",
-      "PowerQuality": "POWER_QUALITY",
-      "SOCLimitReached": "SOC_LIMIT_REACHED",
-      "StoppedByEV": "STOPPED_BY_EV",
-      "TimeLimitReached": "TIME_LIMIT_REACHED",
-      "Timeout": "TIMEOUT",
-    };
-    const reason = payload.reason;
-    const mappedReason = (reason && stopReasonMap[reason] ? stopReasonMap[reason] : "OTHER") as StopReason;
+    const mappedReason = toStopReason(payload.reason);
 
     const connectorId = transaction.connectorId ?? 1;
     const transactionPrimaryKey = transaction.id;
@@ -597,6 +722,20 @@ export class OCPPMessageHandler {
       stopSoc // Pass stopSoC to the database method
     );
 
+    if (payload.transactionData?.length) {
+      await this.persistMeterValues(chargePointId, connectorId, payload.transactionData, transactionPrimaryKey);
+    }
+
+    try {
+      await this.ocppServer?.getSmartChargingService().onTransactionStopped(chargePointId, transaction.transactionId);
+    } catch (error) {
+      this.logger.error(`Failed to discard TxProfiles for transaction ${transaction.transactionId}:`, error);
+    }
+
+    this.ocppServer?.getLoadManagementService().onSessionChanged(chargePointId).catch((error) => {
+      this.logger.error(`Failed to schedule load rebalance for ${chargePointId}:`, error);
+    });
+
     // Update connector state
     await this.db.updateConnectorStatus(
       chargePointId,
@@ -635,13 +774,107 @@ export class OCPPMessageHandler {
   ): Promise<AuthorizeResponse> {
     this.logger.info(`Authorize request from ${chargePointId}:`, payload);
 
-    const idTagValidation = await this.db.validateIdTag(payload.idTag);
+    // ConcurrentTx only applies to StartTransaction; a driver presenting the
+    // card to stop their own session must still be Accepted
+    const idTagValidation = await this.db.validateIdTag(payload.idTag, {
+      allowConcurrentTx: true,
+    });
+
+    if (idTagValidation.status === "ACCEPTED") {
+      await this.db.markIdTagUsed(payload.idTag);
+    }
 
     return {
-      idTagInfo: {
-        status: idTagStatus(idTagValidation.status as any),
-        // expiryDate: idTagValidation.expiryDate?.toISOString(),
-      },
+      idTagInfo: this.toIdTagInfo(idTagValidation),
+    };
+  }
+
+  private async handleFirmwareStatusNotification(
+    chargePointId: string,
+    payload: FirmwareStatusNotificationRequest
+  ): Promise<{}> {
+    this.logger.info(`Firmware status from ${chargePointId}: ${payload?.status}`);
+
+    try {
+      await this.ocppServer?.getFirmwareService().handleStatusNotification(chargePointId, payload.status);
+    } catch (error) {
+      this.logger.error(`Failed to record firmware status for ${chargePointId}:`, error);
+    }
+
+    return {};
+  }
+
+  private async handleDiagnosticsStatusNotification(
+    chargePointId: string,
+    payload: DiagnosticsStatusNotificationRequest
+  ): Promise<{}> {
+    this.logger.info(`Diagnostics status from ${chargePointId}: ${payload?.status}`);
+
+    try {
+      await this.ocppServer?.getDiagnosticsService().handleStatusNotification(chargePointId, payload.status);
+    } catch (error) {
+      this.logger.error(`Failed to record diagnostics status for ${chargePointId}:`, error);
+    }
+
+    return {};
+  }
+
+  private async handleDataTransfer(
+    chargePointId: string,
+    payload: DataTransferRequest
+  ): Promise<DataTransferResponse> {
+    this.logger.debug(`DataTransfer from ${chargePointId}: ${payload?.vendorId}/${payload?.messageId}`);
+
+    if (!this.ocppServer) {
+      return { status: "Rejected" };
+    }
+
+    return this.ocppServer.getDataTransferRegistry().handle(chargePointId, payload);
+  }
+
+  // Shared with the 2.0.1 handler; everything is accepted when no server is attached
+  public async evaluateBoot(
+    chargePointId: string,
+    boot: { vendor: string; model: string; serialNumber?: string }
+  ): Promise<BootRegistration> {
+    if (!this.ocppServer) {
+      return { status: "Accepted", interval: 300, registrationStatus: RegistrationStatus.ACCEPTED };
+    }
+
+    return this.ocppServer.getProvisioning().evaluateBoot(chargePointId, boot);
+  }
+
+  public async handleSignCertificate(
+    chargePointId: string,
+    payload: SignCertificateRequest
+  ): Promise<SignCertificateResponse> {
+    this.logger.info(`SignCertificate from ${chargePointId}`);
+
+    if (!this.ocppServer) {
+      return { status: "Rejected" };
+    }
+
+    return this.ocppServer.getCertificateService().handleSignCertificate(chargePointId, payload);
+  }
+
+  public async handleSecurityEventNotification(
+    chargePointId: string,
+    payload: SecurityEventNotificationRequest
+  ): Promise<{}> {
+    try {
+      await this.ocppServer?.getCertificateService().handleSecurityEvent(chargePointId, payload);
+    } catch (error) {
+      this.logger.error(`Failed to record security event from ${chargePointId}:`, error);
+    }
+
+    return {};
+  }
+
+  private toIdTagInfo(validation: { status: string; expiryDate?: Date; parentIdTag?: string }): AuthorizeResponse["idTagInfo"] {
+    return {
+      status: idTagStatus(validation.status),
+      ...(validation.expiryDate && { expiryDate: validation.expiryDate.toISOString() }),
+      ...(validation.parentIdTag && { parentIdTag: validation.parentIdTag }),
     };
   }
 
@@ -0,0 +1,167 @@
+// Minimal DER (ASN.1) reader and writer, enough to handle PKCS#10 requests
+// and build X.509 certificates with node's crypto module.
+
+export const DER_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+export interface DerElement {
+  tag: number;
+  // Offsets into the buffer the element was read from
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+export const readElement = (buffer: Buffer, offset = 0): DerElement => {
+  if (offset + 2 > buffer.length) {
+    throw new Error('Truncated DER element');
+  }
+
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let contentStart = offset + 2;
+
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4 || contentStart + lengthBytes > buffer.length) {
+      throw new Error('Unsupported DER length');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + buffer[contentStart + i];
+    }
+    contentStart += lengthBytes;
+  }
+
+  const end = contentStart + length;
+  if (end > buffer.length) {
+    throw new Error('Truncated DER element');
+  }
+
+  return { tag, start: offset, contentStart, end };
+};
+
+export const readChildren = (buffer: Buffer, parent: DerElement): DerElement[] => {
+  const children: DerElement[] = [];
+  let offset = parent.contentStart;
+
+  while (offset < parent.end) {
+    const child = readElement(buffer, offset);
+    children.push(child);
+    offset = child.end;
+  }
+
+  return children;
+};
+
+export const rawElement = (buffer: Buffer, element: DerElement): Buffer => buffer.subarray(element.start, element.end);
+
+export const elementContent = (buffer: Buffer, element: DerElement): Buffer => buffer.subarray(element.contentStart, element.end);
+
+export const decodeOid = (content: Buffer): string => {
+  const parts = [Math.floor(content[0] / 40), content[0] % 40];
+  let value = 0;
+
+  for (let i = 1; i < content.length; i++) {
+    value = value * 128 + (content[i] & 0x7f);
+    if (!(content[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+
+  return parts.join('.');
+};
+
+// ==================== ENCODING ====================
+
+const encodeLength = (length: number): Buffer => {
+  if (length < 0x80) return Buffer.from([length]);
+
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length = Math.floor(length / 256);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+};
+
+export const encode = (tag: number, content: Buffer): Buffer => Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+
+export const sequence = (...items: Buffer[]): Buffer => encode(DER_TAG.SEQUENCE, Buffer.concat(items));
+
+export const set = (...items: Buffer[]): Buffer => encode(DER_TAG.SET, Buffer.concat(items));
+
+// [n] EXPLICIT
+export const contextTag = (n: number, content: Buffer): Buffer => encode(0xa0 | n, content);
+
+export const oid = (value: string): Buffer => {
+  const [first, second, ...rest] = value.split('.').map(Number);
+  const bytes = [first * 40 + second];
+
+  for (const part of rest) {
+    const chunk = [part & 0x7f];
+    let remaining = Math.floor(part / 128);
+    while (remaining > 0) {
+      chunk.unshift((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+    bytes.push(...chunk);
+  }
+
+  return encode(DER_TAG.OID, Buffer.from(bytes));
+};
+
+// Unsigned big-endian integer, padded so it stays positive
+export const integer = (value: Buffer | number): Buffer => {
+  let bytes = typeof value === 'number' ? Buffer.from([value]) : value;
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0 && !(bytes[start + 1] & 0x80)) start++;
+  bytes = bytes.subarray(start);
+  if (bytes[0] & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  return encode(DER_TAG.INTEGER, bytes);
+};
+
+export const boolean = (value: boolean): Buffer => encode(DER_TAG.BOOLEAN, Buffer.from([value ? 0xff : 0]));
+
+export const nullValue = (): Buffer => encode(DER_TAG.NULL, Buffer.alloc(0));
+
+export const octetString = (content: Buffer): Buffer => encode(DER_TAG.OCTET_STRING, content);
+
+export const bitString = (content: Buffer, unusedBits = 0): Buffer => encode(DER_TAG.BIT_STRING, Buffer.concat([Buffer.from([unusedBits]), content]));
+
+export const utf8String = (value: string): Buffer => encode(DER_TAG.UTF8_STRING, Buffer.from(value, 'utf8'));
+
+// RFC 5280: UTCTime until 2049, GeneralizedTime after
+export const time = (date: Date): Buffer => {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  return date.getUTCFullYear() < 2050
+    ? encode(DER_TAG.UTC_TIME, Buffer.from(iso.slice(2), 'ascii'))
+    : encode(DER_TAG.GENERALIZED_TIME, Buffer.from(iso, 'ascii'));
+};
+
+export const toPem = (der: Buffer, label: string): string => {
+  const lines = der.toString('base64').match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+};
+
+export const fromPem = (pem: string, label: string): Buffer => {
+  const match = pem.match(new RegExp(`-----BEGIN ${label}-----([\\s\\S]+?)-----END ${label}-----`));
+  if (!match) {
+    throw new Error(`No ${label} found in PEM`);
+  }
+  return Buffer.from(match[1].replace(/\s+/g, ''), 'base64');
+};
@@ -1,5 +1,5 @@
 // Helper function to convert OCPP status to internal status
-import { ChargePointStatus } from '@/types/ocpp_types';
+import { ChargePointStatus, StopReason } from '@/types/ocpp_types';
 import crypto from "crypto"
 export const convertOCPPStatusToInternal = (ocppStatus: string): ChargePointStatus => {
   const statusMap: Record<string, ChargePointStatus> = {
@@ -51,3 +51,112 @@ export const idTagStatus = (status: string): OCPPIdTagStatus => {
 
   return map[status as IdTagStatusType] ?? "Invalid";
 }
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF/LF line endings
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      if (row.some((value) => value !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  if (row.some((value) => value !== "")) rows.push(row);
+
+  return rows;
+}
+
+// Pulls the first file part out of a multipart/form-data body. Chargers send
+// a single archive, so this avoids pulling in a full multipart parser.
+export const extractMultipartFile = (
+  body: Buffer,
+  contentType: string
+): { fileName?: string; contentType?: string; data: Buffer } | null => {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  if (!match) return null;
+
+  const delimiter = Buffer.from(`--${match[1] || match[2]}`);
+  let start = body.indexOf(delimiter);
+
+  while (start !== -1) {
+    const headerStart = start + delimiter.length + 2; // skip CRLF
+    const headerEnd = body.indexOf("\r\n\r\n", headerStart);
+    if (headerEnd === -1) return null;
+
+    const next = body.indexOf(delimiter, headerEnd);
+    if (next === -1) return null;
+
+    const headers = body.subarray(headerStart, headerEnd).toString("utf8");
+    const fileName = /filename="([^"]*)"/i.exec(headers)?.[1];
+
+    if (fileName !== undefined) {
+      return {
+        fileName: fileName || undefined,
+        contentType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1].trim(),
+        data: body.subarray(headerEnd + 4, next - 2), // drop CRLF before the delimiter
+      };
+    }
+
+    start = next;
+  }
+
+  return null;
+}
+
+// Stop reasons of OCPP 1.6 StopTransaction and 2.0.1 TransactionEvent
+const stopReasonMap: Record<string, StopReason> = {
+  "Local": "LOCAL",
+  "Remote": "REMOTE",
+  "Emergency": "EMERGENCY_STOP",
+  "EmergencyStop": "EMERGENCY_STOP",
+  "EVDisconnected": "EV_DISCONNECTED",
+  "HardReset": "HARD_RESET",
+  "SoftReset": "SOFT_RESET",
+  "Other": "OTHER",
+  "PowerLoss": "POWER_LOSS",
+  "Reboot": "REBOOT",
+  "UnlockCommand": "UNLOCK_COMMAND",
+  "DeAuthorized": "DE_AUTHORIZED",
+  "EnergyLimitReached": "ENERGY_LIMIT_REACHED",
+  "GroundFault": "GROUND_FAULT",
+  "ImmediateReset": "IMMEDIATE_RESET",
+  "LocalOutOfCredit": "LOCAL_OUT_OF_CREDIT",
+  "MasterPass": "MASTER_PASS",
+  "OvercurrentFault": "OVERCURRENT_FAULT",
+  "PowerQuality": "POWER_QUALITY",
+  "SOCLimitReached": "SOC_LIMIT_REACHED",
+  "StoppedByEV": "STOPPED_BY_EV",
+  "TimeLimitReached": "TIME_LIMIT_REACHED",
+  "Timeout": "TIMEOUT",
+};
+
+export const toStopReason = (reason?: string): StopReason => {
+  return (reason && stopReasonMap[reason]) || "OTHER";
+}
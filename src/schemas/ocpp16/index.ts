@@ -0,0 +1,30 @@
+// OCPP 1.6 JSON request schemas of the messages a charge point sends,
+// keyed by action. SignCertificate and SecurityEventNotification come from
+// the 1.6 security whitepaper.
+import Authorize from './Authorize.json';
+import BootNotification from './BootNotification.json';
+import DataTransfer from './DataTransfer.json';
+import DiagnosticsStatusNotification from './DiagnosticsStatusNotification.json';
+import FirmwareStatusNotification from './FirmwareStatusNotification.json';
+import Heartbeat from './Heartbeat.json';
+import MeterValues from './MeterValues.json';
+import SecurityEventNotification from './SecurityEventNotification.json';
+import SignCertificate from './SignCertificate.json';
+import StartTransaction from './StartTransaction.json';
+import StatusNotification from './StatusNotification.json';
+import StopTransaction from './StopTransaction.json';
+
+export const ocpp16RequestSchemas: Record<string, object> = {
+  Authorize,
+  BootNotification,
+  DataTransfer,
+  DiagnosticsStatusNotification,
+  FirmwareStatusNotification,
+  Heartbeat,
+  MeterValues,
+  SecurityEventNotification,
+  SignCertificate,
+  StartTransaction,
+  StatusNotification,
+  StopTransaction,
+};
@@ -1,14 +1,17 @@
 import express from 'express';
-import { createServer } from 'http';
+import { createServer, IncomingMessage } from 'http';
+import { createServer as createHttpsServer, Server as HttpsServer } from 'https';
+import { Duplex } from 'stream';
 import { WebSocketServer } from 'ws';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { Logger } from './Utils/logger';
-import { OCPPServer } from './services/ocpp_server';
+import { OCPPServer, OCPP_PATH_PREFIX, selectOcppProtocol } from './services/ocpp_server';
 import { APIGateway } from './services/api_gateway';
 import { DatabaseService } from './services/database';
 import { RedisService } from './services/redis';
+import { loadTlsOptions } from './services/charge-point-security';
 import { InitialSeed } from './newSeed';
 
 dotenv.config();
@@ -26,14 +29,21 @@ class Application {
 
   constructor() {
     this.app = express();
-    this.server = createServer(this.app);
-    this.wss = new WebSocketServer({ server: this.server });
+    // Upgrades are routed by OCPPServer.handleUpgrade so OCPP stays off the API paths
+    this.wss = new WebSocketServer({ noServer: true, handleProtocols: selectOcppProtocol });
     
     this.db = new DatabaseService();
     this.redis = new RedisService();
     this.apiGateway = new APIGateway(null as any, this.db);
     this.ocppServer = new OCPPServer(this.wss, this.db, this.redis, this.apiGateway);
     this.apiGateway.setOcppServer(this.ocppServer);
+
+    // Security Profiles 2/3: serve the API and OCPP over TLS when certificates are configured
+    const tlsOptions = loadTlsOptions(this.ocppServer.getCertificateAuthority().getCertificatePem());
+    this.server = tlsOptions ? createHttpsServer(tlsOptions, this.app) : createServer(this.app);
+    this.server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.ocppServer.handleUpgrade(request, socket, head);
+    });
   }
 
 
@@ -68,6 +78,7 @@ private setupMiddleware(): void {
         status: 'healthy',
         timestamp: new Date().toISOString(),
         uptime: process.uptime(),
+        instanceId: this.ocppServer.getInstanceId(),
         connectedChargePoints: this.ocppServer.getConnectedChargePoints()
       });
     });
@@ -99,6 +110,12 @@ private setupMiddleware(): void {
       logger.info('WebSocket server closed');
     });
     
+    await this.ocppServer.getClusterRouter().stop();
+    this.ocppServer.getMessageLog().stop();
+    await this.ocppServer.getMessageLog().flush().catch((error) => {
+      logger.error('Failed to flush OCPP message log:', error);
+    });
+
     await this.db.disconnect();
     await this.redis.disconnect();
     
@@ -109,9 +126,10 @@ private setupMiddleware(): void {
     await this.initialize();
     
     this.server.listen(port, () => {
-      logger.info(`OCPP 1.6J Server running on port ${port}`);
-      logger.info(`WebSocket endpoint: ws://localhost:${port}/`);
-      logger.info(`API Gateway: http://localhost:${port}/api/v1`);
+      logger.info(`OCPP 1.6J/2.0.1 Server running on port ${port}`);
+      const secure = this.server instanceof HttpsServer;
+      logger.info(`WebSocket endpoint: ${secure ? 'wss' : 'ws'}://localhost:${port}${OCPP_PATH_PREFIX}/<chargePointId>`);
+      logger.info(`API Gateway: ${secure ? 'https' : 'http'}://localhost:${port}/api/v1`);
     });
   }
 }
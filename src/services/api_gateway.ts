@@ -1,5 +1,5 @@
 // src/services/api-gateway.ts
-import { Router, Request, Response, NextFunction } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import { RateLimiterRedis } from 'rate-limiter-flexible';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
@@ -12,10 +12,11 @@ import { APIResponse, APIUser, ChargingStationData } from '../types/ocpp_types';
 import { TransactionQueryParams } from '../types/TnxQueryType';
 import crypto from 'crypto';
 import { UserStrutcture } from '../types/apiHelperypes';
-import { generateHashedCode } from '../helpers/helper';
+import { extractMultipartFile, generateHashedCode, parseCsv } from '../helpers/helper';
 import { stringify } from 'querystring';
 import { ClientFilter } from '@/types/stream_types';
 import { IdTagStatus } from '@/types/userWithRelations'
+import { QUEUEABLE_ACTIONS, QueueableAction } from './offline-command-service';
 
 
 interface AuthenticatedRequest extends Request {
@@ -31,6 +32,77 @@ interface PendingChargeSession {
 }
 export const pendingChargeSessions = new Map<string, PendingChargeSession>(); // Key: `${chargePointId}:${connectorId}`
 
+// Filters of the OCPP message log endpoints
+const messageLogQuerySchema = Joi.object({
+  action: Joi.string(),
+  direction: Joi.string().valid('INBOUND', 'OUTBOUND'),
+  uniqueId: Joi.string(),
+  from: Joi.date().iso(),
+  to: Joi.date().iso(),
+  errorsOnly: Joi.boolean().default(false),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(1000).default(100),
+});
+
+// The AuthorizationKey only goes out through the rotation endpoint, which keeps its hash in line
+const AUTHORIZATION_KEY_REJECTION = 'AuthorizationKey can only be changed with POST /charge-points/:id/authorization-key';
+const isAuthorizationKey = (key: unknown): boolean => typeof key === 'string' && key.toLowerCase() === 'authorizationkey';
+
+// Filters of the offline command list
+const offlineCommandQuerySchema = Joi.object({
+  chargePointId: Joi.string(),
+  status: Joi.string().pattern(/^(QUEUED|DELIVERING|DELIVERED|FAILED|CANCELLED|EXPIRED)(,(QUEUED|DELIVERING|DELIVERED|FAILED|CANCELLED|EXPIRED))*$/i),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(500).default(50),
+});
+
+// OCPP 1.6 payloads of the commands that can be queued for offline charge points
+const offlineCommandPayloadSchemas: Record<QueueableAction, Joi.ObjectSchema> = {
+  ChangeConfiguration: Joi.object({
+    key: Joi.string().max(50).required(),
+    value: Joi.string().max(500).required(),
+  }),
+  UpdateFirmware: Joi.object({
+    location: Joi.string().uri().required(),
+    retrieveDate: Joi.date().iso().raw().required(),
+    retries: Joi.number().integer().min(0),
+    retryInterval: Joi.number().integer().min(0),
+  }),
+  SendLocalList: Joi.object({
+    listVersion: Joi.number().integer().min(1).required(),
+    updateType: Joi.string().valid('Differential', 'Full').required(),
+    localAuthorizationList: Joi.array().items(Joi.object({
+      idTag: Joi.string().max(20).required(),
+      idTagInfo: Joi.object({
+        status: Joi.string().valid('Accepted', 'Blocked', 'Expired', 'Invalid', 'ConcurrentTx').required(),
+        expiryDate: Joi.date().iso().raw(),
+        parentIdTag: Joi.string().max(20),
+      }),
+    })),
+  }),
+  ChangeAvailability: Joi.object({
+    connectorId: Joi.number().integer().min(0).required(),
+    type: Joi.string().valid('Operative', 'Inoperative').required(),
+  }),
+};
+
+// OCPP 2.0.1 component/variable addressing used by the variables endpoints
+const componentVariableSchema = {
+  component: Joi.object({
+    name: Joi.string().max(50).required(),
+    instance: Joi.string().max(50),
+    evse: Joi.object({
+      id: Joi.number().integer().min(0).required(),
+      connectorId: Joi.number().integer().min(0),
+    }),
+  }).required(),
+  variable: Joi.object({
+    name: Joi.string().max(50).required(),
+    instance: Joi.string().max(50),
+  }).required(),
+  attributeType: Joi.string().valid('Actual', 'Target', 'MinSet', 'MaxSet'),
+};
+
 export class APIGateway {
   private router: Router;
   private logger = Logger.getInstance();
@@ -110,6 +182,8 @@ export class APIGateway {
     this.router.get('/transactions', this.authenticateUser.bind(this), this.getTransactions.bind(this));
     this.router.get('/transactions/latest/', this.authenticateUser.bind(this), this.getLatest5TXN.bind(this));
     this.router.get('/transactions/:id', this.authenticateUser.bind(this), this.getTransaction.bind(this));
+    this.router.get('/transactions/:id/meter-values', this.authenticateUser.bind(this), this.getTransactionMeterValues.bind(this));
+    this.router.get('/transactions/:id/bms', this.authenticateUser.bind(this), this.getTransactionBmsSamples.bind(this));
     this.router.get('/transactions/active', this.authenticateUser.bind(this), this.getActiveTransactions.bind(this));
 
     // Control routes (requires higher permissions)
@@ -117,6 +191,45 @@ export class APIGateway {
     this.router.post('/charge-points/remote-stop/:chargePointId/:transactionId', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.remoteStopTransaction.bind(this));
     this.router.post('/charge-points/:id/reset', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.resetChargePoint.bind(this));
     this.router.post('/charge-points/:id/unlock', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.unlockConnector.bind(this));
+    this.router.post('/charge-points/:id/trigger', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.triggerMessage.bind(this));
+    this.router.post('/charge-points/:id/data-transfer', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.dataTransfer.bind(this));
+    this.router.post('/charge-points/:id/variables/get', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getVariables.bind(this));
+    this.router.post('/charge-points/:id/variables/set', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.setVariables.bind(this));
+    this.router.put('/charge-points/:id/security', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.updateChargePointSecurity.bind(this));
+    this.router.put('/charge-points/:id/payload-validation', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.updatePayloadValidation.bind(this));
+    this.router.post('/charge-points/:id/authorization-key', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.rotateAuthorizationKey.bind(this));
+    this.router.get('/charge-points/:id/certificates', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getChargePointCertificates.bind(this));
+    this.router.post('/charge-points/:id/certificates', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.installCertificate.bind(this));
+    this.router.get('/charge-points/:id/certificates/installed', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getInstalledCertificateIds.bind(this));
+    this.router.post('/charge-points/:id/certificates/delete', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.deleteCertificate.bind(this));
+    this.router.get('/security/ca-certificate', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getCaCertificate.bind(this));
+    this.router.get('/security-events', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getSecurityEvents.bind(this));
+    this.router.get('/charge-points/:id/logs', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getMessageLogs.bind(this));
+    this.router.get('/charge-points/:id/logs/export', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.exportMessageLogs.bind(this));
+    this.router.get('/call-queues', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getCallQueues.bind(this));
+    this.router.get('/charge-points/:id/queue', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getCallQueue.bind(this));
+    this.router.delete('/charge-points/:id/queue/:callId', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.cancelQueuedCall.bind(this));
+
+    // Provisioning routes
+    this.router.get('/provisioning/pending', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getPendingChargePoints.bind(this));
+    this.router.post('/charge-points/:id/approve', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.approveChargePoint.bind(this));
+    this.router.post('/charge-points/:id/reject', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.rejectChargePoint.bind(this));
+    this.router.get('/provisioning/blocked-serials', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getBlockedSerialNumbers.bind(this));
+    this.router.post('/provisioning/blocked-serials', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.blockSerialNumber.bind(this));
+    this.router.delete('/provisioning/blocked-serials/:serialNumber', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.unblockSerialNumber.bind(this));
+    this.router.get('/provisioning/model-defaults', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getModelDefaults.bind(this));
+    this.router.put('/provisioning/model-defaults', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.upsertModelDefault.bind(this));
+    this.router.delete('/provisioning/model-defaults/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.deleteModelDefault.bind(this));
+
+    // Offline command routes
+    this.router.get('/offline-commands', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getOfflineCommands.bind(this));
+    this.router.post('/charge-points/:id/offline-commands', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.sendOrQueueCommand.bind(this));
+    this.router.delete('/offline-commands/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.cancelOfflineCommand.bind(this));
+    this.router.put('/offline-commands/:id/expiry', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.setOfflineCommandExpiry.bind(this));
+
+    this.router.post('/charge-points/clear-cache', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.bulkClearCache.bind(this));
+    this.router.post('/charge-points/:id/clear-cache', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.clearCache.bind(this));
+    this.router.get('/auth-cache-clears', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getAuthCacheClears.bind(this));
     this.router.post('/update-charge-point/:chargePointId', this.authenticateUser.bind(this), this.updateChargeStation.bind(this));
 
     // Configuration routes
@@ -125,6 +238,86 @@ export class APIGateway {
     this.router.get('/stream-metervalues/:chargePointId/:connectorId', this.streamMeterValues.bind(this));
     this.router.get('/get-user-by-idtag/:idTag', this.authenticateUser.bind(this), this.getUserByIdTag.bind(this));
 
+    // Reservation routes
+    this.router.get('/reservations', this.authenticateUser.bind(this), this.getReservations.bind(this));
+    this.router.get('/charge-points/:id/reservations', this.authenticateUser.bind(this), this.getReservations.bind(this));
+    this.router.post('/charge-points/:id/reservations', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.reserveConnector.bind(this));
+    this.router.delete('/charge-points/:id/reservations/:reservationId', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.cancelReservation.bind(this));
+
+    // Smart charging routes
+    this.router.get('/charge-points/:id/charging-profiles', this.authenticateUser.bind(this), this.getChargingProfiles.bind(this));
+    this.router.post('/charge-points/:id/charging-profiles', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.setChargingProfile.bind(this));
+    this.router.post('/charge-points/:id/charging-profiles/clear', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.clearChargingProfiles.bind(this));
+    this.router.delete('/charge-points/:id/charging-profiles/:profileId', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.clearChargingProfiles.bind(this));
+    this.router.get('/charge-points/:id/connectors/:connectorId/composite-schedule', this.authenticateUser.bind(this), this.getCompositeSchedule.bind(this));
+
+    // Site / load management routes
+    this.router.get('/sites', this.authenticateUser.bind(this), this.getSites.bind(this));
+    this.router.post('/sites', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.createSite.bind(this));
+    this.router.get('/sites/:id', this.authenticateUser.bind(this), this.getSite.bind(this));
+    this.router.put('/sites/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.updateSite.bind(this));
+    this.router.delete('/sites/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.deleteSite.bind(this));
+    this.router.post('/sites/:id/charge-points', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.assignChargePointsToSite.bind(this));
+    this.router.delete('/sites/:id/charge-points/:chargePointId', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.removeChargePointFromSite.bind(this));
+    this.router.get('/sites/:id/load', this.authenticateUser.bind(this), this.getSiteLoad.bind(this));
+    this.router.post('/sites/:id/rebalance', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.rebalanceSite.bind(this));
+
+    // IdTag management routes
+    this.router.get('/id-tags', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getIdTags.bind(this));
+    this.router.post('/id-tags', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.issueIdTag.bind(this));
+    this.router.post('/id-tags/import', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }), this.importIdTags.bind(this));
+    this.router.post('/id-tags/parent', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.assignIdTagParent.bind(this));
+    this.router.get('/id-tags/:idTag', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getIdTagDetails.bind(this));
+    this.router.put('/id-tags/:idTag', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.updateIdTag.bind(this));
+    this.router.post('/id-tags/:idTag/block', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.blockIdTag.bind(this));
+    this.router.post('/id-tags/:idTag/unblock', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.unblockIdTag.bind(this));
+    this.router.post('/id-tags/:idTag/expire', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.expireIdTag.bind(this));
+    this.router.delete('/id-tags/:idTag', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.deleteIdTag.bind(this));
+
+    // Local authorization list routes
+    this.router.get('/local-auth-lists', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getLocalAuthLists.bind(this));
+    this.router.post('/local-auth-lists', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.createLocalAuthList.bind(this));
+    this.router.get('/local-auth-lists/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getLocalAuthList.bind(this));
+    this.router.put('/local-auth-lists/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.updateLocalAuthList.bind(this));
+    this.router.delete('/local-auth-lists/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.deleteLocalAuthList.bind(this));
+    this.router.post('/local-auth-lists/:id/entries', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.addLocalAuthListEntries.bind(this));
+    this.router.delete('/local-auth-lists/:id/entries', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.removeLocalAuthListEntries.bind(this));
+    this.router.post('/local-auth-lists/:id/charge-points', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.assignLocalAuthList.bind(this));
+    this.router.post('/local-auth-lists/:id/sync', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.syncLocalAuthList.bind(this));
+    this.router.post('/charge-points/:id/local-list/sync', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.syncChargePointLocalList.bind(this));
+    this.router.get('/charge-points/:id/local-list/version', this.authenticateUser.bind(this), this.getLocalListVersion.bind(this));
+
+    // Firmware routes
+    this.router.get('/firmware', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getFirmwareVersions.bind(this));
+    this.router.post('/firmware', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.createFirmwareVersion.bind(this));
+    this.router.delete('/firmware/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.deleteFirmwareVersion.bind(this));
+    this.router.get('/firmware-rollouts', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getFirmwareRollouts.bind(this));
+    this.router.post('/firmware-rollouts', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.startFirmwareRollout.bind(this));
+    this.router.get('/firmware-rollouts/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getFirmwareRollout.bind(this));
+    this.router.post('/firmware-rollouts/:id/cancel', this.authenticateUser.bind(this), this.requireRole(['ADMIN']), this.cancelFirmwareRollout.bind(this));
+    this.router.get('/charge-points/:id/firmware-updates', this.authenticateUser.bind(this), this.getChargePointFirmwareUpdates.bind(this));
+
+    // Diagnostics routes
+    // Uploads come from the charge point itself; the token in the URL authorises them
+    this.router.post('/diagnostics/upload/:token', express.raw({ type: () => true, limit: process.env.DIAGNOSTICS_MAX_UPLOAD_SIZE || '50mb' }), this.uploadDiagnostics.bind(this));
+    this.router.put('/diagnostics/upload/:token', express.raw({ type: () => true, limit: process.env.DIAGNOSTICS_MAX_UPLOAD_SIZE || '50mb' }), this.uploadDiagnostics.bind(this));
+    // Some charge points append the file name to the location they were given
+    this.router.post('/diagnostics/upload/:token/:fileName', express.raw({ type: () => true, limit: process.env.DIAGNOSTICS_MAX_UPLOAD_SIZE || '50mb' }), this.uploadDiagnostics.bind(this));
+    this.router.put('/diagnostics/upload/:token/:fileName', express.raw({ type: () => true, limit: process.env.DIAGNOSTICS_MAX_UPLOAD_SIZE || '50mb' }), this.uploadDiagnostics.bind(this));
+    this.router.post('/charge-points/:id/diagnostics', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.requestDiagnostics.bind(this));
+    this.router.get('/diagnostics', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getDiagnosticsRequests.bind(this));
+    this.router.get('/diagnostics/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getDiagnosticsRequest.bind(this));
+    this.router.get('/diagnostics/:id/download', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.downloadDiagnostics.bind(this));
+
+    // Availability & maintenance routes
+    this.router.get('/charge-points/:id/availability', this.authenticateUser.bind(this), this.getAvailability.bind(this));
+    this.router.post('/charge-points/:id/block', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.blockConnector.bind(this));
+    this.router.post('/charge-points/:id/unblock', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.unblockConnector.bind(this));
+    this.router.get('/maintenance-windows', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getMaintenanceWindows.bind(this));
+    this.router.post('/maintenance-windows', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.createMaintenanceWindow.bind(this));
+    this.router.get('/maintenance-windows/:id', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.getMaintenanceWindow.bind(this));
+    this.router.post('/maintenance-windows/:id/cancel', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.cancelMaintenanceWindow.bind(this));
+
     // Alarm routes
     this.router.get('/alarms', this.authenticateUser.bind(this), this.getAlarms.bind(this));
     this.router.post('/alarms/:id/resolve', this.authenticateUser.bind(this), this.requireRole(['ADMIN', 'OPERATOR']), this.resolveAlarm.bind(this));
@@ -716,7 +909,7 @@ export class APIGateway {
       }
 
       const chargePoints = await this.db.getAllChargePoints();
-      const connectedIds = this.ocppServer.getConnectedChargePoints();
+      const connectedIds = await this.ocppServer.getClusterConnectedChargePoints();
       const enrichedChargePoints = chargePoints.map(cp => ({
         chargePoint: cp,
         isConnected: connectedIds.includes(cp.id),
@@ -745,7 +938,7 @@ export class APIGateway {
         return;
       }
 
-      const isConnected = this.ocppServer.getConnectedChargePoints().includes(id);
+      const isConnected = await this.ocppServer.isChargePointConnected(id);
       const realTimeData = this.ocppServer.getChargePointData(id);
 
       this.sendSuccessResponse(res, {
@@ -809,7 +1002,7 @@ export class APIGateway {
       }
 
       const { id } = req.params;
-      const isConnected = this.ocppServer.getConnectedChargePoints().includes(id);
+      const isConnected = await this.ocppServer.isChargePointConnected(id);
       const data = this.ocppServer.getChargePointData(id); // This now returns ChargingStationData[]
 
       // Helper function to get overall status from all connectors
@@ -903,6 +1096,9 @@ export class APIGateway {
       if (!action) {
         return this.sendErrorResponse(res, 400, 'Action is required');
       }
+      if (action === 'ChangeConfiguration' && isAuthorizationKey(payload?.key)) {
+        return this.sendErrorResponse(res, 400, AUTHORIZATION_KEY_REJECTION);
+      }
       const result = await this.ocppServer.sendMessage(id, action, payload || {});
       return this.sendSuccessResponse(res, result);
     } catch (error) {
@@ -1213,6 +1409,118 @@ export class APIGateway {
     }
   }
 
+  /**
+   * Charging curve of a transaction: one series per measurand/phase/location,
+   * ordered by time. Optional filters: ?measurand=SoC,Power.Active.Import&from=&to=
+   */
+  private async getTransactionMeterValues(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const transactionId = Number(req.params.id);
+      if (isNaN(transactionId)) {
+        return this.sendErrorResponse(res, 400, 'Transaction ID must be a number');
+      }
+
+      const transaction = await this.db.findTransactionByOcppId(transactionId);
+      if (!transaction) {
+        return this.sendErrorResponse(res, 404, 'Transaction not found');
+      }
+
+      const { measurand, from, to } = req.query;
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return this.sendErrorResponse(res, 400, 'from and to must be valid dates');
+      }
+
+      const meterValues = await this.db.getTransactionMeterValues(transaction.id, {
+        measurands: measurand ? (measurand as string).split(',').map((m) => m.trim()).filter(Boolean) : undefined,
+        from: fromDate,
+        to: toDate,
+      });
+
+      const series = new Map<string, {
+        measurand: string;
+        phase: string | null;
+        location: string | null;
+        unit: string | null;
+        points: { timestamp: Date; value: number | string; context: string | null }[];
+      }>();
+
+      for (const meterValue of meterValues) {
+        for (const sv of meterValue.sampledValues) {
+          const measurandName = sv.measurand ?? 'Energy.Active.Import.Register';
+          const key = `${measurandName}|${sv.phase ?? ''}|${sv.location ?? ''}`;
+          if (!series.has(key)) {
+            series.set(key, {
+              measurand: measurandName,
+              phase: sv.phase,
+              location: sv.location,
+              unit: sv.unit,
+              points: [],
+            });
+          }
+
+          const numeric = Number(sv.value);
+          series.get(key)!.points.push({
+            timestamp: meterValue.timestamp,
+            value: sv.format === 'SignedData' || isNaN(numeric) ? sv.value : numeric,
+            context: sv.context,
+          });
+        }
+      }
+
+      return this.sendSuccessResponse(res, {
+        transactionId: transaction.transactionId,
+        chargePointId: transaction.chargePointId,
+        connectorId: transaction.connectorId,
+        startTimestamp: transaction.startTimestamp,
+        stopTimestamp: transaction.stopTimestamp,
+        sampleCount: meterValues.length,
+        series: Array.from(series.values()),
+      });
+    } catch (error) {
+      this.logger.error('Error fetching transaction meter values:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch meter values');
+    }
+  }
+
+  /**
+   * Vehicle BMS data received over DataTransfer during the transaction
+   */
+  private async getTransactionBmsSamples(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const transactionId = Number(req.params.id);
+      if (isNaN(transactionId)) {
+        return this.sendErrorResponse(res, 400, 'Transaction ID must be a number');
+      }
+
+      const transaction = await this.db.findTransactionByOcppId(transactionId);
+      if (!transaction) {
+        return this.sendErrorResponse(res, 404, 'Transaction not found');
+      }
+
+      const { from, to } = req.query;
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return this.sendErrorResponse(res, 400, 'from and to must be valid dates');
+      }
+
+      const samples = await this.db.getTransactionBmsSamples(transaction.id, { from: fromDate, to: toDate });
+
+      return this.sendSuccessResponse(res, {
+        transactionId: transaction.transactionId,
+        chargePointId: transaction.chargePointId,
+        connectorId: transaction.connectorId,
+        vin: transaction.vin,
+        samples,
+      });
+    } catch (error) {
+      this.logger.error('Error fetching transaction BMS data:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch BMS data');
+    }
+  }
+
   private async getActiveTransactions(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { chargePointId } = req.query;
@@ -1253,7 +1561,19 @@ export class APIGateway {
       }
 
       const { id } = req.params;
-      const { key, value } = req.body;
+      const { key, value, queueIfOffline } = req.body;
+
+      if (isAuthorizationKey(key)) {
+        return this.sendErrorResponse(res, 400, AUTHORIZATION_KEY_REJECTION);
+      }
+
+      // Stored once the charge point accepts it
+      if (queueIfOffline && !(await this.ocppServer.isChargePointConnected(id))) {
+        const command = await this.ocppServer.getOfflineCommands().queue(id, 'ChangeConfiguration', { key, value }, {
+          createdBy: req.user?.id,
+        });
+        return this.sendSuccessResponse(res, { queued: true, command });
+      }
 
       const result = await this.ocppServer.sendMessage(id, 'ChangeConfiguration', {
         key,
@@ -1270,6 +1590,2260 @@ export class APIGateway {
     }
   }
 
+  // Reservation endpoints
+  private async getReservations(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const chargePointId = req.params.id || (req.query.chargePointId as string | undefined);
+      const { connectorId, status } = req.query;
+
+      const reservations = await this.db.getReservations({
+        chargePointId,
+        connectorId: connectorId !== undefined ? parseInt(connectorId as string, 10) : undefined,
+        status: status ? (status as string).toUpperCase().split(',') as any : undefined,
+      });
+
+      return this.sendSuccessResponse(res, reservations);
+    } catch (error) {
+      this.logger.error('Error fetching reservations:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch reservations');
+    }
+  }
+
+  private async reserveConnector(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      connectorId: Joi.number().integer().min(0).required(),
+      idTag: Joi.string().max(20).required(),
+      expiryDate: Joi.date().iso(),
+      durationMinutes: Joi.number().integer().min(1).max(1440),
+    }).xor('expiryDate', 'durationMinutes');
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const { id } = req.params;
+      const expiryDate = value.expiryDate
+        ? new Date(value.expiryDate)
+        : new Date(Date.now() + value.durationMinutes * 60 * 1000);
+
+      const result = await this.ocppServer.getReservationManager().reserveNow({
+        chargePointId: id,
+        connectorId: value.connectorId,
+        idTag: value.idTag,
+        expiryDate,
+        createdBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error reserving connector:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to reserve connector');
+    }
+  }
+
+  private async cancelReservation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const { id, reservationId } = req.params;
+      const parsedId = parseInt(reservationId, 10);
+      if (isNaN(parsedId)) {
+        return this.sendErrorResponse(res, 400, 'Reservation ID must be a number');
+      }
+
+      const reservation = await this.db.getReservation(parsedId);
+      if (!reservation || reservation.chargePointId !== id) {
+        return this.sendErrorResponse(res, 404, 'Reservation not found');
+      }
+
+      const result = await this.ocppServer.getReservationManager().cancelReservation(parsedId, req.user?.id);
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error cancelling reservation:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to cancel reservation');
+    }
+  }
+
+  // Smart charging endpoints
+  private async getChargingProfiles(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const { id } = req.params;
+      const { connectorId, includeCleared } = req.query;
+
+      const profiles = await this.ocppServer.getSmartChargingService().getProfiles(
+        id,
+        connectorId !== undefined ? parseInt(connectorId as string, 10) : undefined,
+        includeCleared === 'true'
+      );
+
+      return this.sendSuccessResponse(res, profiles);
+    } catch (error) {
+      this.logger.error('Error fetching charging profiles:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch charging profiles');
+    }
+  }
+
+  private async setChargingProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      connectorId: Joi.number().integer().min(0).required(),
+      stackLevel: Joi.number().integer().min(0).required(),
+      purpose: Joi.string().valid('ChargePointMaxProfile', 'TxDefaultProfile', 'TxProfile').required(),
+      kind: Joi.string().valid('Absolute', 'Recurring', 'Relative').default('Absolute'),
+      recurrencyKind: Joi.string().valid('Daily', 'Weekly').when('kind', { is: 'Recurring', then: Joi.required() }),
+      validFrom: Joi.date().iso(),
+      validTo: Joi.date().iso(),
+      transactionId: Joi.number().integer(),
+      chargingRateUnit: Joi.string().valid('A', 'W').required(),
+      duration: Joi.number().integer().min(1),
+      startSchedule: Joi.date().iso(),
+      minChargingRate: Joi.number().min(0),
+      chargingSchedulePeriod: Joi.array().items(Joi.object({
+        startPeriod: Joi.number().integer().min(0).required(),
+        limit: Joi.number().min(0).required(),
+        numberPhases: Joi.number().integer().min(1).max(3),
+      })).min(1).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const result = await this.ocppServer.getSmartChargingService().setChargingProfile({
+        ...value,
+        chargePointId: req.params.id,
+        source: 'api',
+        createdBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error setting charging profile:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to set charging profile');
+    }
+  }
+
+  private async clearChargingProfiles(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      connectorId: Joi.number().integer().min(0),
+      purpose: Joi.string().valid('ChargePointMaxProfile', 'TxDefaultProfile', 'TxProfile'),
+      stackLevel: Joi.number().integer().min(0),
+    });
+
+    const { error, value } = schema.validate(req.body || {});
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const { id, profileId } = req.params;
+      const criteria = profileId ? { id: parseInt(profileId, 10) } : value;
+      if (profileId && isNaN(criteria.id)) {
+        return this.sendErrorResponse(res, 400, 'Profile ID must be a number');
+      }
+
+      const result = await this.ocppServer.getSmartChargingService().clearChargingProfile(id, criteria);
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error clearing charging profiles:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to clear charging profiles');
+    }
+  }
+
+  private async getCompositeSchedule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const { id, connectorId } = req.params;
+      const { duration = '86400', chargingRateUnit, cached } = req.query;
+      const parsedConnectorId = parseInt(connectorId, 10);
+
+      if (isNaN(parsedConnectorId)) {
+        return this.sendErrorResponse(res, 400, 'Connector ID must be a number');
+      }
+
+      if (cached === 'true') {
+        const connector = await this.db.getConnector(id, parsedConnectorId);
+        if (!connector) {
+          return this.sendErrorResponse(res, 404, 'Connector not found');
+        }
+        return this.sendSuccessResponse(res, {
+          compositeSchedule: connector.compositeSchedule,
+          updatedAt: connector.compositeScheduleUpdatedAt,
+        });
+      }
+
+      if (chargingRateUnit && chargingRateUnit !== 'A' && chargingRateUnit !== 'W') {
+        return this.sendErrorResponse(res, 400, 'chargingRateUnit must be A or W');
+      }
+
+      const result = await this.ocppServer.getSmartChargingService().getCompositeSchedule(
+        id,
+        parsedConnectorId,
+        parseInt(duration as string, 10),
+        chargingRateUnit as 'A' | 'W' | undefined
+      );
+
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error fetching composite schedule:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to fetch composite schedule');
+    }
+  }
+
+  // Site / load management endpoints
+  private siteSchema(isUpdate: boolean) {
+    const name = Joi.string().min(1).max(100);
+    const maxImportCurrent = Joi.number().positive();
+
+    return Joi.object({
+      name: isUpdate ? name : name.required(),
+      description: Joi.string().allow('', null),
+      address: Joi.string().allow('', null),
+      maxImportCurrent: isUpdate ? maxImportCurrent : maxImportCurrent.required(),
+      maxImportPower: Joi.number().positive().allow(null),
+      reservedCurrent: Joi.number().min(0),
+      phases: Joi.number().integer().valid(1, 3),
+      voltage: Joi.number().positive(),
+      minCurrentPerConnector: Joi.number().min(0),
+      loadBalancingEnabled: Joi.boolean(),
+    });
+  }
+
+  private async getSites(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const sites = await this.db.getSites();
+      return this.sendSuccessResponse(res, sites);
+    } catch (error) {
+      this.logger.error('Error fetching sites:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch sites');
+    }
+  }
+
+  private async getSite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const site = await this.db.getSite(req.params.id);
+      if (!site) {
+        return this.sendErrorResponse(res, 404, 'Site not found');
+      }
+      return this.sendSuccessResponse(res, site);
+    } catch (error) {
+      this.logger.error('Error fetching site:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch site');
+    }
+  }
+
+  private async createSite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { error, value } = this.siteSchema(false).validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const site = await this.db.createSite(value);
+      return this.sendSuccessResponse(res, site);
+    } catch (error: any) {
+      this.logger.error('Error creating site:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to create site');
+    }
+  }
+
+  private async updateSite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { error, value } = this.siteSchema(true).validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { id } = req.params;
+      const existing = await this.db.getSite(id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Site not found');
+      }
+
+      const site = await this.db.updateSite(id, value);
+
+      // Capacity or settings may have changed, recompute the limits
+      this.ocppServer?.getLoadManagementService().scheduleRebalance(id);
+
+      return this.sendSuccessResponse(res, site);
+    } catch (error: any) {
+      this.logger.error('Error updating site:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to update site');
+    }
+  }
+
+  private async deleteSite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const existing = await this.db.getSite(id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Site not found');
+      }
+
+      await this.db.deleteSite(id);
+      return this.sendSuccessResponse(res, { message: 'Site deleted successfully' });
+    } catch (error: any) {
+      this.logger.error('Error deleting site:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to delete site');
+    }
+  }
+
+  private async assignChargePointsToSite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      chargePointIds: Joi.array().items(Joi.string()).min(1).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { id } = req.params;
+      const site = await this.db.getSite(id);
+      if (!site) {
+        return this.sendErrorResponse(res, 404, 'Site not found');
+      }
+
+      const previousSiteIds = new Set<string>();
+      for (const chargePointId of value.chargePointIds) {
+        const previous = await this.db.getChargePointSiteId(chargePointId);
+        if (previous && previous !== id) previousSiteIds.add(previous);
+      }
+
+      const assigned = await this.db.assignChargePointsToSite(id, value.chargePointIds);
+
+      const loadManagement = this.ocppServer?.getLoadManagementService();
+      if (loadManagement) {
+        loadManagement.scheduleRebalance(id);
+        previousSiteIds.forEach((siteId) => loadManagement.scheduleRebalance(siteId));
+      }
+
+      return this.sendSuccessResponse(res, { assigned });
+    } catch (error: any) {
+      this.logger.error('Error assigning charge points to site:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to assign charge points');
+    }
+  }
+
+  private async removeChargePointFromSite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, chargePointId } = req.params;
+      const siteId = await this.db.getChargePointSiteId(chargePointId);
+      if (siteId !== id) {
+        return this.sendErrorResponse(res, 404, 'Charge point is not assigned to this site');
+      }
+
+      await this.db.assignChargePointsToSite(null, [chargePointId]);
+      this.ocppServer?.getLoadManagementService().scheduleRebalance(id);
+
+      return this.sendSuccessResponse(res, { message: 'Charge point removed from site' });
+    } catch (error: any) {
+      this.logger.error('Error removing charge point from site:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to remove charge point');
+    }
+  }
+
+  private async getSiteLoad(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const site = await this.db.getSite(req.params.id);
+      if (!site) {
+        return this.sendErrorResponse(res, 404, 'Site not found');
+      }
+
+      const loadManagement = this.ocppServer.getLoadManagementService();
+      return this.sendSuccessResponse(res, {
+        siteId: site.id,
+        loadBalancingEnabled: site.loadBalancingEnabled,
+        maxImportCurrent: site.maxImportCurrent,
+        availableCurrent: loadManagement.getAvailableCurrent(site),
+        lastAllocation: loadManagement.getSiteLoad(site.id),
+      });
+    } catch (error) {
+      this.logger.error('Error fetching site load:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch site load');
+    }
+  }
+
+  private async rebalanceSite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const site = await this.db.getSite(req.params.id);
+      if (!site) {
+        return this.sendErrorResponse(res, 404, 'Site not found');
+      }
+      if (!site.loadBalancingEnabled) {
+        return this.sendErrorResponse(res, 400, 'Load balancing is disabled for this site');
+      }
+
+      const allocations = await this.ocppServer.getLoadManagementService().rebalance(site.id);
+      return this.sendSuccessResponse(res, allocations);
+    } catch (error: any) {
+      this.logger.error('Error rebalancing site:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to rebalance site');
+    }
+  }
+
+  // IdTag management endpoints
+  private async getIdTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page = '1', limit = '50', status, parentIdTag, search, includeDeleted } = req.query;
+
+      const pageNumber = Math.max(1, parseInt(page as string) || 1);
+      const limitNumber = Math.max(1, Math.min(500, parseInt(limit as string) || 50));
+
+      if (status && !['ACCEPTED', 'BLOCKED', 'EXPIRED', 'INVALID', 'CONCURRENT_TX'].includes(status as string)) {
+        return this.sendErrorResponse(res, 400, 'Invalid status filter');
+      }
+
+      const { idTags, total } = await this.db.getIdTags({
+        status: status as IdTagStatus | undefined,
+        parentIdTag: parentIdTag as string | undefined,
+        search: search as string | undefined,
+        includeDeleted: includeDeleted === 'true',
+        skip: (pageNumber - 1) * limitNumber,
+        take: limitNumber,
+      });
+
+      return this.sendSuccessResponse(res, {
+        idTags,
+        pagination: {
+          total,
+          page: pageNumber,
+          limit: limitNumber,
+          totalPages: Math.ceil(total / limitNumber)
+        }
+      });
+    } catch (error) {
+      this.logger.error('Error fetching idTags:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch idTags');
+    }
+  }
+
+  private async getIdTagDetails(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const tag = await this.db.getIdTag(req.params.idTag);
+      if (!tag) {
+        return this.sendErrorResponse(res, 404, 'IdTag not found');
+      }
+
+      return this.sendSuccessResponse(res, tag);
+    } catch (error) {
+      this.logger.error('Error fetching idTag:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch idTag');
+    }
+  }
+
+  private async issueIdTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      idTag: Joi.string().trim().min(1).max(20),
+      parentIdTag: Joi.string().trim().max(20).allow(null),
+      expiryDate: Joi.date().iso().allow(null),
+      status: Joi.string().valid('ACCEPTED', 'BLOCKED').default('ACCEPTED'),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const idTag = value.idTag || generateHashedCode(crypto.randomUUID());
+
+      const existing = await this.db.getIdTag(idTag);
+      if (existing) {
+        return this.sendErrorResponse(res, 409, `IdTag ${idTag} already exists`);
+      }
+
+      const tag = await this.db.createIdTag({
+        idTag,
+        parentIdTag: value.parentIdTag ?? undefined,
+        status: value.status,
+        expiryDate: value.expiryDate ? new Date(value.expiryDate) : undefined,
+      });
+
+      this.logger.info(`🏷️ IdTag ${idTag} issued by ${req.user?.username}`);
+      return this.sendSuccessResponse(res, tag);
+    } catch (error: any) {
+      this.logger.error('Error issuing idTag:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to issue idTag');
+    }
+  }
+
+  private async updateIdTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      parentIdTag: Joi.string().trim().max(20).allow(null),
+      expiryDate: Joi.date().iso().allow(null),
+    }).min(1);
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { idTag } = req.params;
+      const existing = await this.db.getIdTag(idTag);
+      if (!existing || !existing.isActive) {
+        return this.sendErrorResponse(res, 404, 'IdTag not found');
+      }
+
+      const tag = await this.db.updateIdTag(idTag, {
+        ...(value.parentIdTag !== undefined && { parentIdTag: value.parentIdTag }),
+        ...(value.expiryDate !== undefined && { expiryDate: value.expiryDate ? new Date(value.expiryDate) : null }),
+      });
+      this.pushIdTagChange(idTag);
+
+      return this.sendSuccessResponse(res, tag);
+    } catch (error: any) {
+      this.logger.error('Error updating idTag:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to update idTag');
+    }
+  }
+
+  private async blockIdTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.changeIdTagStatus(req, res, 'BLOCKED');
+  }
+
+  private async unblockIdTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.changeIdTagStatus(req, res, 'ACCEPTED');
+  }
+
+  private async expireIdTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.changeIdTagStatus(req, res, 'EXPIRED');
+  }
+
+  private async changeIdTagStatus(
+    req: AuthenticatedRequest,
+    res: Response,
+    status: 'ACCEPTED' | 'BLOCKED' | 'EXPIRED'
+  ): Promise<void> {
+    try {
+      const { idTag } = req.params;
+      const existing = await this.db.getIdTag(idTag);
+      if (!existing || !existing.isActive) {
+        return this.sendErrorResponse(res, 404, 'IdTag not found');
+      }
+
+      if (status === 'ACCEPTED' && existing.status !== 'BLOCKED') {
+        return this.sendErrorResponse(res, 400, `IdTag ${idTag} is ${existing.status}, only blocked tags can be unblocked`);
+      }
+
+      const now = new Date();
+      const tag = await this.db.updateIdTag(idTag, {
+        status,
+        // Expiring pulls the expiry date forward so it is also reported to charge points
+        ...(status === 'EXPIRED' && (!existing.expiryDate || existing.expiryDate > now) && { expiryDate: now }),
+      });
+
+      this.logger.info(`🏷️ IdTag ${idTag} set to ${status} by ${req.user?.username}`);
+      this.pushIdTagChange(idTag);
+      if (status === 'BLOCKED') {
+        this.clearCachesForRevokedIdTag(idTag, req.user?.id);
+      }
+      return this.sendSuccessResponse(res, tag);
+    } catch (error: any) {
+      this.logger.error('Error changing idTag status:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to update idTag status');
+    }
+  }
+
+  private async deleteIdTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      reason: Joi.string().max(500),
+    });
+
+    const { error, value } = schema.validate(req.body || {});
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { idTag } = req.params;
+      const existing = await this.db.getIdTag(idTag);
+      if (!existing || !existing.isActive) {
+        return this.sendErrorResponse(res, 404, 'IdTag not found');
+      }
+
+      const tag = await this.db.softDeleteIdTag(idTag, req.user?.id, value.reason);
+      this.logger.info(`🏷️ IdTag ${idTag} deleted by ${req.user?.username}`);
+      this.pushIdTagChange(idTag);
+      this.clearCachesForRevokedIdTag(idTag, req.user?.id);
+      return this.sendSuccessResponse(res, tag);
+    } catch (error: any) {
+      this.logger.error('Error deleting idTag:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to delete idTag');
+    }
+  }
+
+  private async assignIdTagParent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      parentIdTag: Joi.string().trim().max(20).allow(null).required(),
+      idTags: Joi.array().items(Joi.string().trim().max(20)).min(1).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const updated = await this.db.assignIdTagParent(value.idTags, value.parentIdTag);
+      value.idTags.forEach((idTag: string) => this.pushIdTagChange(idTag));
+      return this.sendSuccessResponse(res, { updated, parentIdTag: value.parentIdTag });
+    } catch (error: any) {
+      this.logger.error('Error assigning parent idTag:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to assign parent idTag');
+    }
+  }
+
+  /**
+   * Bulk import of RFID cards. Accepts a text/csv body or JSON { csv }.
+   * Columns: idTag, parentIdTag, expiryDate, status (header row optional).
+   * Tags that already exist are skipped, invalid rows are reported by line.
+   */
+  private async importIdTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const csv = typeof req.body === 'string' ? req.body : req.body?.csv;
+      if (!csv || typeof csv !== 'string') {
+        return this.sendErrorResponse(res, 400, 'CSV content is required (text/csv body or { csv })');
+      }
+
+      const rows = parseCsv(csv);
+      const columns = ['idTag', 'parentIdTag', 'expiryDate', 'status'];
+      let header = columns;
+      let firstLine = 1;
+      if (rows.length && rows[0][0]?.toLowerCase() === 'idtag') {
+        header = rows.shift()!.map((name) => columns.find((c) => c.toLowerCase() === name.toLowerCase()) || name);
+        firstLine = 2;
+      }
+
+      if (rows.length === 0) {
+        return this.sendErrorResponse(res, 400, 'CSV contains no rows');
+      }
+      if (rows.length > 10000) {
+        return this.sendErrorResponse(res, 400, 'CSV import is limited to 10000 rows');
+      }
+
+      const validStatuses = ['ACCEPTED', 'BLOCKED', 'EXPIRED', 'INVALID'];
+      const seen = new Set<string>();
+      const errors: { line: number; idTag?: string; message: string }[] = [];
+      const candidates: { idTag: string; parentIdTag?: string; expiryDate?: Date; status: IdTagStatus }[] = [];
+
+      rows.forEach((row, index) => {
+        const line = index + firstLine;
+        const record: Record<string, string> = {};
+        header.forEach((name, column) => { record[name] = row[column] ?? ''; });
+
+        const idTag = record.idTag;
+        if (!idTag || idTag.length > 20) {
+          errors.push({ line, idTag, message: 'idTag is required and must be at most 20 characters' });
+          return;
+        }
+        if (seen.has(idTag)) {
+          errors.push({ line, idTag, message: 'Duplicate idTag in file' });
+          return;
+        }
+
+        const status = (record.status || 'ACCEPTED').toUpperCase();
+        if (!validStatuses.includes(status)) {
+          errors.push({ line, idTag, message: `Invalid status ${record.status}` });
+          return;
+        }
+
+        let expiryDate: Date | undefined;
+        if (record.expiryDate) {
+          expiryDate = new Date(record.expiryDate);
+          if (isNaN(expiryDate.getTime())) {
+            errors.push({ line, idTag, message: `Invalid expiryDate ${record.expiryDate}` });
+            return;
+          }
+        }
+
+        if (record.parentIdTag && record.parentIdTag.length > 20) {
+          errors.push({ line, idTag, message: 'parentIdTag must be at most 20 characters' });
+          return;
+        }
+
+        seen.add(idTag);
+        candidates.push({
+          idTag,
+          parentIdTag: record.parentIdTag || undefined,
+          expiryDate,
+          status: status as IdTagStatus,
+        });
+      });
+
+      const existing = new Set(await this.db.findExistingIdTags(candidates.map((c) => c.idTag)));
+      const toCreate = candidates.filter((c) => !existing.has(c.idTag));
+      const created = toCreate.length ? await this.db.importIdTags(toCreate) : 0;
+
+      this.logger.info(`🏷️ IdTag import by ${req.user?.username}: ${created} created, ${existing.size} skipped, ${errors.length} invalid`);
+      return this.sendSuccessResponse(res, {
+        created,
+        skipped: Array.from(existing),
+        errors,
+      });
+    } catch (error: any) {
+      this.logger.error('Error importing idTags:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to import idTags');
+    }
+  }
+
+  // Local authorization list endpoints
+  private async getLocalAuthLists(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const lists = await this.db.getLocalAuthLists();
+      return this.sendSuccessResponse(res, lists);
+    } catch (error) {
+      this.logger.error('Error fetching local auth lists:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch local auth lists');
+    }
+  }
+
+  private async getLocalAuthList(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const list = await this.db.getLocalAuthList(req.params.id);
+      if (!list) {
+        return this.sendErrorResponse(res, 404, 'Local auth list not found');
+      }
+
+      const tags = await this.db.getLocalAuthListTags(list.id);
+      return this.sendSuccessResponse(res, {
+        ...list,
+        resolvedIdTags: tags.filter((tag) => tag.isActive).map((tag) => tag.idTag),
+      });
+    } catch (error) {
+      this.logger.error('Error fetching local auth list:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch local auth list');
+    }
+  }
+
+  private async createLocalAuthList(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      name: Joi.string().min(1).max(100).required(),
+      description: Joi.string().allow('', null),
+      fleetId: Joi.string().allow(null),
+      idTags: Joi.array().items(Joi.string().max(20)).default([]),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const list = await this.db.createLocalAuthList({
+        name: value.name,
+        description: value.description,
+        fleetId: value.fleetId,
+      });
+
+      if (value.idTags.length) {
+        await this.db.addLocalAuthListEntries(list.id, value.idTags);
+      }
+
+      return this.sendSuccessResponse(res, list);
+    } catch (error: any) {
+      this.logger.error('Error creating local auth list:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to create local auth list');
+    }
+  }
+
+  private async updateLocalAuthList(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      name: Joi.string().min(1).max(100),
+      description: Joi.string().allow('', null),
+      fleetId: Joi.string().allow(null),
+    }).min(1);
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { id } = req.params;
+      const existing = await this.db.getLocalAuthList(id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Local auth list not found');
+      }
+
+      const list = await this.db.updateLocalAuthList(id, value);
+      if (value.fleetId !== undefined) {
+        this.pushLocalListChanges(id);
+      }
+
+      return this.sendSuccessResponse(res, list);
+    } catch (error: any) {
+      this.logger.error('Error updating local auth list:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to update local auth list');
+    }
+  }
+
+  private async deleteLocalAuthList(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const existing = await this.db.getLocalAuthList(id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Local auth list not found');
+      }
+
+      const chargePointIds = await this.db.getChargePointIdsForLocalAuthList(id);
+      await this.db.deleteLocalAuthList(id);
+
+      // Charge points left without a list get an empty one; offline ones
+      // catch up when they next boot
+      const connected = new Set(await this.ocppServer?.getClusterConnectedChargePoints() ?? []);
+      for (const chargePointId of chargePointIds.filter((cp) => connected.has(cp))) {
+        this.ocppServer?.getLocalListService().syncChargePoint(chargePointId, { forceFull: true }).catch((error) => {
+          this.logger.warn(`⚠️ Could not clear local list on ${chargePointId}: ${error.message}`);
+        });
+      }
+
+      return this.sendSuccessResponse(res, { message: 'Local auth list deleted successfully' });
+    } catch (error: any) {
+      this.logger.error('Error deleting local auth list:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to delete local auth list');
+    }
+  }
+
+  private async addLocalAuthListEntries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.changeLocalAuthListEntries(req, res, 'add');
+  }
+
+  private async removeLocalAuthListEntries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.changeLocalAuthListEntries(req, res, 'remove');
+  }
+
+  private async changeLocalAuthListEntries(
+    req: AuthenticatedRequest,
+    res: Response,
+    operation: 'add' | 'remove'
+  ): Promise<void> {
+    const schema = Joi.object({
+      idTags: Joi.array().items(Joi.string().max(20)).min(1).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { id } = req.params;
+      const existing = await this.db.getLocalAuthList(id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Local auth list not found');
+      }
+
+      const count = operation === 'add'
+        ? await this.db.addLocalAuthListEntries(id, value.idTags)
+        : await this.db.removeLocalAuthListEntries(id, value.idTags);
+
+      if (count > 0) {
+        this.pushLocalListChanges(id);
+      }
+
+      return this.sendSuccessResponse(res, { [operation === 'add' ? 'added' : 'removed']: count });
+    } catch (error: any) {
+      this.logger.error('Error changing local auth list entries:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to change local auth list entries');
+    }
+  }
+
+  private async assignLocalAuthList(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      chargePointIds: Joi.array().items(Joi.string()).min(1).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { id } = req.params;
+      const existing = await this.db.getLocalAuthList(id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Local auth list not found');
+      }
+
+      const assigned = await this.db.assignLocalAuthList(id, value.chargePointIds);
+
+      // A new list replaces whatever the charge point held before
+      const connected = new Set(await this.ocppServer?.getClusterConnectedChargePoints() ?? []);
+      for (const chargePointId of value.chargePointIds.filter((cp: string) => connected.has(cp))) {
+        this.ocppServer!.getLocalListService().syncChargePoint(chargePointId, { forceFull: true }).catch((error) => {
+          this.logger.warn(`⚠️ Could not send local list to ${chargePointId}: ${error.message}`);
+        });
+      }
+
+      return this.sendSuccessResponse(res, { assigned });
+    } catch (error: any) {
+      this.logger.error('Error assigning local auth list:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to assign local auth list');
+    }
+  }
+
+  private async syncLocalAuthList(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const { id } = req.params;
+      const existing = await this.db.getLocalAuthList(id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Local auth list not found');
+      }
+
+      const results = await this.ocppServer.getLocalListService().syncList(id, { forceFull: req.body?.full === true });
+      return this.sendSuccessResponse(res, results);
+    } catch (error: any) {
+      this.logger.error('Error syncing local auth list:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to sync local auth list');
+    }
+  }
+
+  private async syncChargePointLocalList(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const result = await this.ocppServer.getLocalListService().syncChargePoint(req.params.id, {
+        forceFull: req.body?.full === true,
+      });
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error syncing local list:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to sync local list');
+    }
+  }
+
+  private async getLocalListVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const result = await this.ocppServer.getLocalListService().getLocalListVersion(req.params.id);
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error fetching local list version:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to fetch local list version');
+    }
+  }
+
+  private pushLocalListChanges(listId: string): void {
+    this.ocppServer?.getLocalListService().syncList(listId).catch((error) => {
+      this.logger.error(`Failed to push local auth list ${listId}:`, error);
+    });
+  }
+
+  private pushIdTagChange(idTag: string): void {
+    this.ocppServer?.getLocalListService().onIdTagChanged(idTag).catch((error) => {
+      this.logger.error(`Failed to push idTag ${idTag} to local lists:`, error);
+    });
+  }
+
+  // Authorization cache endpoints
+  private async clearCache(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const { id } = req.params;
+      const chargePoint = await this.db.getChargePoint(id);
+      if (!chargePoint) {
+        return this.sendErrorResponse(res, 404, 'Charge point not found');
+      }
+
+      const result = await this.ocppServer.getAuthCacheService().clearCache(id, {
+        trigger: 'api',
+        requestedBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error clearing authorization cache:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to clear authorization cache');
+    }
+  }
+
+  private async bulkClearCache(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      chargePointIds: Joi.array().items(Joi.string()).min(1),
+      all: Joi.boolean().valid(true),
+    }).xor('chargePointIds', 'all');
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const chargePointIds: string[] = value.all
+        ? await this.ocppServer.getClusterConnectedChargePoints()
+        : value.chargePointIds;
+
+      const results = await this.ocppServer.getAuthCacheService().clearCaches(chargePointIds, {
+        trigger: 'bulk',
+        requestedBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, {
+        total: results.length,
+        accepted: results.filter((r) => r.status === 'Accepted').length,
+        results,
+      });
+    } catch (error: any) {
+      this.logger.error('Error clearing authorization caches:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to clear authorization caches');
+    }
+  }
+
+  private async getAuthCacheClears(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { chargePointId, idTag, limit = '100' } = req.query;
+      const records = await this.db.getAuthCacheClears({
+        chargePointId: chargePointId as string | undefined,
+        idTag: idTag as string | undefined,
+        take: Math.max(1, Math.min(500, parseInt(limit as string) || 100)),
+      });
+
+      return this.sendSuccessResponse(res, records);
+    } catch (error) {
+      this.logger.error('Error fetching cache clear history:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch cache clear history');
+    }
+  }
+
+  private clearCachesForRevokedIdTag(idTag: string, requestedBy?: string): void {
+    this.ocppServer?.getAuthCacheService().onIdTagBlocked(idTag, requestedBy).catch((error) => {
+      this.logger.error(`Failed to clear caches for idTag ${idTag}:`, error);
+    });
+  }
+
+  // Firmware endpoints
+  private async getFirmwareVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { vendor, model } = req.query;
+      const versions = await this.db.getFirmwareVersions({
+        vendor: vendor as string | undefined,
+        model: model as string | undefined,
+      });
+
+      return this.sendSuccessResponse(res, versions);
+    } catch (error) {
+      this.logger.error('Error fetching firmware versions:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch firmware versions');
+    }
+  }
+
+  private async createFirmwareVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      vendor: Joi.string().max(20).required(),
+      model: Joi.string().max(20).required(),
+      version: Joi.string().max(50).required(),
+      location: Joi.string().uri({ scheme: ['http', 'https', 'ftp', 'ftps'] }).required(),
+      checksum: Joi.string().max(128),
+      fileSize: Joi.number().integer().min(0),
+      releaseNotes: Joi.string().allow(''),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const existing = await this.db.getFirmwareVersions({ vendor: value.vendor, model: value.model });
+      if (existing.some((fw) => fw.version === value.version)) {
+        return this.sendErrorResponse(res, 409, `Firmware ${value.version} for ${value.vendor} ${value.model} already exists`);
+      }
+
+      const firmware = await this.db.createFirmwareVersion({
+        ...value,
+        createdBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, firmware);
+    } catch (error: any) {
+      this.logger.error('Error creating firmware version:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to create firmware version');
+    }
+  }
+
+  private async deleteFirmwareVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const firmware = await this.db.getFirmwareVersion(id);
+      if (!firmware) {
+        return this.sendErrorResponse(res, 404, 'Firmware version not found');
+      }
+
+      if (await this.db.countFirmwareRollouts(id) > 0) {
+        return this.sendErrorResponse(res, 409, 'Firmware version has been rolled out and cannot be deleted');
+      }
+
+      await this.db.deleteFirmwareVersion(id);
+      return this.sendSuccessResponse(res, { message: 'Firmware version deleted successfully' });
+    } catch (error: any) {
+      this.logger.error('Error deleting firmware version:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to delete firmware version');
+    }
+  }
+
+  private async getFirmwareRollouts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const rollouts = await this.db.getFirmwareRollouts();
+      return this.sendSuccessResponse(res, rollouts);
+    } catch (error) {
+      this.logger.error('Error fetching firmware rollouts:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch firmware rollouts');
+    }
+  }
+
+  private async getFirmwareRollout(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const rollout = await this.db.getFirmwareRollout(req.params.id);
+      if (!rollout) {
+        return this.sendErrorResponse(res, 404, 'Firmware rollout not found');
+      }
+
+      const summary: Record<string, number> = {};
+      rollout.updates.forEach((update: { status: string }) => {
+        summary[update.status] = (summary[update.status] || 0) + 1;
+      });
+
+      return this.sendSuccessResponse(res, { ...rollout, summary });
+    } catch (error) {
+      this.logger.error('Error fetching firmware rollout:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch firmware rollout');
+    }
+  }
+
+  private async startFirmwareRollout(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      firmwareVersionId: Joi.string().required(),
+      chargePointIds: Joi.array().items(Joi.string()).min(1).required(),
+      name: Joi.string().max(100),
+      retrieveDate: Joi.date().iso(),
+      retries: Joi.number().integer().min(0),
+      retryInterval: Joi.number().integer().min(0),
+      maxAttempts: Joi.number().integer().min(1).max(10),
+      force: Joi.boolean().default(false),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const rollout = await this.ocppServer.getFirmwareService().startRollout({
+        ...value,
+        retrieveDate: value.retrieveDate ? new Date(value.retrieveDate) : undefined,
+        createdBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, rollout);
+    } catch (error: any) {
+      this.logger.error('Error starting firmware rollout:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to start firmware rollout');
+    }
+  }
+
+  private async cancelFirmwareRollout(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const result = await this.ocppServer.getFirmwareService().cancelRollout(req.params.id);
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error cancelling firmware rollout:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to cancel firmware rollout');
+    }
+  }
+
+  private async getChargePointFirmwareUpdates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const updates = await this.ocppServer.getFirmwareService().getChargePointUpdates(req.params.id);
+      return this.sendSuccessResponse(res, updates);
+    } catch (error) {
+      this.logger.error('Error fetching firmware updates:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch firmware updates');
+    }
+  }
+
+  // Diagnostics endpoints
+  private async requestDiagnostics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      startTime: Joi.date().iso(),
+      stopTime: Joi.date().iso(),
+      retries: Joi.number().integer().min(0),
+      retryInterval: Joi.number().integer().min(0),
+    });
+
+    const { error, value } = schema.validate(req.body || {});
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const request = await this.ocppServer.getDiagnosticsService().requestDiagnostics(req.params.id, {
+        baseUrl: `${req.protocol}://${req.get('host')}`,
+        startTime: value.startTime ? new Date(value.startTime) : undefined,
+        stopTime: value.stopTime ? new Date(value.stopTime) : undefined,
+        retries: value.retries,
+        retryInterval: value.retryInterval,
+        requestedBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, request);
+    } catch (error: any) {
+      this.logger.error('Error requesting diagnostics:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to request diagnostics');
+    }
+  }
+
+  private async getDiagnosticsRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { chargePointId, status, limit } = req.query;
+      const requests = await this.db.getDiagnosticsRequests({
+        chargePointId: chargePointId as string | undefined,
+        status: status as any,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+
+      return this.sendSuccessResponse(res, requests);
+    } catch (error) {
+      this.logger.error('Error fetching diagnostics requests:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch diagnostics requests');
+    }
+  }
+
+  private async getDiagnosticsRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request = await this.db.getDiagnosticsRequest(req.params.id);
+      if (!request) {
+        return this.sendErrorResponse(res, 404, 'Diagnostics request not found');
+      }
+
+      return this.sendSuccessResponse(res, request);
+    } catch (error) {
+      this.logger.error('Error fetching diagnostics request:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch diagnostics request');
+    }
+  }
+
+  private async downloadDiagnostics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request = await this.db.getDiagnosticsRequest(req.params.id);
+      if (!request) {
+        return this.sendErrorResponse(res, 404, 'Diagnostics request not found');
+      }
+      if (!request.storedPath) {
+        return this.sendErrorResponse(res, 404, 'Diagnostics archive has not been uploaded yet');
+      }
+
+      res.download(request.storedPath, request.fileName || `${request.id}.bin`, (error) => {
+        if (error && !res.headersSent) {
+          this.logger.error('Error sending diagnostics archive:', error);
+          this.sendErrorResponse(res, 500, 'Failed to download diagnostics archive');
+        }
+      });
+    } catch (error) {
+      this.logger.error('Error downloading diagnostics archive:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to download diagnostics archive');
+    }
+  }
+
+  private async uploadDiagnostics(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const request = await this.db.getDiagnosticsRequestByToken(req.params.token);
+      if (!request) {
+        return this.sendErrorResponse(res, 404, 'Unknown upload location');
+      }
+      if (request.receivedAt) {
+        return this.sendErrorResponse(res, 409, 'Diagnostics already uploaded');
+      }
+      if (request.expiresAt <= new Date()) {
+        return this.sendErrorResponse(res, 410, 'Upload location expired');
+      }
+
+      const body: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const contentType = req.get('content-type') || '';
+
+      const upload = contentType.startsWith('multipart/form-data')
+        ? extractMultipartFile(body, contentType)
+        : {
+          fileName: /filename="?([^";]+)"?/i.exec(req.get('content-disposition') || '')?.[1],
+          contentType: contentType || undefined,
+          data: body,
+        };
+
+      if (!upload || upload.data.length === 0) {
+        return this.sendErrorResponse(res, 400, 'No file in upload');
+      }
+      if (req.params.fileName) {
+        upload.fileName = req.params.fileName;
+      }
+
+      const stored = await this.ocppServer.getDiagnosticsService().receiveUpload(req.params.token, upload);
+      return this.sendSuccessResponse(res, { id: stored.id, fileSize: stored.fileSize, checksum: stored.checksum });
+    } catch (error: any) {
+      this.logger.error('Error receiving diagnostics upload:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to store diagnostics upload');
+    }
+  }
+
+  /**
+   * Trigger a message on the charge point and return what it sent in reply
+   */
+  private async triggerMessage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      requestedMessage: Joi.string().valid(
+        'StatusNotification',
+        'MeterValues',
+        'Heartbeat',
+        'BootNotification',
+        'DiagnosticsStatusNotification',
+        'FirmwareStatusNotification'
+      ).required(),
+      connectorId: Joi.number().integer().min(0),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const result = await this.ocppServer.triggerMessage(req.params.id, value.requestedMessage, value.connectorId);
+
+      if (result.status === 'Accepted' && result.messages.length === 0) {
+        return this.sendErrorResponse(res, 504, `Charge point accepted the trigger but sent no ${value.requestedMessage}`);
+      }
+
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error triggering message:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to trigger message');
+    }
+  }
+
+  private async dataTransfer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      vendorId: Joi.string().max(255).required(),
+      messageId: Joi.string().max(50),
+      data: Joi.alternatives().try(Joi.string(), Joi.object()),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const response = await this.ocppServer.dataTransfer(
+        req.params.id,
+        value.vendorId,
+        value.messageId,
+        typeof value.data === 'object' ? JSON.stringify(value.data) : value.data
+      );
+
+      return this.sendSuccessResponse(res, response);
+    } catch (error: any) {
+      this.logger.error('Error sending DataTransfer:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to send DataTransfer');
+    }
+  }
+
+  // OCPP 2.0.1 device model endpoints
+  private async getVariables(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      getVariableData: Joi.array().items(Joi.object(componentVariableSchema)).min(1).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const results = await this.ocppServer.getVariables(req.params.id, value.getVariableData);
+      return this.sendSuccessResponse(res, results);
+    } catch (error: any) {
+      this.logger.error('Error getting variables:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to get variables');
+    }
+  }
+
+  private async setVariables(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      setVariableData: Joi.array().items(Joi.object({
+        ...componentVariableSchema,
+        attributeValue: Joi.string().max(1000).required(),
+      })).min(1).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const results = await this.ocppServer.setVariables(req.params.id, value.setVariableData);
+      return this.sendSuccessResponse(res, results);
+    } catch (error: any) {
+      this.logger.error('Error setting variables:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to set variables');
+    }
+  }
+
+  // Charge point security endpoints
+  private async updateChargePointSecurity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      securityProfile: Joi.number().integer().valid(0, 1, 2, 3),
+      authorizationKey: Joi.string().min(16).max(40),
+    }).or('securityProfile', 'authorizationKey');
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const settings = await this.ocppServer.getSecurity().updateSettings(req.params.id, {
+        securityProfile: value.securityProfile,
+        authorizationKey: value.authorizationKey,
+        requestedBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, settings);
+    } catch (error: any) {
+      this.logger.error('Error updating charge point security:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to update charge point security');
+    }
+  }
+
+  private async rotateAuthorizationKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      authorizationKey: Joi.string().min(16).max(40),
+    });
+
+    const { error, value } = schema.validate(req.body ?? {});
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const result = await this.ocppServer.getSecurity().rotateAuthorizationKey(req.params.id, {
+        authorizationKey: value.authorizationKey,
+        requestedBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error rotating AuthorizationKey:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to rotate AuthorizationKey');
+    }
+  }
+
+  private async updatePayloadValidation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      // null returns the charge point to OCPP_PAYLOAD_VALIDATION
+      mode: Joi.string().valid('STRICT', 'LENIENT', 'OFF').allow(null).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const chargePoint = await this.db.getChargePoint(req.params.id);
+      if (!chargePoint) {
+        return this.sendErrorResponse(res, 404, 'Charge point not found');
+      }
+
+      const effectiveMode = await this.ocppServer.getPayloadValidator().setMode(req.params.id, value.mode);
+      return this.sendSuccessResponse(res, {
+        chargePointId: req.params.id,
+        mode: value.mode,
+        effectiveMode,
+      });
+    } catch (error: any) {
+      this.logger.error('Error updating payload validation:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to update payload validation');
+    }
+  }
+
+  // Certificate management endpoints
+  private async getChargePointCertificates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { certificateType, status } = req.query;
+      const certificates = await this.db.getChargePointCertificates(req.params.id, {
+        certificateType: certificateType as string | undefined,
+        status: status as any,
+      });
+
+      return this.sendSuccessResponse(res, certificates);
+    } catch (error) {
+      this.logger.error('Error fetching certificates:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch certificates');
+    }
+  }
+
+  private async installCertificate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      certificateType: Joi.string().valid('CentralSystemRootCertificate', 'ManufacturerRootCertificate').required(),
+      certificate: Joi.string().max(5500).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const certificate = await this.ocppServer.getCertificateService().installCertificate(
+        req.params.id,
+        value.certificateType,
+        value.certificate,
+        req.user?.id
+      );
+
+      return this.sendSuccessResponse(res, certificate);
+    } catch (error: any) {
+      this.logger.error('Error installing certificate:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to install certificate');
+    }
+  }
+
+  private async getInstalledCertificateIds(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      certificateType: Joi.string().valid('CentralSystemRootCertificate', 'ManufacturerRootCertificate').required(),
+    });
+
+    const { error, value } = schema.validate(req.query);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const response = await this.ocppServer.getCertificateService().getInstalledCertificateIds(req.params.id, value.certificateType);
+      return this.sendSuccessResponse(res, response);
+    } catch (error: any) {
+      this.logger.error('Error fetching installed certificates:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to fetch installed certificates');
+    }
+  }
+
+  private async deleteCertificate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      certificateId: Joi.string(),
+      certificateHashData: Joi.object({
+        hashAlgorithm: Joi.string().valid('SHA256', 'SHA384', 'SHA512').required(),
+        issuerNameHash: Joi.string().max(128).required(),
+        issuerKeyHash: Joi.string().max(128).required(),
+        serialNumber: Joi.string().max(40).required(),
+      }),
+    }).xor('certificateId', 'certificateHashData');
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      let certificateHashData = value.certificateHashData;
+      if (value.certificateId) {
+        const certificate = await this.db.getChargePointCertificate(value.certificateId);
+        if (!certificate || certificate.chargePointId !== req.params.id) {
+          return this.sendErrorResponse(res, 404, 'Certificate not found');
+        }
+        if (!certificate.hashData) {
+          return this.sendErrorResponse(res, 409, 'Certificate hash data unknown, use GetInstalledCertificateIds');
+        }
+        certificateHashData = certificate.hashData;
+      }
+
+      const response = await this.ocppServer.getCertificateService().deleteCertificate(req.params.id, certificateHashData);
+      return this.sendSuccessResponse(res, response);
+    } catch (error: any) {
+      this.logger.error('Error deleting certificate:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to delete certificate');
+    }
+  }
+
+  private async getCaCertificate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!this.ocppServer) {
+      return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+    }
+
+    return this.sendSuccessResponse(res, {
+      certificate: this.ocppServer.getCertificateAuthority().getCertificatePem(),
+    });
+  }
+
+  private async getSecurityEvents(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { chargePointId, type, from, to, limit } = req.query;
+      const events = await this.db.getSecurityEvents({
+        chargePointId: chargePointId as string | undefined,
+        type: type as string | undefined,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+
+      return this.sendSuccessResponse(res, events);
+    } catch (error) {
+      this.logger.error('Error fetching security events:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch security events');
+    }
+  }
+
+  // OCPP message log endpoints
+  private async getMessageLogs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { error, value } = messageLogQuerySchema.validate(req.query);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { page, limit, ...filters } = value;
+      const { logs, total } = await this.db.getOcppMessageLogs(req.params.id, {
+        ...filters,
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+
+      return this.sendSuccessResponse(res, {
+        logs,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      this.logger.error('Error fetching OCPP message logs:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch OCPP message logs');
+    }
+  }
+
+  // One JSON object per line, oldest first, streamed in batches
+  private async exportMessageLogs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { error, value } = messageLogQuerySchema.validate(req.query);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    const { page, limit, ...filters } = value;
+    const chargePointId = req.params.id;
+    let headersSent = false;
+
+    try {
+      let after: string | undefined;
+      while (true) {
+        const batch = await this.db.getOcppMessageLogBatch(chargePointId, filters, 1000, after);
+
+        if (!headersSent) {
+          res.setHeader('Content-Type', 'application/x-ndjson');
+          res.setHeader('Content-Disposition', `attachment; filename="${chargePointId}-ocpp-log.ndjson"`);
+          headersSent = true;
+        }
+        if (batch.length === 0) break;
+
+        res.write(batch.map((entry) => JSON.stringify(entry)).join('\n') + '\n');
+        after = batch[batch.length - 1].id;
+      }
+
+      res.end();
+    } catch (error) {
+      this.logger.error('Error exporting OCPP message logs:', error);
+      if (!headersSent) {
+        return this.sendErrorResponse(res, 500, 'Failed to export OCPP message logs');
+      }
+      res.destroy();
+    }
+  }
+
+  // Outbound call queue endpoints
+  private async getCallQueues(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!this.ocppServer) {
+      return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+    }
+
+    return this.sendSuccessResponse(res, this.ocppServer.getOutboundQueue().getDepths());
+  }
+
+  private async getCallQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!this.ocppServer) {
+      return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+    }
+
+    return this.sendSuccessResponse(res, {
+      chargePointId: req.params.id,
+      connected: this.ocppServer.getConnectedChargePoints().includes(req.params.id),
+      ...this.ocppServer.getOutboundQueue().getStatus(req.params.id),
+    });
+  }
+
+  // Calls already sent cannot be taken back
+  private async cancelQueuedCall(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!this.ocppServer) {
+      return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+    }
+
+    if (!this.ocppServer.getOutboundQueue().cancel(req.params.id, req.params.callId)) {
+      return this.sendErrorResponse(res, 404, 'Queued call not found');
+    }
+
+    this.logger.info(`Queued call ${req.params.callId} to ${req.params.id} cancelled by ${req.user?.id}`);
+    return this.sendSuccessResponse(res, { callId: req.params.callId, cancelled: true });
+  }
+
+  // Offline command endpoints
+  private async getOfflineCommands(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { error, value } = offlineCommandQuerySchema.validate(req.query);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      const { page, limit, chargePointId, status } = value;
+      const { commands, total } = await this.db.getOfflineCommands({
+        chargePointId,
+        status: status ? status.toUpperCase().split(',') : undefined,
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+
+      return this.sendSuccessResponse(res, {
+        commands,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      this.logger.error('Error fetching offline commands:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch offline commands');
+    }
+  }
+
+  // Sent right away when the charge point is connected, queued otherwise
+  private async sendOrQueueCommand(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      action: Joi.string().valid(...QUEUEABLE_ACTIONS).required(),
+      payload: Joi.alternatives().conditional('action', {
+        switch: QUEUEABLE_ACTIONS.map((action) => ({ is: action, then: offlineCommandPayloadSchemas[action] })),
+      }).required(),
+      // null keeps the command until it is delivered
+      expiresAt: Joi.date().iso().greater('now').allow(null),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+    if (value.action === 'ChangeConfiguration' && isAuthorizationKey(value.payload.key)) {
+      return this.sendErrorResponse(res, 400, AUTHORIZATION_KEY_REJECTION);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const chargePoint = await this.db.getChargePoint(req.params.id);
+      if (!chargePoint) {
+        return this.sendErrorResponse(res, 404, 'Charge point not found');
+      }
+
+      // Queued firmware updates are tracked against a registered firmware version
+      if (value.action === 'UpdateFirmware'
+        && !(await this.ocppServer.getFirmwareService().findFirmwareVersion(req.params.id, value.payload.location))) {
+        return this.sendErrorResponse(res, 400, `No firmware version for ${chargePoint.vendor} ${chargePoint.model} is downloaded from ${value.payload.location}`);
+      }
+
+      const result = await this.ocppServer.getOfflineCommands().sendOrQueue(req.params.id, value.action, value.payload, {
+        expiresAt: value.expiresAt,
+        createdBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error sending or queueing command:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to send or queue command');
+    }
+  }
+
+  private async cancelOfflineCommand(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const existing = await this.db.getOfflineCommand(req.params.id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Offline command not found');
+      }
+
+      const command = await this.ocppServer.getOfflineCommands().cancel(req.params.id);
+      if (!command) {
+        return this.sendErrorResponse(res, 409, `Offline command is ${existing.status}, only QUEUED commands can be cancelled`);
+      }
+
+      return this.sendSuccessResponse(res, command);
+    } catch (error: any) {
+      this.logger.error('Error cancelling offline command:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to cancel offline command');
+    }
+  }
+
+  private async setOfflineCommandExpiry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      // A time in the past expires the command right away
+      expiresAt: Joi.date().iso().allow(null).required(),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const existing = await this.db.getOfflineCommand(req.params.id);
+      if (!existing) {
+        return this.sendErrorResponse(res, 404, 'Offline command not found');
+      }
+
+      const command = await this.ocppServer.getOfflineCommands().setExpiry(req.params.id, value.expiresAt);
+      if (!command) {
+        return this.sendErrorResponse(res, 409, `Offline command is ${existing.status}, only QUEUED commands can be changed`);
+      }
+
+      return this.sendSuccessResponse(res, command);
+    } catch (error: any) {
+      this.logger.error('Error updating offline command expiry:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to update offline command expiry');
+    }
+  }
+
+  // Provisioning endpoints
+  private async getPendingChargePoints(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const chargePoints = await this.ocppServer.getProvisioning().getPendingChargePoints();
+      return this.sendSuccessResponse(res, {
+        mode: this.ocppServer.getProvisioning().getMode(),
+        chargePoints,
+      });
+    } catch (error) {
+      this.logger.error('Error fetching pending charge points:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch pending charge points');
+    }
+  }
+
+  private async approveChargePoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const result = await this.ocppServer.getProvisioning().approve(req.params.id, req.user?.id);
+      return this.sendSuccessResponse(res, result);
+    } catch (error: any) {
+      this.logger.error('Error approving charge point:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to approve charge point');
+    }
+  }
+
+  private async rejectChargePoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      reason: Joi.string().max(255),
+      blockSerialNumber: Joi.boolean().default(false),
+    });
+
+    const { error, value } = schema.validate(req.body ?? {});
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const chargePoint = await this.ocppServer.getProvisioning().reject(req.params.id, {
+        reason: value.reason,
+        blockSerialNumber: value.blockSerialNumber,
+        rejectedBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, chargePoint);
+    } catch (error: any) {
+      this.logger.error('Error rejecting charge point:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to reject charge point');
+    }
+  }
+
+  private async getBlockedSerialNumbers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const blocked = await this.db.getBlockedSerialNumbers();
+      return this.sendSuccessResponse(res, blocked);
+    } catch (error) {
+      this.logger.error('Error fetching blocked serial numbers:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch blocked serial numbers');
+    }
+  }
+
+  private async blockSerialNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      serialNumber: Joi.string().max(25).required(),
+      reason: Joi.string().max(255),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const blocked = await this.ocppServer.getProvisioning().blockSerialNumber(value.serialNumber, value.reason, req.user?.id);
+      return this.sendSuccessResponse(res, blocked);
+    } catch (error: any) {
+      this.logger.error('Error blocking serial number:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to block serial number');
+    }
+  }
+
+  private async unblockSerialNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const removed = await this.db.unblockSerialNumber(req.params.serialNumber);
+      if (!removed) {
+        return this.sendErrorResponse(res, 404, 'Serial number is not blocked');
+      }
+
+      return this.sendSuccessResponse(res, { serialNumber: req.params.serialNumber, blocked: false });
+    } catch (error) {
+      this.logger.error('Error unblocking serial number:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to unblock serial number');
+    }
+  }
+
+  private async getModelDefaults(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const defaults = await this.db.getChargePointModelDefaults();
+      return this.sendSuccessResponse(res, defaults);
+    } catch (error) {
+      this.logger.error('Error fetching model defaults:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch model defaults');
+    }
+  }
+
+  private async upsertModelDefault(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      vendor: Joi.string().max(20).required(),
+      model: Joi.string().max(20).required(),
+      heartbeatInterval: Joi.number().integer().min(1).allow(null),
+      // ChangeConfiguration values are strings of at most 500 characters
+      configuration: Joi.object().pattern(Joi.string().max(50), Joi.string().max(500)).allow(null),
+    }).or('heartbeatInterval', 'configuration');
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+    if (Object.keys(value.configuration ?? {}).some(isAuthorizationKey)) {
+      return this.sendErrorResponse(res, 400, AUTHORIZATION_KEY_REJECTION);
+    }
+
+    try {
+      const defaults = await this.db.upsertChargePointModelDefault({
+        ...value,
+        updatedBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, defaults);
+    } catch (error) {
+      this.logger.error('Error saving model defaults:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to save model defaults');
+    }
+  }
+
+  private async deleteModelDefault(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const removed = await this.db.deleteChargePointModelDefault(req.params.id);
+      if (!removed) {
+        return this.sendErrorResponse(res, 404, 'Model defaults not found');
+      }
+
+      return this.sendSuccessResponse(res, { id: req.params.id, deleted: true });
+    } catch (error) {
+      this.logger.error('Error deleting model defaults:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to delete model defaults');
+    }
+  }
+
+  // Availability & maintenance endpoints
+  private async getAvailability(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const availability = await this.ocppServer.getAvailabilityService().getAvailability(req.params.id);
+      return this.sendSuccessResponse(res, availability);
+    } catch (error) {
+      this.logger.error('Error fetching availability:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch availability');
+    }
+  }
+
+  private async blockConnector(req: AuthenticatedRequest, res: Response): Promise<void> {
+    return this.changeAvailability(req, res, 'Inoperative');
+  }
+
+  private async unblockConnector(req: AuthenticatedRequest, res: Response): Promise<void> {
+    return this.changeAvailability(req, res, 'Operative');
+  }
+
+  /**
+   * Body: { connectorId?: number (0 or omitted = whole charge point), reason?: string }
+   */
+  private async changeAvailability(
+    req: AuthenticatedRequest,
+    res: Response,
+    type: 'Operative' | 'Inoperative'
+  ): Promise<void> {
+    const schema = Joi.object({
+      connectorId: Joi.number().integer().min(0).default(0),
+      reason: Joi.string().max(255),
+    });
+
+    const { error, value } = schema.validate(req.body || {});
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const change = await this.ocppServer.getAvailabilityService().changeAvailability(req.params.id, value.connectorId, type, {
+        reason: value.reason,
+        requestedBy: req.user?.id,
+        source: 'api',
+      });
+
+      if (change.status === 'NotConnected') {
+        return this.sendErrorResponse(res, 404, 'Charge point not connected');
+      }
+
+      return this.sendSuccessResponse(res, change);
+    } catch (error: any) {
+      this.logger.error('Error changing availability:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to change availability');
+    }
+  }
+
+  private async getMaintenanceWindows(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { chargePointId, status, from, to } = req.query;
+      const windows = await this.db.getMaintenanceWindows({
+        chargePointId: chargePointId as string | undefined,
+        status: status as any,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+      });
+
+      return this.sendSuccessResponse(res, windows);
+    } catch (error) {
+      this.logger.error('Error fetching maintenance windows:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch maintenance windows');
+    }
+  }
+
+  private async getMaintenanceWindow(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const window = await this.db.getMaintenanceWindow(req.params.id);
+      if (!window) {
+        return this.sendErrorResponse(res, 404, 'Maintenance window not found');
+      }
+
+      return this.sendSuccessResponse(res, window);
+    } catch (error) {
+      this.logger.error('Error fetching maintenance window:', error);
+      return this.sendErrorResponse(res, 500, 'Failed to fetch maintenance window');
+    }
+  }
+
+  private async createMaintenanceWindow(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const schema = Joi.object({
+      chargePointId: Joi.string().required(),
+      connectorId: Joi.number().integer().min(0).default(0),
+      startsAt: Joi.date().iso().required(),
+      endsAt: Joi.date().iso().greater(Joi.ref('startsAt')).required(),
+      reason: Joi.string().max(255),
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return this.sendErrorResponse(res, 400, error.details[0].message);
+    }
+
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const window = await this.ocppServer.getAvailabilityService().createMaintenanceWindow({
+        chargePointId: value.chargePointId,
+        connectorId: value.connectorId,
+        startsAt: new Date(value.startsAt),
+        endsAt: new Date(value.endsAt),
+        reason: value.reason,
+        createdBy: req.user?.id,
+      });
+
+      return this.sendSuccessResponse(res, window);
+    } catch (error: any) {
+      this.logger.error('Error creating maintenance window:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to create maintenance window');
+    }
+  }
+
+  private async cancelMaintenanceWindow(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!this.ocppServer) {
+        return this.sendErrorResponse(res, 503, 'OCPP Server not initialized');
+      }
+
+      const window = await this.ocppServer.getAvailabilityService().cancelMaintenanceWindow(req.params.id);
+      return this.sendSuccessResponse(res, window);
+    } catch (error: any) {
+      this.logger.error('Error cancelling maintenance window:', error);
+      return this.sendErrorResponse(res, 500, error.message || 'Failed to cancel maintenance window');
+    }
+  }
+
   // Alarm endpoints
   private async getAlarms(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -0,0 +1,75 @@
+import { AuthCacheClear } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import { ClearCacheResponse } from '../types/ocpp_types';
+
+export class AuthCacheService {
+  private logger = Logger.getInstance();
+  private readonly lookbackDays = parseInt(process.env.AUTH_CACHE_LOOKBACK_DAYS || '30');
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  /**
+   * Send ClearCache and record the outcome. Failures are recorded rather
+   * than thrown so bulk callers get a result per charge point.
+   */
+  public async clearCache(
+    chargePointId: string,
+    options: { trigger: string; idTag?: string; requestedBy?: string }
+  ): Promise<AuthCacheClear> {
+    let status: string;
+    let error: string | undefined;
+
+    if (!(await this.ocppServer.isChargePointConnected(chargePointId))) {
+      status = 'NotConnected';
+    } else {
+      try {
+        const response: ClearCacheResponse = await this.ocppServer.sendMessage(chargePointId, 'ClearCache', {});
+        status = response?.status ?? 'Unknown';
+      } catch (err: any) {
+        status = 'Error';
+        error = err.message;
+      }
+    }
+
+    const record = await this.db.createAuthCacheClear({
+      chargePointId,
+      trigger: options.trigger,
+      idTag: options.idTag,
+      status,
+      error,
+      requestedBy: options.requestedBy,
+    });
+
+    this.logger.info(`🧽 ClearCache on ${chargePointId} (${options.trigger}) → ${status}`);
+    return record;
+  }
+
+  public async clearCaches(
+    chargePointIds: string[],
+    options: { trigger: string; idTag?: string; requestedBy?: string }
+  ): Promise<AuthCacheClear[]> {
+    const results: AuthCacheClear[] = [];
+    for (const chargePointId of chargePointIds) {
+      results.push(await this.clearCache(chargePointId, options));
+    }
+    return results;
+  }
+
+  /**
+   * A blocked card may still be accepted from the cache of chargers it was
+   * used on, so clear every charge point where it started a session recently
+   */
+  public async onIdTagBlocked(idTag: string, requestedBy?: string): Promise<AuthCacheClear[]> {
+    const since = new Date(Date.now() - this.lookbackDays * 24 * 60 * 60 * 1000);
+    const chargePointIds = await this.db.getChargePointIdsUsedByIdTag(idTag, since);
+    if (chargePointIds.length === 0) return [];
+
+    this.logger.info(`🏷️ IdTag ${idTag} blocked, clearing cache on ${chargePointIds.length} charge point(s)`);
+    return this.clearCaches(chargePointIds, { trigger: 'idtag-blocked', idTag, requestedBy });
+  }
+}
@@ -0,0 +1,293 @@
+import {
+  AvailabilityChange,
+  AvailabilityType,
+  Connector,
+  MaintenanceWindow,
+  MaintenanceWindowStatus
+} from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import { ChangeAvailabilityRequest, ChangeAvailabilityResponse } from '../types/ocpp_types';
+
+const typeFromOCPP: Record<ChangeAvailabilityRequest['type'], AvailabilityType> = {
+  Operative: AvailabilityType.OPERATIVE,
+  Inoperative: AvailabilityType.INOPERATIVE,
+};
+
+export interface AvailabilityChangeOptions {
+  reason?: string;
+  requestedBy?: string;
+  source?: 'api' | 'maintenance';
+  maintenanceWindowId?: string;
+}
+
+export class AvailabilityService {
+  private logger = Logger.getInstance();
+  private maintenanceTimer?: NodeJS.Timeout;
+  private readonly maintenanceCheckInterval = parseInt(process.env.MAINTENANCE_CHECK_MS || '60000');
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  public start(): void {
+    if (this.maintenanceTimer) return;
+
+    this.maintenanceTimer = setInterval(() => {
+      this.processMaintenanceWindows().catch((error) => {
+        this.logger.error('Error processing maintenance windows:', error);
+      });
+    }, this.maintenanceCheckInterval);
+  }
+
+  public stop(): void {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = undefined;
+    }
+  }
+
+  /**
+   * Send ChangeAvailability and record the outcome. Connector 0 applies to
+   * the whole charge point. A Scheduled answer is kept as pending until the
+   * charge point reports the new state after its running transaction.
+   */
+  public async changeAvailability(
+    chargePointId: string,
+    connectorId: number,
+    type: ChangeAvailabilityRequest['type'],
+    options: AvailabilityChangeOptions = {}
+  ): Promise<AvailabilityChange> {
+    const availability = typeFromOCPP[type];
+    let status: string;
+    let error: string | undefined;
+
+    if (!(await this.ocppServer.isChargePointConnected(chargePointId))) {
+      status = 'NotConnected';
+    } else {
+      try {
+        const response: ChangeAvailabilityResponse = await this.ocppServer.sendMessage(
+          chargePointId,
+          'ChangeAvailability',
+          { connectorId, type }
+        );
+        status = response?.status ?? 'Unknown';
+      } catch (err: any) {
+        status = 'Error';
+        error = err.message;
+      }
+    }
+
+    if (status === 'Accepted' || status === 'Scheduled') {
+      const blocked = availability === AvailabilityType.INOPERATIVE;
+
+      await this.db.updateConnectorAvailability(chargePointId, connectorId, {
+        ...(status === 'Accepted'
+          ? { availability, pendingAvailability: null }
+          : { pendingAvailability: availability }),
+        blockedReason: blocked ? options.reason ?? null : null,
+        blockedBy: blocked ? options.requestedBy ?? null : null,
+        blockedAt: blocked ? new Date() : null,
+        maintenanceWindowId: blocked ? options.maintenanceWindowId ?? null : null,
+      });
+    }
+
+    const record = await this.db.createAvailabilityChange({
+      chargePointId,
+      connectorId,
+      type: availability,
+      status,
+      reason: options.reason,
+      source: options.source ?? 'api',
+      maintenanceWindowId: options.maintenanceWindowId,
+      requestedBy: options.requestedBy,
+      error,
+      ...(status === 'Accepted' && { appliedAt: new Date() }),
+    });
+
+    this.logger.info(`🚧 ChangeAvailability ${type} on ${chargePointId}:${connectorId} (${options.source ?? 'api'}) → ${status}`);
+    return record;
+  }
+
+  /**
+   * Apply a Scheduled change once the connector reports the matching state
+   */
+  public async onStatusNotification(chargePointId: string, connectorId: number, status: string): Promise<void> {
+    const connector = await this.db.getConnector(chargePointId, connectorId);
+    if (!connector?.pendingAvailability) return;
+
+    const reached = connector.pendingAvailability === AvailabilityType.INOPERATIVE
+      ? status === 'Unavailable'
+      : status !== 'Unavailable' && status !== 'Faulted';
+    if (!reached) return;
+
+    await this.db.updateConnectorAvailability(chargePointId, connectorId, {
+      availability: connector.pendingAvailability,
+      pendingAvailability: null,
+    });
+    await this.db.markScheduledAvailabilityChangesApplied(chargePointId, connectorId);
+
+    this.logger.info(`🚧 Scheduled availability change applied on ${chargePointId}:${connectorId} → ${connector.pendingAvailability}`);
+  }
+
+  public async getAvailability(chargePointId: string): Promise<{
+    connectors: Pick<Connector, 'connectorId' | 'status' | 'availability' | 'pendingAvailability' | 'blockedReason' | 'blockedBy' | 'blockedAt' | 'maintenanceWindowId'>[];
+    changes: AvailabilityChange[];
+  }> {
+    const [connectors, changes] = await Promise.all([
+      this.db.getConnectorsByChargePointId(chargePointId),
+      this.db.getAvailabilityChanges(chargePointId),
+    ]);
+
+    return {
+      connectors: connectors.map((connector) => ({
+        connectorId: connector.connectorId,
+        status: connector.status,
+        availability: connector.availability,
+        pendingAvailability: connector.pendingAvailability,
+        blockedReason: connector.blockedReason,
+        blockedBy: connector.blockedBy,
+        blockedAt: connector.blockedAt,
+        maintenanceWindowId: connector.maintenanceWindowId,
+      })),
+      changes,
+    };
+  }
+
+  public async createMaintenanceWindow(data: {
+    chargePointId: string;
+    connectorId?: number;
+    startsAt: Date;
+    endsAt: Date;
+    reason?: string;
+    createdBy?: string;
+  }): Promise<MaintenanceWindow> {
+    if (data.endsAt <= data.startsAt) {
+      throw new Error('Maintenance window must end after it starts');
+    }
+    if (data.endsAt <= new Date()) {
+      throw new Error('Maintenance window is already over');
+    }
+
+    const chargePoint = await this.db.getChargePoint(data.chargePointId);
+    if (!chargePoint) {
+      throw new Error(`Charge point ${data.chargePointId} not found`);
+    }
+
+    const window = await this.db.createMaintenanceWindow({
+      chargePointId: data.chargePointId,
+      connectorId: data.connectorId ?? 0,
+      startsAt: data.startsAt,
+      endsAt: data.endsAt,
+      reason: data.reason,
+      createdBy: data.createdBy,
+    });
+
+    if (window.startsAt <= new Date()) {
+      await this.processMaintenanceWindows(window.chargePointId);
+      return (await this.db.getMaintenanceWindow(window.id)) ?? window;
+    }
+
+    return window;
+  }
+
+  /**
+   * Cancel a window. An active one brings its connectors back first.
+   */
+  public async cancelMaintenanceWindow(id: string): Promise<MaintenanceWindow> {
+    const window = await this.db.getMaintenanceWindow(id);
+    if (!window) {
+      throw new Error('Maintenance window not found');
+    }
+    if (window.status === MaintenanceWindowStatus.COMPLETED || window.status === MaintenanceWindowStatus.CANCELLED) {
+      throw new Error(`Maintenance window is already ${window.status.toLowerCase()}`);
+    }
+
+    if (window.status === MaintenanceWindowStatus.ACTIVE) {
+      const restored = await this.endWindow(window);
+      if (!restored) {
+        throw new Error(`Could not bring ${window.chargePointId} back into operation, try again when it is connected`);
+      }
+    }
+
+    return this.db.updateMaintenanceWindow(id, { status: MaintenanceWindowStatus.CANCELLED });
+  }
+
+  /**
+   * Start due windows and end expired ones. Windows on charge points that
+   * are offline are retried on the next run or when the charge point boots.
+   * Each instance only acts on the charge points connected to it.
+   */
+  public async processMaintenanceWindows(chargePointId?: string): Promise<void> {
+    const now = new Date();
+    const windows = await this.db.getDueMaintenanceWindows(now, chargePointId);
+    const connected = new Set(this.ocppServer.getConnectedChargePoints());
+
+    for (const window of windows) {
+      try {
+        if (window.status === MaintenanceWindowStatus.SCHEDULED) {
+          if (window.endsAt <= now) {
+            await this.db.updateMaintenanceWindow(window.id, { status: MaintenanceWindowStatus.COMPLETED });
+            this.logger.warn(`⚠️ Maintenance window ${window.id} on ${window.chargePointId} passed without starting`);
+            continue;
+          }
+          if (!connected.has(window.chargePointId)) continue;
+          await this.startWindow(window);
+        } else if (connected.has(window.chargePointId) && await this.endWindow(window)) {
+          await this.db.updateMaintenanceWindow(window.id, { status: MaintenanceWindowStatus.COMPLETED });
+        }
+      } catch (error: any) {
+        this.logger.error(`Maintenance window ${window.id} on ${window.chargePointId} failed: ${error.message}`);
+      }
+    }
+  }
+
+  public async onBoot(chargePointId: string): Promise<void> {
+    await this.processMaintenanceWindows(chargePointId);
+  }
+
+  private async startWindow(window: MaintenanceWindow): Promise<void> {
+    const change = await this.changeAvailability(window.chargePointId, window.connectorId, 'Inoperative', {
+      reason: window.reason ?? 'Scheduled maintenance',
+      source: 'maintenance',
+      maintenanceWindowId: window.id,
+    });
+
+    // Offline or failed sends are retried; a rejection is final and stays in the audit
+    if (change.status === 'NotConnected' || change.status === 'Error') return;
+
+    await this.db.updateMaintenanceWindow(window.id, { status: MaintenanceWindowStatus.ACTIVE });
+  }
+
+  /**
+   * Make operative again only the connectors this window blocked. Connectors
+   * re-blocked by an operator or by another window since are left alone.
+   * Returns false when the charge point could not be reached.
+   */
+  private async endWindow(window: MaintenanceWindow): Promise<boolean> {
+    const connectors = await this.db.getConnectorsByChargePointId(window.chargePointId);
+    const owned = connectors.filter((connector) => connector.maintenanceWindowId === window.id);
+    if (owned.length === 0) return true;
+
+    const targets = window.connectorId === 0 && owned.length === connectors.length
+      ? [0]
+      : owned.map((connector) => connector.connectorId);
+
+    let reached = true;
+    for (const connectorId of targets) {
+      const change = await this.changeAvailability(window.chargePointId, connectorId, 'Operative', {
+        reason: `End of maintenance ${window.id}`,
+        source: 'maintenance',
+        maintenanceWindowId: window.id,
+      });
+
+      if (change.status === 'NotConnected' || change.status === 'Error') {
+        reached = false;
+      }
+    }
+
+    return reached;
+  }
+}
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { Logger } from '../Utils/logger';
+import { RedisService } from './redis';
+import { MessageType } from '../types/ocpp_types';
+
+interface CachedResult {
+  payloadHash: string;
+  response: any[];
+}
+
+/**
+ * Replays the CALLRESULT of a CALL the charge point sent again with the same
+ * uniqueId, so a retransmitted StartTransaction does not open a second
+ * transaction. A CALL only counts as retransmitted when action and payload
+ * match too, as some chargers restart their uniqueId counter after a reboot.
+ *
+ * Results are kept in Redis for OCPP_IDEMPOTENCY_WINDOW_SECONDS (300, 0 turns
+ * this off). CALLERRORs are not cached so the charge point can retry.
+ */
+export class CallDeduplicator {
+  private logger = Logger.getInstance();
+  // Retransmissions arriving while the original is still being handled wait for it
+  private inFlight = new Map<string, { payloadHash: string; result: Promise<{ response: any; replayed: boolean }> }>();
+  private readonly windowSeconds = parseInt(process.env.OCPP_IDEMPOTENCY_WINDOW_SECONDS || '300');
+
+  constructor(private redis: RedisService) {}
+
+  public async handle(
+    chargePointId: string,
+    message: [number, string, string, any],
+    handler: () => Promise<any>
+  ): Promise<{ response: any; replayed: boolean }> {
+    const [, uniqueId, action, payload] = message;
+    if (this.windowSeconds <= 0 || typeof uniqueId !== 'string') {
+      return { response: await handler(), replayed: false };
+    }
+
+    const key = `ocpp:call:${chargePointId}:${action}:${uniqueId}`;
+    const payloadHash = crypto.createHash('sha256').update(JSON.stringify(payload ?? null)).digest('hex');
+
+    const running = this.inFlight.get(key);
+    if (running?.payloadHash === payloadHash) {
+      this.logger.warn(`🔁 ${action} ${uniqueId} from ${chargePointId} retransmitted while in progress, waiting for the original`);
+      return { response: (await running.result).response, replayed: true };
+    }
+
+    // Registered before the Redis lookup, a retransmission may arrive during it
+    const entry = { payloadHash, result: this.process(key, payloadHash, message, chargePointId, handler) };
+    this.inFlight.set(key, entry);
+
+    try {
+      return await entry.result;
+    } finally {
+      if (this.inFlight.get(key) === entry) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  private async process(
+    key: string,
+    payloadHash: string,
+    [, uniqueId, action]: [number, string, string, any],
+    chargePointId: string,
+    handler: () => Promise<any>
+  ): Promise<{ response: any; replayed: boolean }> {
+    const cached = await this.getCached(key);
+    if (cached && cached.payloadHash === payloadHash) {
+      this.logger.warn(`🔁 ${action} ${uniqueId} from ${chargePointId} retransmitted, replaying the cached result`);
+      return { response: cached.response, replayed: true };
+    }
+
+    const response = await handler();
+    if (Array.isArray(response) && response[0] === MessageType.CALLRESULT) {
+      await this.redis.setJSON(key, { payloadHash, response } as CachedResult, this.windowSeconds).catch((error) => {
+        this.logger.warn(`⚠️ Could not cache ${action} ${uniqueId} result for ${chargePointId}: ${error.message}`);
+      });
+    }
+    return { response, replayed: false };
+  }
+
+  // Without Redis the message is simply handled again
+  private async getCached(key: string): Promise<CachedResult | null> {
+    try {
+      return await this.redis.getJSON<CachedResult>(key);
+    } catch (error: any) {
+      this.logger.warn(`⚠️ Idempotency cache unavailable: ${error.message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import crypto, { KeyObject, X509Certificate } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../Utils/logger';
+import * as der from '../helpers/der';
+import { CertificateHashData } from '../types/ocpp_types';
+
+const OID = {
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  sha384WithRSAEncryption: '1.2.840.113549.1.1.12',
+  sha512WithRSAEncryption: '1.2.840.113549.1.1.13',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  ecdsaWithSHA384: '1.2.840.10045.4.3.3',
+  ecdsaWithSHA512: '1.2.840.10045.4.3.4',
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  basicConstraints: '2.5.29.19',
+  authorityKeyIdentifier: '2.5.29.35',
+  extKeyUsage: '2.5.29.37',
+  clientAuth: '1.3.6.1.5.5.7.3.2',
+};
+
+const SIGNATURE_HASHES: Record<string, string> = {
+  [OID.sha256WithRSAEncryption]: 'sha256',
+  [OID.sha384WithRSAEncryption]: 'sha384',
+  [OID.sha512WithRSAEncryption]: 'sha512',
+  [OID.ecdsaWithSHA256]: 'sha256',
+  [OID.ecdsaWithSHA384]: 'sha384',
+  [OID.ecdsaWithSHA512]: 'sha512',
+};
+
+// keyUsage bit positions (RFC 5280 4.2.1.3)
+const KEY_USAGE = {
+  digitalSignature: 0,
+  keyEncipherment: 2,
+  keyCertSign: 5,
+  cRLSign: 6,
+};
+
+export interface CertificateSigningRequest {
+  commonName?: string;
+  organization?: string;
+  // DER encoded Name and SubjectPublicKeyInfo, copied into the certificate as is
+  subject: Buffer;
+  subjectPublicKeyInfo: Buffer;
+}
+
+interface ParsedCertificate {
+  issuer: Buffer;
+  subject: Buffer;
+  subjectPublicKeyInfo: Buffer;
+}
+
+/**
+ * Certificate authority used to sign charge point CSRs (SignCertificate)
+ * and to verify client certificates for Security Profile 3. The CA is read
+ * from OCPP_CA_CERT_PATH / OCPP_CA_KEY_PATH; without them a local root CA
+ * is created once in OCPP_CA_DIR so the flow also works offline.
+ */
+export class CertificateAuthority {
+  private logger = Logger.getInstance();
+  private certificatePem!: string;
+  private certificate!: X509Certificate;
+  private privateKey!: KeyObject;
+  private readonly validityDays = parseInt(process.env.OCPP_CERTIFICATE_VALIDITY_DAYS || '365');
+
+  constructor() {
+    const certPath = process.env.OCPP_CA_CERT_PATH;
+    const keyPath = process.env.OCPP_CA_KEY_PATH;
+
+    if (certPath && keyPath) {
+      this.load(certPath, keyPath);
+      return;
+    }
+
+    const caDir = path.resolve(process.env.OCPP_CA_DIR || 'storage/ca');
+    const localCertPath = path.join(caDir, 'ca-cert.pem');
+    const localKeyPath = path.join(caDir, 'ca-key.pem');
+
+    if (!fs.existsSync(localCertPath) || !fs.existsSync(localKeyPath)) {
+      this.createLocalRoot(caDir, localCertPath, localKeyPath);
+    }
+    this.load(localCertPath, localKeyPath);
+  }
+
+  public getCertificatePem(): string {
+    return this.certificatePem;
+  }
+
+  public isSelfSigned(): boolean {
+    return this.certificate.checkIssued(this.certificate);
+  }
+
+  /**
+   * Parse a PEM PKCS#10 request and check its self-signature
+   */
+  public parseCsr(csrPem: string): CertificateSigningRequest {
+    const label = csrPem.includes('BEGIN NEW CERTIFICATE REQUEST') ? 'NEW CERTIFICATE REQUEST' : 'CERTIFICATE REQUEST';
+    const csr = der.fromPem(csrPem, label);
+
+    const [info, algorithm, signature] = der.readChildren(csr, der.readElement(csr));
+    if (!info || !algorithm || !signature) {
+      throw new Error('Malformed certificate signing request');
+    }
+
+    const [, subject, subjectPublicKeyInfo] = der.readChildren(csr, info);
+    const algorithmOid = der.decodeOid(der.elementContent(csr, der.readChildren(csr, algorithm)[0]));
+    const hash = SIGNATURE_HASHES[algorithmOid];
+    if (!hash) {
+      throw new Error(`Unsupported CSR signature algorithm ${algorithmOid}`);
+    }
+
+    const publicKey = crypto.createPublicKey({ key: der.rawElement(csr, subjectPublicKeyInfo), format: 'der', type: 'spki' });
+    const signatureBytes = der.elementContent(csr, signature).subarray(1);
+    if (!crypto.verify(hash, der.rawElement(csr, info), publicKey, signatureBytes)) {
+      throw new Error('CSR signature is invalid');
+    }
+
+    const attributes = this.readName(csr, subject);
+
+    return {
+      commonName: attributes[OID.commonName],
+      organization: attributes[OID.organizationName],
+      subject: Buffer.from(der.rawElement(csr, subject)),
+      subjectPublicKeyInfo: Buffer.from(der.rawElement(csr, subjectPublicKeyInfo)),
+    };
+  }
+
+  /**
+   * Issue a TLS client certificate for the subject and key of the CSR
+   */
+  public signCsr(csrPem: string, validityDays = this.validityDays): string {
+    const csr = this.parseCsr(csrPem);
+    const issuer = this.parseCertificate(this.certificate.raw);
+    const subjectKeyBits = this.publicKeyBits(csr.subjectPublicKeyInfo);
+    const isRsa = crypto.createPublicKey({ key: csr.subjectPublicKeyInfo, format: 'der', type: 'spki' }).asymmetricKeyType === 'rsa';
+
+    const notBefore = new Date(Date.now() - 5 * 60 * 1000); // tolerate charger clock skew
+    const notAfter = new Date(Math.min(
+      Date.now() + validityDays * 24 * 60 * 60 * 1000,
+      new Date(this.certificate.validTo).getTime()
+    ));
+
+    const certificate = this.buildCertificate({
+      issuer: issuer.subject,
+      subject: csr.subject,
+      subjectPublicKeyInfo: csr.subjectPublicKeyInfo,
+      notBefore,
+      notAfter,
+      extensions: [
+        this.extension(OID.basicConstraints, true, der.sequence()),
+        this.extension(OID.keyUsage, true, this.keyUsage(isRsa
+          ? [KEY_USAGE.digitalSignature, KEY_USAGE.keyEncipherment]
+          : [KEY_USAGE.digitalSignature])),
+        this.extension(OID.extKeyUsage, false, der.sequence(der.oid(OID.clientAuth))),
+        this.extension(OID.subjectKeyIdentifier, false, der.octetString(this.keyIdentifier(subjectKeyBits))),
+        this.extension(OID.authorityKeyIdentifier, false, der.sequence(
+          der.encode(0x80, this.keyIdentifier(this.publicKeyBits(issuer.subjectPublicKeyInfo)))
+        )),
+      ],
+      signingKey: this.privateKey,
+    });
+
+    return der.toPem(certificate, 'CERTIFICATE');
+  }
+
+  /**
+   * OCPP CertificateHashData of a certificate. The issuer defaults to the
+   * certificate itself, which is right for the root certificates OCPP installs.
+   */
+  public computeHashData(certificatePem: string, issuerPem?: string): CertificateHashData {
+    const certificate = new X509Certificate(certificatePem);
+    const issuer = new X509Certificate(issuerPem ?? certificatePem);
+    const parsed = this.parseCertificate(certificate.raw);
+    const parsedIssuer = this.parseCertificate(issuer.raw);
+
+    return {
+      hashAlgorithm: 'SHA256',
+      issuerNameHash: crypto.createHash('sha256').update(parsed.issuer).digest('hex'),
+      issuerKeyHash: crypto.createHash('sha256').update(this.publicKeyBits(parsedIssuer.subjectPublicKeyInfo)).digest('hex'),
+      serialNumber: certificate.serialNumber.replace(/^0+(?=.)/, '').toLowerCase(),
+    };
+  }
+
+  private load(certPath: string, keyPath: string): void {
+    this.certificatePem = fs.readFileSync(certPath, 'utf8');
+    this.certificate = new X509Certificate(this.certificatePem);
+    this.privateKey = crypto.createPrivateKey({
+      key: fs.readFileSync(keyPath),
+      ...(process.env.OCPP_CA_KEY_PASSPHRASE && { passphrase: process.env.OCPP_CA_KEY_PASSPHRASE }),
+    });
+
+    if (!this.certificate.checkPrivateKey(this.privateKey)) {
+      throw new Error(`CA key ${keyPath} does not belong to ${certPath}`);
+    }
+
+    this.logger.info(`🔐 Certificate authority loaded: ${this.certificate.subject.replace(/\n/g, ', ')}`);
+  }
+
+  private createLocalRoot(caDir: string, certPath: string, keyPath: string): void {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const subjectPublicKeyInfo = publicKey.export({ format: 'der', type: 'spki' });
+    const subject = der.sequence(
+      der.set(der.sequence(der.oid(OID.organizationName), der.utf8String(process.env.OCPP_CA_ORGANIZATION || 'OCPP Central System'))),
+      der.set(der.sequence(der.oid(OID.commonName), der.utf8String(process.env.OCPP_CA_COMMON_NAME || 'OCPP Local Root CA')))
+    );
+    const keyIdentifier = this.keyIdentifier(this.publicKeyBits(subjectPublicKeyInfo));
+
+    const certificate = this.buildCertificate({
+      issuer: subject,
+      subject,
+      subjectPublicKeyInfo,
+      notBefore: new Date(),
+      notAfter: new Date(Date.now() + 10 * 365 * 24 * 60 * 60 * 1000),
+      extensions: [
+        this.extension(OID.basicConstraints, true, der.sequence(der.boolean(true))),
+        this.extension(OID.keyUsage, true, this.keyUsage([KEY_USAGE.keyCertSign, KEY_USAGE.cRLSign])),
+        this.extension(OID.subjectKeyIdentifier, false, der.octetString(keyIdentifier)),
+      ],
+      signingKey: privateKey,
+    });
+
+    fs.mkdirSync(caDir, { recursive: true });
+    fs.writeFileSync(keyPath, privateKey.export({ format: 'pem', type: 'pkcs8' }), { mode: 0o600 });
+    fs.writeFileSync(certPath, der.toPem(certificate, 'CERTIFICATE'));
+
+    this.logger.warn(`⚠️ Created local OCPP root CA in ${caDir}; configure OCPP_CA_CERT_PATH/OCPP_CA_KEY_PATH for production`);
+  }
+
+  private buildCertificate(data: {
+    issuer: Buffer;
+    subject: Buffer;
+    subjectPublicKeyInfo: Buffer;
+    notBefore: Date;
+    notAfter: Date;
+    extensions: Buffer[];
+    signingKey: KeyObject;
+  }): Buffer {
+    const isRsa = data.signingKey.asymmetricKeyType === 'rsa';
+    const algorithm = isRsa
+      ? der.sequence(der.oid(OID.sha256WithRSAEncryption), der.nullValue())
+      : der.sequence(der.oid(OID.ecdsaWithSHA256));
+
+    const serialNumber = crypto.randomBytes(16);
+    serialNumber[0] &= 0x7f;
+
+    const tbsCertificate = der.sequence(
+      der.contextTag(0, der.integer(2)),
+      der.integer(serialNumber),
+      algorithm,
+      data.issuer,
+      der.sequence(der.time(data.notBefore), der.time(data.notAfter)),
+      data.subject,
+      data.subjectPublicKeyInfo,
+      der.contextTag(3, der.sequence(...data.extensions))
+    );
+
+    const signature = crypto.sign('sha256', tbsCertificate, data.signingKey);
+    return der.sequence(tbsCertificate, algorithm, der.bitString(signature));
+  }
+
+  private extension(extensionOid: string, critical: boolean, value: Buffer): Buffer {
+    return der.sequence(
+      der.oid(extensionOid),
+      ...(critical ? [der.boolean(true)] : []),
+      der.octetString(value)
+    );
+  }
+
+  private keyUsage(bits: number[]): Buffer {
+    const value = bits.reduce((byte, bit) => byte | (0x80 >> bit), 0);
+    let unusedBits = 0;
+    while (unusedBits < 7 && !(value & (1 << unusedBits))) unusedBits++;
+    return der.bitString(Buffer.from([value]), unusedBits);
+  }
+
+  // RFC 5280 method 1: SHA-1 of the subjectPublicKey bits
+  private keyIdentifier(publicKeyBits: Buffer): Buffer {
+    return crypto.createHash('sha1').update(publicKeyBits).digest();
+  }
+
+  private publicKeyBits(subjectPublicKeyInfo: Buffer): Buffer {
+    const [, subjectPublicKey] = der.readChildren(subjectPublicKeyInfo, der.readElement(subjectPublicKeyInfo));
+    return der.elementContent(subjectPublicKeyInfo, subjectPublicKey).subarray(1);
+  }
+
+  private parseCertificate(certificateDer: Buffer): ParsedCertificate {
+    const [tbs] = der.readChildren(certificateDer, der.readElement(certificateDer));
+    const fields = der.readChildren(certificateDer, tbs);
+    // version is an optional [0] before the serial number
+    const [, , issuer, , subject, subjectPublicKeyInfo] = fields[0].tag === 0xa0 ? fields.slice(1) : fields;
+
+    return {
+      issuer: der.rawElement(certificateDer, issuer),
+      subject: der.rawElement(certificateDer, subject),
+      subjectPublicKeyInfo: der.rawElement(certificateDer, subjectPublicKeyInfo),
+    };
+  }
+
+  private readName(buffer: Buffer, name: der.DerElement): Record<string, string> {
+    const attributes: Record<string, string> = {};
+
+    for (const rdn of der.readChildren(buffer, name)) {
+      for (const attribute of der.readChildren(buffer, rdn)) {
+        const [type, value] = der.readChildren(buffer, attribute);
+        attributes[der.decodeOid(der.elementContent(buffer, type))] = der.elementContent(buffer, value).toString('utf8');
+      }
+    }
+
+    return attributes;
+  }
+}
@@ -0,0 +1,191 @@
+import { X509Certificate } from 'crypto';
+import { CertificateStatus, ChargePointCertificate, Prisma } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import { CertificateAuthority } from './certificate-authority';
+import {
+  CertificateHashData,
+  CertificateSignedResponse,
+  CertificateUseType,
+  DeleteCertificateResponse,
+  GetInstalledCertificateIdsResponse,
+  InstallCertificateResponse,
+  SecurityEventNotificationRequest,
+  SignCertificateRequest,
+  SignCertificateResponse
+} from '../types/ocpp_types';
+
+const installStatus: Record<InstallCertificateResponse['status'], CertificateStatus> = {
+  Accepted: CertificateStatus.ACCEPTED,
+  Rejected: CertificateStatus.REJECTED,
+  Failed: CertificateStatus.FAILED,
+};
+
+/**
+ * OCPP 1.6 security extension: charge point certificates signed by the
+ * CertificateAuthority, root certificates installed on charge points and
+ * security events reported by them.
+ */
+export class CertificateService {
+  private logger = Logger.getInstance();
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer,
+    private certificateAuthority: CertificateAuthority
+  ) {}
+
+  /**
+   * Accept a CSR whose CN is the id the charge point connected with and send
+   * the signed certificate with CertificateSigned once we have answered. The
+   * serial number is not accepted: it is whatever the charge point reports.
+   */
+  public async handleSignCertificate(chargePointId: string, request: SignCertificateRequest): Promise<SignCertificateResponse> {
+    let commonName: string | undefined;
+    try {
+      commonName = this.certificateAuthority.parseCsr(request.csr).commonName;
+    } catch (error: any) {
+      this.logger.warn(`🔐 SignCertificate from ${chargePointId} rejected: ${error.message}`);
+      return { status: 'Rejected' };
+    }
+
+    if (commonName !== chargePointId) {
+      this.logger.warn(`🔐 SignCertificate from ${chargePointId} rejected: CN ${commonName ?? '-'} does not identify the charge point`);
+      return { status: 'Rejected' };
+    }
+
+    const record = await this.db.createChargePointCertificate({
+      chargePointId,
+      certificateType: 'ChargePointCertificate',
+      commonName,
+      csr: request.csr,
+    });
+
+    setImmediate(() => {
+      this.issueCertificate(record).catch((error) => {
+        this.logger.error(`Failed to issue certificate ${record.id} for ${chargePointId}:`, error);
+      });
+    });
+
+    return { status: 'Accepted' };
+  }
+
+  public async installCertificate(
+    chargePointId: string,
+    certificateType: CertificateUseType,
+    certificatePem: string,
+    requestedBy?: string
+  ): Promise<ChargePointCertificate> {
+    let certificate: X509Certificate;
+    try {
+      certificate = new X509Certificate(certificatePem);
+    } catch {
+      throw new Error('Certificate is not a valid PEM X.509 certificate');
+    }
+
+    const record = await this.db.createChargePointCertificate({
+      chargePointId,
+      certificateType,
+      certificate: certificatePem,
+      requestedBy,
+      ...this.describe(certificate),
+      // Only known for self-signed roots; otherwise take it from GetInstalledCertificateIds
+      ...(certificate.checkIssued(certificate) && {
+        hashData: this.certificateAuthority.computeHashData(certificatePem) as unknown as Prisma.InputJsonValue,
+      }),
+    });
+
+    let status: CertificateStatus;
+    let lastError: string | undefined;
+    try {
+      const response: InstallCertificateResponse = await this.ocppServer.sendMessage(chargePointId, 'InstallCertificate', {
+        certificateType,
+        certificate: certificatePem,
+      });
+      status = installStatus[response?.status] ?? CertificateStatus.FAILED;
+    } catch (error: any) {
+      status = CertificateStatus.FAILED;
+      lastError = error.message;
+    }
+
+    this.logger.info(`🔐 InstallCertificate ${certificateType} on ${chargePointId} → ${status}`);
+    return this.db.updateChargePointCertificate(record.id, { status, lastError });
+  }
+
+  public async getInstalledCertificateIds(
+    chargePointId: string,
+    certificateType: CertificateUseType
+  ): Promise<GetInstalledCertificateIdsResponse> {
+    return this.ocppServer.sendMessage(chargePointId, 'GetInstalledCertificateIds', { certificateType });
+  }
+
+  public async deleteCertificate(chargePointId: string, certificateHashData: CertificateHashData): Promise<DeleteCertificateResponse> {
+    const response: DeleteCertificateResponse = await this.ocppServer.sendMessage(chargePointId, 'DeleteCertificate', {
+      certificateHashData,
+    });
+
+    if (response?.status === 'Accepted') {
+      await this.db.markChargePointCertificatesDeleted(chargePointId, certificateHashData.serialNumber.toLowerCase());
+    }
+
+    this.logger.info(`🔐 DeleteCertificate ${certificateHashData.serialNumber} on ${chargePointId} → ${response?.status}`);
+    return response;
+  }
+
+  public async handleSecurityEvent(chargePointId: string, request: SecurityEventNotificationRequest): Promise<void> {
+    await this.db.createSecurityEvent({
+      chargePointId,
+      type: request.type,
+      timestamp: new Date(request.timestamp),
+      techInfo: request.techInfo,
+    });
+
+    this.logger.warn(`🛡️ Security event ${request.type} from ${chargePointId}${request.techInfo ? `: ${request.techInfo}` : ''}`);
+  }
+
+  private async issueCertificate(record: ChargePointCertificate): Promise<void> {
+    let certificatePem: string;
+    try {
+      certificatePem = this.certificateAuthority.signCsr(record.csr!);
+    } catch (error: any) {
+      await this.db.updateChargePointCertificate(record.id, { status: CertificateStatus.FAILED, lastError: error.message });
+      return;
+    }
+
+    const caPem = this.certificateAuthority.getCertificatePem();
+    await this.db.updateChargePointCertificate(record.id, {
+      certificate: certificatePem,
+      hashData: this.certificateAuthority.computeHashData(certificatePem, caPem) as unknown as Prisma.InputJsonValue,
+      ...this.describe(new X509Certificate(certificatePem)),
+    });
+
+    // Chargers only hold our root, so an intermediate CA has to travel with the leaf
+    const certificateChain = this.certificateAuthority.isSelfSigned() ? certificatePem : certificatePem + caPem;
+
+    let status: CertificateStatus;
+    let lastError: string | undefined;
+    try {
+      const response: CertificateSignedResponse = await this.ocppServer.sendMessage(record.chargePointId, 'CertificateSigned', {
+        certificateChain,
+      });
+      status = response?.status === 'Accepted' ? CertificateStatus.ACCEPTED : CertificateStatus.REJECTED;
+    } catch (error: any) {
+      status = CertificateStatus.FAILED;
+      lastError = error.message;
+    }
+
+    await this.db.updateChargePointCertificate(record.id, { status, lastError });
+    this.logger.info(`🔐 CertificateSigned for ${record.chargePointId} → ${status}`);
+  }
+
+  private describe(certificate: X509Certificate) {
+    return {
+      commonName: certificate.subject.match(/^CN=(.*)$/m)?.[1],
+      serialNumber: certificate.serialNumber.replace(/^0+(?=.)/, '').toLowerCase(),
+      fingerprint: certificate.fingerprint256,
+      validFrom: new Date(certificate.validFrom),
+      validTo: new Date(certificate.validTo),
+    };
+  }
+}
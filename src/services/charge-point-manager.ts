@@ -1,10 +1,28 @@
+import os from 'os';
 import { Logger } from '../Utils/logger';
 import { DatabaseService } from '../services/database';
 import { RedisService } from '../services/redis';
 import { ChargePointConnection, ChargePointStatus } from '../types/ocpp_types';
 
+// Owner keys of a crashed instance expire after this
+const OWNER_TTL_SECONDS = parseInt(process.env.OCPP_OWNER_TTL_SECONDS || '90');
+
+// Extend or delete the owner key only while this instance holds it
+const REFRESH_OWNER_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_OWNER_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
 export class ChargePointManager {
   private logger = Logger.getInstance();
+  // Identifies this replica in the owner keys, the pod name in Kubernetes
+  public readonly instanceId = process.env.OCPP_INSTANCE_ID || `${os.hostname()}-${process.pid}`;
   
   constructor(
     private db: DatabaseService,
@@ -12,14 +30,17 @@ export class ChargePointManager {
   ) {}
 
   /**
-   * Register a new charge point connection
+   * Register a new charge point connection and record this instance as the
+   * one holding its socket. Returns the instance that held it before, if any.
    */
-  public async registerChargePoint(chargePointId: string, connection: ChargePointConnection): Promise<void> {
+  public async registerChargePoint(chargePointId: string, connection: ChargePointConnection): Promise<string | null> {
     try {
+      const previousOwner = await this.redis.setAndGet(this.ownerKey(chargePointId), this.instanceId, OWNER_TTL_SECONDS);
       await this.db.updateChargePointStatus(chargePointId, true);
 
       const payload = {
         id: chargePointId,
+        instanceId: this.instanceId,
         connectedAt: new Date(),
         isAlive: connection.isAlive,
         lastSeen: connection.lastSeen,
@@ -33,16 +54,25 @@ export class ChargePointManager {
       );
 
       this.logger.info(`Charge point ${chargePointId} registered successfully`);
+      return previousOwner;
     } catch (error) {
       this.logger.error(`Error registering charge point ${chargePointId}:`, error);
+      return null;
     }
   }
 
   /**
-   * Unregister a charge point
+   * Unregister a charge point. Nothing changes when it has reconnected to
+   * another instance in the meantime.
    */
   public async unregisterChargePoint(chargePointId: string): Promise<void> {
     try {
+      if (await this.isOwnedElsewhere(chargePointId)) {
+        this.logger.info(`Charge point ${chargePointId} is now held by another instance, keeping its state`);
+        return;
+      }
+
+      await this.redis.eval(RELEASE_OWNER_SCRIPT, [this.ownerKey(chargePointId)], [this.instanceId]);
       await this.db.updateChargePointStatus(chargePointId, false);
       await this.redis.del(`connection:${chargePointId}`);
       
@@ -52,6 +82,48 @@ export class ChargePointManager {
     }
   }
 
+  /**
+   * Instance holding the socket of a charge point, null when it is offline
+   */
+  public async getOwner(chargePointId: string): Promise<string | null> {
+    return this.redis.get(this.ownerKey(chargePointId));
+  }
+
+  public async isOwnedElsewhere(chargePointId: string): Promise<boolean> {
+    const owner = await this.getOwner(chargePointId);
+    return owner !== null && owner !== this.instanceId;
+  }
+
+  /**
+   * Charge points connected to any instance
+   */
+  public async getOwnedChargePoints(): Promise<string[]> {
+    const keys = await this.redis.scanKeys(this.ownerKey('*'));
+    return keys.map((key) => key.slice(this.ownerKey('').length));
+  }
+
+  /**
+   * Keep the owner keys of the locally connected charge points alive
+   */
+  public async refreshOwnership(chargePointIds: string[]): Promise<void> {
+    for (const chargePointId of chargePointIds) {
+      const refreshed = await this.redis.eval(
+        REFRESH_OWNER_SCRIPT,
+        [this.ownerKey(chargePointId)],
+        [this.instanceId, String(OWNER_TTL_SECONDS)]
+      );
+      if (refreshed) continue;
+
+      // Expired while Redis was unreachable; another owner means the charge point moved
+      const owner = await this.getOwner(chargePointId);
+      if (owner === null) {
+        await this.redis.set(this.ownerKey(chargePointId), this.instanceId, OWNER_TTL_SECONDS);
+      } else {
+        this.logger.warn(`Charge point ${chargePointId} is connected here but owned by ${owner}`);
+      }
+    }
+  }
+
   /**
    * Get full connection + connector status
    */
@@ -103,4 +175,8 @@ export class ChargePointManager {
       this.logger.error(`Error updating connector ${connectorId} of charge point ${chargePointId}:`, error);
     }
   }
+
+  private ownerKey(chargePointId: string): string {
+    return `ocpp:owner:${chargePointId}`;
+  }
 }
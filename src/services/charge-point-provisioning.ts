@@ -0,0 +1,251 @@
+import { ChargePoint, RegistrationStatus } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import { BootNotificationResponse, ChangeConfigurationResponse } from '../types/ocpp_types';
+
+// Identities end up in URLs, Redis keys and Basic auth usernames
+const CHARGE_POINT_ID_PATTERN = /^[A-Za-z0-9._-]{1,48}$/;
+
+const DEFAULT_HEARTBEAT_INTERVAL = 300;
+// How long a charger waits before sending BootNotification again
+const PENDING_RETRY_INTERVAL = parseInt(process.env.OCPP_PENDING_BOOT_INTERVAL || '60');
+const REJECTED_RETRY_INTERVAL = 3600;
+
+const statusToOCPP: Record<RegistrationStatus, BootNotificationResponse['status']> = {
+  [RegistrationStatus.PENDING]: 'Pending',
+  [RegistrationStatus.ACCEPTED]: 'Accepted',
+  [RegistrationStatus.REJECTED]: 'Rejected',
+};
+
+export type ProvisioningMode = 'whitelist' | 'approval';
+
+export interface BootRegistration {
+  status: BootNotificationResponse['status'];
+  interval: number;
+  // Registration status for a charge point that is not in the database yet
+  registrationStatus: RegistrationStatus;
+}
+
+/**
+ * Decides which charge points may connect and how their BootNotification is
+ * answered. Charge points already in the database are always allowed to
+ * connect; unknown ones only when they match OCPP_ALLOWED_CHARGE_POINT_IDS,
+ * a comma separated list of ids where `*` matches any run of characters
+ * (e.g. `CP-*,DEMO01`).
+ *
+ * With OCPP_PROVISIONING_MODE=approval any unknown charge point may connect,
+ * but only those matching the list are accepted straight away; the others
+ * get Pending until an admin approves them. Blocked serial numbers are
+ * Rejected in both modes.
+ */
+export class ChargePointProvisioning {
+  private logger = Logger.getInstance();
+  private readonly allowedPatterns: RegExp[];
+  private readonly mode: ProvisioningMode = process.env.OCPP_PROVISIONING_MODE === 'approval' ? 'approval' : 'whitelist';
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {
+    this.allowedPatterns = (process.env.OCPP_ALLOWED_CHARGE_POINT_IDS || '')
+      .split(',')
+      .map((pattern) => pattern.trim())
+      .filter(Boolean)
+      .map((pattern) => new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`));
+  }
+
+  public getMode(): ProvisioningMode {
+    return this.mode;
+  }
+
+  public isValidChargePointId(chargePointId: string): boolean {
+    return CHARGE_POINT_ID_PATTERN.test(chargePointId);
+  }
+
+  public async isConnectionAllowed(chargePointId: string): Promise<boolean> {
+    // Registered charge points keep connecting whatever their id looks like
+    if (await this.db.getChargePoint(chargePointId)) {
+      return true;
+    }
+
+    if (!this.isValidChargePointId(chargePointId)) {
+      return false;
+    }
+
+    const allowed = this.mode === 'approval' || this.isWhitelisted(chargePointId);
+    if (allowed) {
+      this.logger.info(`🆕 Unknown charge point ${chargePointId} allowed by provisioning rules`);
+    }
+    return allowed;
+  }
+
+  /**
+   * Work out the BootNotification answer. The heartbeat interval of accepted
+   * charge points comes from the defaults of their model when there are any.
+   */
+  public async evaluateBoot(
+    chargePointId: string,
+    boot: { vendor: string; model: string; serialNumber?: string }
+  ): Promise<BootRegistration> {
+    const blocked = boot.serialNumber ? await this.db.getBlockedSerialNumber(boot.serialNumber) : null;
+    if (blocked) {
+      this.logger.warn(`⛔ BootNotification from ${chargePointId} rejected: serial ${boot.serialNumber} is blocked`);
+      return this.registration(RegistrationStatus.REJECTED);
+    }
+
+    const chargePoint = await this.db.getChargePoint(chargePointId);
+    const registrationStatus = chargePoint?.registrationStatus
+      ?? (this.mode === 'approval' && !this.isWhitelisted(chargePointId) ? RegistrationStatus.PENDING : RegistrationStatus.ACCEPTED);
+
+    if (registrationStatus !== RegistrationStatus.ACCEPTED) {
+      this.logger.info(`⏳ BootNotification from ${chargePointId} → ${statusToOCPP[registrationStatus]}`);
+      return this.registration(registrationStatus);
+    }
+
+    const defaults = await this.db.getChargePointModelDefault(boot.vendor, boot.model);
+    return this.registration(registrationStatus, defaults?.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL);
+  }
+
+  /**
+   * Push the model defaults the first time an approved charge point is
+   * accepted, when it was not connected at approval time
+   */
+  public async onBoot(chargePointId: string): Promise<void> {
+    const chargePoint = await this.db.getChargePoint(chargePointId);
+    if (!chargePoint?.reviewedAt || chargePoint.defaultsAppliedAt || chargePoint.registrationStatus !== RegistrationStatus.ACCEPTED) {
+      return;
+    }
+
+    await this.applyModelDefaults(chargePoint);
+  }
+
+  public async getPendingChargePoints(): Promise<ChargePoint[]> {
+    return this.db.getChargePointsByRegistrationStatus(RegistrationStatus.PENDING);
+  }
+
+  /**
+   * Accept a charge point. When it is connected the model defaults are sent
+   * right away (a Pending charger may be configured) and a BootNotification
+   * is triggered so it does not have to wait for its retry interval.
+   */
+  public async approve(chargePointId: string, approvedBy?: string): Promise<{
+    chargePoint: ChargePoint;
+    configuration: { key: string; status: string }[];
+    bootTriggered: boolean;
+  }> {
+    const existing = await this.db.getChargePoint(chargePointId);
+    if (!existing) {
+      throw new Error(`Charge point ${chargePointId} not found`);
+    }
+
+    const chargePoint = await this.db.setChargePointRegistrationStatus(chargePointId, RegistrationStatus.ACCEPTED, approvedBy);
+    this.logger.info(`✅ Charge point ${chargePointId} approved by ${approvedBy ?? 'system'}`);
+
+    if (!(await this.ocppServer.isChargePointConnected(chargePointId))) {
+      return { chargePoint, configuration: [], bootTriggered: false };
+    }
+
+    const configuration = await this.applyModelDefaults(chargePoint);
+    const bootTriggered = await this.triggerBootNotification(chargePointId);
+
+    return { chargePoint, configuration, bootTriggered };
+  }
+
+  /**
+   * Reject a charge point, optionally blocking its serial number so it is
+   * also rejected under another id
+   */
+  public async reject(
+    chargePointId: string,
+    options: { blockSerialNumber?: boolean; reason?: string; rejectedBy?: string } = {}
+  ): Promise<ChargePoint> {
+    const existing = await this.db.getChargePoint(chargePointId);
+    if (!existing) {
+      throw new Error(`Charge point ${chargePointId} not found`);
+    }
+
+    if (options.blockSerialNumber) {
+      if (!existing.serialNumber) {
+        throw new Error(`Charge point ${chargePointId} did not report a serial number`);
+      }
+      await this.db.blockSerialNumber(existing.serialNumber, options.reason, options.rejectedBy);
+    }
+
+    const chargePoint = await this.db.setChargePointRegistrationStatus(chargePointId, RegistrationStatus.REJECTED, options.rejectedBy);
+    this.logger.warn(`⛔ Charge point ${chargePointId} rejected by ${options.rejectedBy ?? 'system'}`);
+
+    if (await this.ocppServer.isChargePointConnected(chargePointId)) {
+      await this.triggerBootNotification(chargePointId);
+    }
+
+    return chargePoint;
+  }
+
+  // Charge points already registered with the serial are rejected as well
+  public async blockSerialNumber(serialNumber: string, reason?: string, blockedBy?: string) {
+    const blocked = await this.db.blockSerialNumber(serialNumber, reason, blockedBy);
+    const rejected = await this.db.rejectChargePointsBySerialNumber(serialNumber, blockedBy);
+
+    this.logger.warn(`⛔ Serial number ${serialNumber} blocked${rejected > 0 ? `, ${rejected} charge point(s) rejected` : ''}`);
+    return blocked;
+  }
+
+  private async applyModelDefaults(chargePoint: ChargePoint): Promise<{ key: string; status: string }[]> {
+    const defaults = await this.db.getChargePointModelDefault(chargePoint.vendor, chargePoint.model);
+    if (!defaults) {
+      await this.db.setChargePointDefaultsApplied(chargePoint.id);
+      return [];
+    }
+
+    const settings: Record<string, string> = {
+      ...(defaults.heartbeatInterval && { HeartbeatInterval: String(defaults.heartbeatInterval) }),
+      ...(defaults.configuration as Record<string, string> | null),
+    };
+
+    const results: { key: string; status: string }[] = [];
+    for (const [key, value] of Object.entries(settings)) {
+      try {
+        const response: ChangeConfigurationResponse = await this.ocppServer.sendMessage(
+          chargePoint.id,
+          'ChangeConfiguration',
+          { key, value: String(value) }
+        );
+        results.push({ key, status: response?.status ?? 'Unknown' });
+      } catch (error: any) {
+        results.push({ key, status: `Error: ${error.message}` });
+      }
+    }
+
+    await this.db.setChargePointDefaultsApplied(chargePoint.id);
+    this.logger.info(`⚙️ Model defaults of ${chargePoint.vendor} ${chargePoint.model} pushed to ${chargePoint.id}:`, results);
+
+    return results;
+  }
+
+  private async triggerBootNotification(chargePointId: string): Promise<boolean> {
+    try {
+      const response = await this.ocppServer.sendMessage(chargePointId, 'TriggerMessage', { requestedMessage: 'BootNotification' });
+      return response?.status === 'Accepted';
+    } catch (error: any) {
+      this.logger.warn(`⚠️ TriggerMessage BootNotification failed for ${chargePointId}: ${error.message}`);
+      return false;
+    }
+  }
+
+  private registration(registrationStatus: RegistrationStatus, heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL): BootRegistration {
+    const interval = {
+      [RegistrationStatus.ACCEPTED]: heartbeatInterval,
+      [RegistrationStatus.PENDING]: PENDING_RETRY_INTERVAL,
+      [RegistrationStatus.REJECTED]: REJECTED_RETRY_INTERVAL,
+    }[registrationStatus];
+
+    return { status: statusToOCPP[registrationStatus], interval, registrationStatus };
+  }
+
+  private isWhitelisted(chargePointId: string): boolean {
+    return this.allowedPatterns.some((pattern) => pattern.test(chargePointId));
+  }
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,207 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import fs from 'fs';
+import { IncomingMessage } from 'http';
+import { ServerOptions as HttpsServerOptions } from 'https';
+import { TLSSocket } from 'tls';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import { ChangeConfigurationResponse } from '../types/ocpp_types';
+
+export interface ConnectionAuthResult {
+  allowed: boolean;
+  statusCode?: number;
+  reason?: string;
+}
+
+/**
+ * TLS material for Security Profiles 2 and 3, read from OCPP_TLS_CERT_PATH
+ * and OCPP_TLS_KEY_PATH (PEM). OCPP_TLS_CA_PATH adds the intermediate chain.
+ * Client certificates are requested and checked against
+ * OCPP_TLS_CLIENT_CA_PATH, or the given CA certificate; clients without one
+ * are still let through so the API and lower profiles keep working.
+ * Returns undefined when TLS is not configured.
+ */
+export const loadTlsOptions = (clientCaPem?: string): HttpsServerOptions | undefined => {
+  const certPath = process.env.OCPP_TLS_CERT_PATH;
+  const keyPath = process.env.OCPP_TLS_KEY_PATH;
+  if (!certPath || !keyPath) return undefined;
+
+  const clientCa = process.env.OCPP_TLS_CLIENT_CA_PATH
+    ? fs.readFileSync(process.env.OCPP_TLS_CLIENT_CA_PATH, 'utf8')
+    : clientCaPem;
+  const ca = [
+    ...(process.env.OCPP_TLS_CA_PATH ? [fs.readFileSync(process.env.OCPP_TLS_CA_PATH, 'utf8')] : []),
+    ...(clientCa ? [clientCa] : []),
+  ];
+
+  return {
+    cert: fs.readFileSync(certPath),
+    key: fs.readFileSync(keyPath),
+    ...(ca.length > 0 && { ca }),
+    ...(process.env.OCPP_TLS_KEY_PASSPHRASE && { passphrase: process.env.OCPP_TLS_KEY_PASSPHRASE }),
+    ...(clientCa && { requestCert: true, rejectUnauthorized: false }),
+    // OCPP 1.6 security whitepaper: TLS 1.2 or higher
+    minVersion: 'TLSv1.2',
+  };
+};
+
+/**
+ * OCPP 1.6 Security Profiles 1 to 3. The profile of a charge point is the
+ * higher of its own setting and OCPP_MIN_SECURITY_PROFILE. Profile 3 needs
+ * TLS terminated by this server, a proxy cannot pass the client certificate on.
+ */
+export class ChargePointSecurity {
+  private logger = Logger.getInstance();
+  private readonly minimumSecurityProfile = parseInt(process.env.OCPP_MIN_SECURITY_PROFILE || '0');
+  // Set when TLS is terminated by a reverse proxy that sets X-Forwarded-Proto
+  private readonly trustProxy = process.env.OCPP_TRUST_PROXY === 'true';
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  public async authenticate(chargePointId: string, request: IncomingMessage): Promise<ConnectionAuthResult> {
+    const security = await this.db.getChargePointSecurity(chargePointId);
+    const securityProfile = Math.max(security?.securityProfile ?? 0, this.minimumSecurityProfile);
+
+    if (securityProfile === 0) {
+      return { allowed: true };
+    }
+
+    if (securityProfile >= 2 && !this.isSecureRequest(request)) {
+      return { allowed: false, statusCode: 403, reason: 'TLS required' };
+    }
+
+    if (securityProfile >= 3) {
+      return this.verifyClientCertificate(chargePointId, request);
+    }
+
+    const credentials = this.parseBasicAuth(request.headers.authorization);
+    if (!credentials) {
+      return { allowed: false, statusCode: 401, reason: 'Basic authentication required' };
+    }
+
+    if (credentials.username !== chargePointId || !security?.authorizationKeyHash) {
+      return { allowed: false, statusCode: 401, reason: 'Invalid credentials' };
+    }
+
+    // The key is configured as hex; some chargers send it as hex text, others as the raw bytes
+    const candidates = [credentials.password.toString('utf8'), credentials.password.toString('hex')];
+    for (const candidate of candidates) {
+      if (await bcrypt.compare(candidate, security.authorizationKeyHash)) {
+        return { allowed: true };
+      }
+    }
+
+    return { allowed: false, statusCode: 401, reason: 'Invalid credentials' };
+  }
+
+  /**
+   * Send a new AuthorizationKey with ChangeConfiguration and store its hash
+   * once the charge point accepts it. Without a key one is generated. The
+   * key is only returned here and cannot be read back later.
+   */
+  public async rotateAuthorizationKey(
+    chargePointId: string,
+    options: { authorizationKey?: string; requestedBy?: string } = {}
+  ): Promise<{ status: string; authorizationKey?: string }> {
+    if (!(await this.ocppServer.isChargePointConnected(chargePointId))) {
+      throw new Error(`Charge point ${chargePointId} is not connected`);
+    }
+
+    const authorizationKey = options.authorizationKey ?? crypto.randomBytes(20).toString('hex');
+
+    const response: ChangeConfigurationResponse = await this.ocppServer.sendMessage(
+      chargePointId,
+      'ChangeConfiguration',
+      { key: 'AuthorizationKey', value: authorizationKey }
+    );
+
+    if (response?.status !== 'Accepted') {
+      this.logger.warn(`🔑 AuthorizationKey rotation on ${chargePointId} → ${response?.status}`);
+      return { status: response?.status ?? 'Unknown' };
+    }
+
+    await this.db.setChargePointAuthorizationKeyHash(chargePointId, await bcrypt.hash(authorizationKey, 12), options.requestedBy);
+    this.logger.info(`🔑 AuthorizationKey rotated on ${chargePointId}`);
+
+    return { status: response.status, authorizationKey };
+  }
+
+  /**
+   * Record settings that were configured on the charge point out of band,
+   * e.g. a factory installed AuthorizationKey
+   */
+  public async updateSettings(
+    chargePointId: string,
+    settings: { securityProfile?: number; authorizationKey?: string; requestedBy?: string }
+  ): Promise<{ securityProfile: number; hasAuthorizationKey: boolean }> {
+    const chargePoint = await this.db.getChargePoint(chargePointId);
+    if (!chargePoint) {
+      throw new Error(`Charge point ${chargePointId} not found`);
+    }
+
+    if (settings.authorizationKey !== undefined) {
+      await this.db.setChargePointAuthorizationKeyHash(chargePointId, await bcrypt.hash(settings.authorizationKey, 12), settings.requestedBy);
+    }
+
+    const security = await this.db.getChargePointSecurity(chargePointId);
+    const securityProfile = settings.securityProfile ?? security?.securityProfile ?? 0;
+
+    // Profile 3 authenticates with the client certificate instead
+    if (securityProfile > 0 && securityProfile < 3 && !security?.authorizationKeyHash) {
+      throw new Error(`Security profile ${securityProfile} needs an AuthorizationKey for ${chargePointId}`);
+    }
+
+    if (settings.securityProfile !== undefined) {
+      await this.db.setChargePointSecurityProfile(chargePointId, settings.securityProfile);
+    }
+
+    this.logger.info(`🔑 Security settings of ${chargePointId} updated (profile ${securityProfile})`);
+    return { securityProfile, hasAuthorizationKey: !!security?.authorizationKeyHash };
+  }
+
+  // The certificate CN must be the charge point id; reported serial numbers are not unique
+  private verifyClientCertificate(chargePointId: string, request: IncomingMessage): ConnectionAuthResult {
+    const socket = request.socket as TLSSocket;
+    if (!socket.encrypted) {
+      return { allowed: false, statusCode: 403, reason: 'Client certificate required' };
+    }
+    if (!socket.authorized) {
+      return { allowed: false, statusCode: 403, reason: `Client certificate rejected: ${socket.authorizationError ?? 'none presented'}` };
+    }
+
+    const commonName = socket.getPeerCertificate()?.subject?.CN;
+    if (commonName !== chargePointId) {
+      return { allowed: false, statusCode: 403, reason: `Client certificate CN ${commonName} does not match` };
+    }
+
+    return { allowed: true };
+  }
+
+  private isSecureRequest(request: IncomingMessage): boolean {
+    if ((request.socket as TLSSocket).encrypted) return true;
+
+    const forwardedProto = request.headers['x-forwarded-proto'];
+    const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0].trim();
+    return this.trustProxy && proto === 'https';
+  }
+
+  // Returns the password as bytes; the OCPP key is not required to be text
+  private parseBasicAuth(header?: string): { username: string; password: Buffer } | null {
+    const match = header?.match(/^Basic\s+([A-Za-z0-9+/=]+)\s*$/i);
+    if (!match) return null;
+
+    const decoded = Buffer.from(match[1], 'base64');
+    const separator = decoded.indexOf(':');
+    if (separator < 0) return null;
+
+    return {
+      username: decoded.subarray(0, separator).toString('utf8'),
+      password: decoded.subarray(separator + 1),
+    };
+  }
+}
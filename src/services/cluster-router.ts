@@ -0,0 +1,253 @@
+import { RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../Utils/logger';
+import { RedisService } from './redis';
+import { ChargePointManager } from './charge-point-manager';
+import { OCPPServer, TriggeredMessage } from './ocpp_server';
+import { CallOptions } from './outbound-call-queue';
+import { TriggerMessageType } from '../types/ocpp_types';
+
+interface RoutedCall {
+  type: 'call';
+  requestId: string;
+  replyTo: string;
+  chargePointId: string;
+  action: string;
+  payload: any;
+  options: CallOptions;
+}
+
+// TriggerMessage has to wait where the charge point's messages arrive
+interface RoutedTrigger {
+  type: 'trigger';
+  requestId: string;
+  replyTo: string;
+  chargePointId: string;
+  requestedMessage: TriggerMessageType;
+  connectorId?: number;
+}
+
+interface RoutedResult {
+  type: 'result';
+  requestId: string;
+  response?: any;
+  error?: string;
+}
+
+// The charge point connected to another instance, the old socket has to go
+interface Eviction {
+  type: 'evict';
+  chargePointId: string;
+  owner: string;
+}
+
+type ClusterMessage = RoutedCall | RoutedTrigger | RoutedResult | Eviction;
+
+/**
+ * Lets any replica send commands to any charge point. The instance holding
+ * the socket is looked up in Redis (see ChargePointManager) and the command
+ * is published on that instance's channel; it runs the call through its own
+ * outbound queue and publishes the answer back on the caller's channel.
+ *
+ * Routed calls give up after OCPP_CLUSTER_CALL_TIMEOUT_MS (120 s), which
+ * covers the time a call may wait in the owner's queue and the wait for a
+ * triggered message.
+ */
+export class ClusterRouter {
+  private logger = Logger.getInstance();
+  private subscriber?: RedisClientType;
+  private refreshTimer?: NodeJS.Timeout;
+  private pending = new Map<string, { resolve: (value: any) => void; reject: (reason?: any) => void; timer: NodeJS.Timeout }>();
+  private readonly callTimeout = parseInt(process.env.OCPP_CLUSTER_CALL_TIMEOUT_MS || '120000');
+  private readonly refreshInterval = parseInt(process.env.OCPP_OWNER_REFRESH_MS || '30000');
+
+  constructor(
+    private redis: RedisService,
+    private chargePointManager: ChargePointManager,
+    private ocppServer: OCPPServer
+  ) {}
+
+  public async start(): Promise<void> {
+    if (this.subscriber) return;
+
+    this.subscriber = await this.redis.createSubscriber();
+    await this.subscriber.subscribe(this.channel(this.chargePointManager.instanceId), (message) => {
+      this.onMessage(message);
+    });
+
+    this.refreshTimer = setInterval(() => {
+      this.chargePointManager.refreshOwnership(this.ocppServer.getConnectedChargePoints()).catch((error) => {
+        this.logger.error('Error refreshing charge point ownership:', error);
+      });
+    }, this.refreshInterval);
+
+    this.logger.info(`🛰️ Cluster routing active as instance ${this.chargePointManager.instanceId}`);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+
+    for (const requestId of Array.from(this.pending.keys())) {
+      this.settle(requestId, { error: 'Instance shutting down' });
+    }
+
+    if (this.subscriber) {
+      await this.subscriber.disconnect().catch(() => undefined);
+      this.subscriber = undefined;
+    }
+  }
+
+  /**
+   * Send a command to a charge point connected to another instance
+   */
+  public async route(chargePointId: string, action: string, payload: any, options: CallOptions = {}): Promise<any> {
+    return this.request(chargePointId, action, (requestId) => ({
+      type: 'call',
+      requestId,
+      replyTo: this.chargePointManager.instanceId,
+      chargePointId,
+      action,
+      payload,
+      options,
+    }));
+  }
+
+  /**
+   * Run TriggerMessage, including the wait for the requested message, on the
+   * instance holding the charge point
+   */
+  public async routeTrigger(
+    chargePointId: string,
+    requestedMessage: TriggerMessageType,
+    connectorId?: number
+  ): Promise<Awaited<ReturnType<OCPPServer['triggerMessage']>>> {
+    const result = await this.request(chargePointId, 'TriggerMessage', (requestId) => ({
+      type: 'trigger',
+      requestId,
+      replyTo: this.chargePointManager.instanceId,
+      chargePointId,
+      requestedMessage,
+      connectorId,
+    }));
+
+    return {
+      status: result.status,
+      messages: result.messages.map((message: TriggeredMessage) => ({ ...message, receivedAt: new Date(message.receivedAt) })),
+    };
+  }
+
+  // Ask the instance that held the charge point before to close its socket
+  public async evict(chargePointId: string, previousOwner: string): Promise<void> {
+    await this.publish(previousOwner, {
+      type: 'evict',
+      chargePointId,
+      owner: this.chargePointManager.instanceId,
+    });
+  }
+
+  private async request(
+    chargePointId: string,
+    action: string,
+    build: (requestId: string) => RoutedCall | RoutedTrigger
+  ): Promise<any> {
+    const owner = await this.chargePointManager.getOwner(chargePointId);
+    if (!owner || owner === this.chargePointManager.instanceId) {
+      throw new Error(`Charge point ${chargePointId} not connected`);
+    }
+
+    const requestId = uuidv4();
+    const message = build(requestId);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(requestId, { error: `Timeout waiting for instance ${owner} to answer ${action} for ${chargePointId}` });
+      }, this.callTimeout);
+      this.pending.set(requestId, { resolve, reject, timer });
+
+      this.logger.debug(`🛰️ Routing ${action} for ${chargePointId} to instance ${owner}`);
+      this.publish(owner, message)
+        .then((receivers) => {
+          if (receivers === 0) {
+            this.settle(requestId, { error: `Instance ${owner} holding ${chargePointId} is not reachable` });
+          }
+        })
+        .catch((error) => {
+          this.settle(requestId, { error: `Routing ${action} to ${chargePointId} failed: ${error.message}` });
+        });
+    });
+  }
+
+  private onMessage(raw: string): void {
+    let message: ClusterMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.logger.warn('⚠️ Ignoring unparseable cluster message');
+      return;
+    }
+
+    switch (message.type) {
+      case 'call':
+      case 'trigger':
+        this.handleRequest(message);
+        break;
+
+      case 'result':
+        this.settle(message.requestId, message);
+        break;
+
+      case 'evict':
+        this.logger.info(`🛰️ ${message.chargePointId} reconnected to instance ${message.owner}, closing the local socket`);
+        this.ocppServer.closeConnection(message.chargePointId, 'Connected to another instance');
+        break;
+    }
+  }
+
+  private async handleRequest(request: RoutedCall | RoutedTrigger): Promise<void> {
+    const action = request.type === 'call' ? request.action : 'TriggerMessage';
+    let result: RoutedResult;
+
+    try {
+      // Only requests for local sockets, so a stale owner key cannot bounce them around
+      if (!this.ocppServer.getConnectedChargePoints().includes(request.chargePointId)) {
+        throw new Error(`Charge point ${request.chargePointId} not connected`);
+      }
+
+      const response = request.type === 'call'
+        ? await this.ocppServer.sendMessage(request.chargePointId, request.action, request.payload, request.options)
+        : await this.ocppServer.triggerMessage(request.chargePointId, request.requestedMessage, request.connectorId);
+      result = { type: 'result', requestId: request.requestId, response };
+    } catch (error: any) {
+      result = { type: 'result', requestId: request.requestId, error: error.message };
+    }
+
+    await this.publish(request.replyTo, result).catch((error) => {
+      this.logger.error(`⚠️ Could not return ${action} result to instance ${request.replyTo}: ${error.message}`);
+    });
+  }
+
+  private settle(requestId: string, result: { response?: any; error?: string }): void {
+    const pending = this.pending.get(requestId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pending.delete(requestId);
+
+    if (result.error !== undefined) {
+      pending.reject(new Error(result.error));
+    } else {
+      pending.resolve(result.response);
+    }
+  }
+
+  private publish(instanceId: string, message: ClusterMessage): Promise<number> {
+    return this.redis.publish(this.channel(instanceId), JSON.stringify(message));
+  }
+
+  private channel(instanceId: string): string {
+    return `ocpp:instance:${instanceId}`;
+  }
+}
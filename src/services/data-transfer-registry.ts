@@ -0,0 +1,83 @@
+import { Logger } from '../Utils/logger';
+import { DataTransferRequest, DataTransferResponse } from '../types/ocpp_types';
+
+export interface DataTransferContext {
+  chargePointId: string;
+  vendorId: string;
+  messageId?: string;
+  data?: string;
+}
+
+export type DataTransferHandler = (context: DataTransferContext) => Promise<DataTransferResponse | void>;
+
+// Handlers registered under this messageId receive every message of the vendor
+export const ANY_MESSAGE_ID = '*';
+
+export class DataTransferRegistry {
+  private logger = Logger.getInstance();
+  // -> key = vendorId, value = handlers keyed by messageId
+  private handlers = new Map<string, Map<string, DataTransferHandler>>();
+
+  public register(vendorId: string, messageId: string, handler: DataTransferHandler): void {
+    const vendorHandlers = this.handlers.get(vendorId) ?? new Map<string, DataTransferHandler>();
+    if (vendorHandlers.has(messageId)) {
+      this.logger.warn(`⚠️ DataTransfer handler for ${vendorId}/${messageId} replaced`);
+    }
+
+    vendorHandlers.set(messageId, handler);
+    this.handlers.set(vendorId, vendorHandlers);
+  }
+
+  public unregister(vendorId: string, messageId?: string): void {
+    if (messageId === undefined) {
+      this.handlers.delete(vendorId);
+      return;
+    }
+
+    const vendorHandlers = this.handlers.get(vendorId);
+    vendorHandlers?.delete(messageId);
+    if (vendorHandlers?.size === 0) {
+      this.handlers.delete(vendorId);
+    }
+  }
+
+  public getRegistered(): { vendorId: string; messageIds: string[] }[] {
+    return Array.from(this.handlers.entries()).map(([vendorId, vendorHandlers]) => ({
+      vendorId,
+      messageIds: Array.from(vendorHandlers.keys()),
+    }));
+  }
+
+  /**
+   * Dispatch an inbound DataTransfer. Unknown vendors and message ids get
+   * the matching OCPP status; a handler that throws rejects the message.
+   */
+  public async handle(chargePointId: string, request: DataTransferRequest): Promise<DataTransferResponse> {
+    const vendorHandlers = this.handlers.get(request.vendorId);
+    if (!vendorHandlers) {
+      this.logger.warn(`DataTransfer from ${chargePointId} with unknown vendorId ${request.vendorId}`);
+      return { status: 'UnknownVendorId' };
+    }
+
+    const handler = (request.messageId !== undefined && vendorHandlers.get(request.messageId))
+      || vendorHandlers.get(ANY_MESSAGE_ID);
+    if (!handler) {
+      this.logger.warn(`DataTransfer from ${chargePointId} with unknown messageId ${request.vendorId}/${request.messageId}`);
+      return { status: 'UnknownMessageId' };
+    }
+
+    try {
+      const response = await handler({
+        chargePointId,
+        vendorId: request.vendorId,
+        messageId: request.messageId,
+        data: request.data,
+      });
+
+      return response ?? { status: 'Accepted' };
+    } catch (error: any) {
+      this.logger.error(`DataTransfer ${request.vendorId}/${request.messageId} from ${chargePointId} failed: ${error.message}`);
+      return { status: 'Rejected' };
+    }
+  }
+}
@@ -1,11 +1,20 @@
 // src/services/database.ts
-import { PrismaClient, Prisma, ChargePoint, Connector, User, Transaction, IdTag, ConnectorStatus, ChargingData, Alarm, Fleet, FleetManager, Vehicle, SystemSettings, SettingsHistory } from '@prisma/client';
+import { PrismaClient, Prisma, ChargePoint, Connector, User, Transaction, IdTag, ConnectorStatus, ChargingData, Alarm, Fleet, FleetManager, Vehicle, SystemSettings, SettingsHistory, Reservation, ReservationStatus, ChargingProfile, ChargingProfileStatus, Site, MeterValue, SampledValue, LocalAuthList, AuthCacheClear, FirmwareVersion, FirmwareRollout, FirmwareUpdate, DiagnosticsRequest, DiagnosticsStatus, BmsSample, MaintenanceWindow, MaintenanceWindowStatus, AvailabilityChange, ChargePointCredential, ChargePointCertificate, CertificateStatus, SecurityEvent, RegistrationStatus, BlockedSerialNumber, ChargePointModelDefault, OcppMessageLog, MessageDirection, PayloadValidation, OfflineCommand, OfflineCommandStatus } from '@prisma/client';
 import { Logger } from '../Utils/logger';
 import { ChargingStationData, ConnectorType, ChargePointStatus, StopReason, CreatedTransactionResult } from '../types/ocpp_types';
 import { UserSecureWithRelations, UserWithRelations } from '../types/userWithRelations';
 import { schemas } from '../middleware/validation';
 import { Console } from 'console';
 
+export interface OcppMessageLogFilters {
+  action?: string;
+  direction?: MessageDirection;
+  uniqueId?: string;
+  from?: Date;
+  to?: Date;
+  errorsOnly?: boolean;
+}
+
 export class DatabaseService {
   private prisma: PrismaClient;
   private logger = Logger.getInstance();
@@ -51,6 +60,8 @@ export class DatabaseService {
     meterType?: string;
     location?: string;
     meterSerialNumber?: string;
+    ocppVersion?: string;
+    registrationStatus?: RegistrationStatus; // Only used when the charge point is created
   }): Promise<ChargePoint> {
     return this.prisma.chargePoint.upsert({
       where: { id: data.id },
@@ -64,6 +75,7 @@ export class DatabaseService {
         meterType: data.meterType,
         meterSerialNumber: data.meterSerialNumber,
         location: data.location,
+        ocppVersion: data.ocppVersion,
         isOnline: true,
         lastSeen: new Date(),
         updatedAt: new Date(),
@@ -79,6 +91,8 @@ export class DatabaseService {
         meterType: data.meterType,
         meterSerialNumber: data.meterSerialNumber,
         location: data.location,
+        ocppVersion: data.ocppVersion,
+        registrationStatus: data.registrationStatus,
         isOnline: true,
         lastSeen: new Date(),
       },
@@ -231,29 +245,36 @@ export class DatabaseService {
 
 
 
+/**
+ * Create a transaction with the next id of transaction_id_seq. Ids taken
+ * outside the sequence (e.g. by the old random allocation) are skipped in
+ * the same database transaction.
+ */
 public async createTransaction(data: {
-  transactionId: number;
   chargePointId: string;
   connectorId: number;
-  idTag: string;
+  idTag?: string; // OCPP 2.0.1 sessions may start before the driver is identified
   meterStart: number;
   startTimestamp: Date;
   reservationId?: number;
   vehicleId?: string
+  ocppTransactionRef?: string;
 }): Promise<CreatedTransactionResult> { // <-- Updated return type for clarity
 
-  const idTagRecord = await this.prisma.idTag.findUnique({
-      where: {
-        idTag: data.idTag, // Lookup using the physical tag value
-      },
-      select: { id: true },
-  });
+  const idTagRecord = data.idTag
+    ? await this.prisma.idTag.findUnique({
+        where: {
+          idTag: data.idTag, // Lookup using the physical tag value
+        },
+        select: { id: true },
+      })
+    : null;
 
   const idTagDbId = idTagRecord?.id;
 
-  const transactionCreationData: Prisma.TransactionCreateInput = {
+  const transactionCreationData: Omit<Prisma.TransactionCreateInput, 'transactionId'> = {
       // 1. Scalar Fields
-      transactionId: data.transactionId,
+      ocppTransactionRef: data.ocppTransactionRef,
       meterStart: data.meterStart,
       startTimestamp: data.startTimestamp,
       reservationId: data.reservationId,
@@ -272,16 +293,38 @@ public async createTransaction(data: {
       ...(idTagDbId && { idTag: { connect: { id: idTagDbId } } }),
   }
   
-  return this.prisma.transaction.create({
-      data: transactionCreationData,
-      select: {
-          id: true, 
-          transactionId: true, 
-          startTimestamp: true,
-      }
+  return this.prisma.$transaction(async (tx) => {
+    const transactionId = await this.allocateTransactionId(tx);
+
+    return tx.transaction.create({
+        data: { ...transactionCreationData, transactionId },
+        select: {
+            id: true, 
+            transactionId: true, 
+            startTimestamp: true,
+        }
+    });
   });
 }
 
+// OCPP transaction ids are int32; the sequence is capped at 2147483647 and fails rather than wraps
+private async allocateTransactionId(tx: Prisma.TransactionClient): Promise<number> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const [{ id }] = await tx.$queryRaw<{ id: bigint }[]>`SELECT nextval('transaction_id_seq') AS id`;
+    const transactionId = Number(id);
+
+    const taken = await tx.transaction.findUnique({
+      where: { transactionId },
+      select: { id: true },
+    });
+    if (!taken) return transactionId;
+
+    this.logger.warn(`Transaction id ${transactionId} already taken, allocating another`);
+  }
+
+  throw new Error('Could not allocate a free transaction id');
+}
+
   public async stopTransaction(
     transactionId: number,
     meterStop: number,
@@ -512,6 +555,65 @@ public async getTransactionsCount(where?: any): Promise<number> {
     });
   }
 
+  public async findTransactionByOcppId(transactionId: number): Promise<Transaction | null> {
+    return this.prisma.transaction.findUnique({
+      where: { transactionId },
+    });
+  }
+
+  // 2.0.1 transactionIds are only unique within one charge point
+  public async findTransactionByOcppRef(chargePointId: string, ocppTransactionRef: string): Promise<Transaction | null> {
+    return this.prisma.transaction.findUnique({
+      where: { chargePointId_ocppTransactionRef: { chargePointId, ocppTransactionRef } },
+    });
+  }
+
+  /**
+   * Attach the driver's tag to a session that started without one
+   */
+  public async setTransactionIdTag(transactionPrimaryKeyId: number, idTag: string): Promise<Transaction | null> {
+    const idTagRecord = await this.prisma.idTag.findUnique({
+      where: { idTag },
+      select: { id: true },
+    });
+    if (!idTagRecord) return null;
+
+    return this.prisma.transaction.update({
+      where: { id: transactionPrimaryKeyId },
+      data: { idTagId: idTagRecord.id },
+    });
+  }
+
+  public async getTransactionMeterValues(
+    transactionPrimaryKeyId: number,
+    filters?: {
+      measurands?: string[];
+      from?: Date;
+      to?: Date;
+    }
+  ): Promise<(MeterValue & { sampledValues: SampledValue[] })[]> {
+    const sampledValueWhere = filters?.measurands?.length
+      ? { measurand: { in: filters.measurands } }
+      : undefined;
+
+    return this.prisma.meterValue.findMany({
+      where: {
+        transactionId: transactionPrimaryKeyId,
+        ...((filters?.from || filters?.to) && {
+          timestamp: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lte: filters.to }),
+          },
+        }),
+        ...(sampledValueWhere && { sampledValues: { some: sampledValueWhere } }),
+      },
+      include: {
+        sampledValues: sampledValueWhere ? { where: sampledValueWhere } : true,
+      },
+      orderBy: { timestamp: 'asc' },
+    });
+  }
+
 public async setMeterValuesUnderTXN(
   transactionPrimaryKeyId: number,
   meterValues: {
@@ -1081,23 +1183,72 @@ public async getAllUsers(): Promise<UserWithRelations[]> {
   }
 
   // ID Tag Management
-  public async validateIdTag(idTag: string): Promise<{ status: string; expiryDate?: Date }> {
+  /**
+   * Resolve the OCPP authorization status of an idTag. A tag inherits a
+   * Blocked/Expired state from the tag named as its parentIdTag, and a tag
+   * already used by an unfinished transaction gets CONCURRENT_TX unless the
+   * caller allows concurrent sessions.
+   */
+  public async validateIdTag(
+    idTag: string,
+    options?: { allowConcurrentTx?: boolean }
+  ): Promise<{ status: string; expiryDate?: Date; parentIdTag?: string }> {
     const tag = await this.prisma.idTag.findUnique({
       where: { idTag },
     });
 
-    if (!tag) {
-      return { status: 'Invalid' };
+    if (!tag || !tag.isActive) {
+      return { status: 'INVALID' };
+    }
+
+    const expiryDate = tag.expiryDate || undefined;
+    const parentIdTag = tag.parentIdTag || undefined;
+
+    if (tag.status !== 'ACCEPTED' && tag.status !== 'CONCURRENT_TX') {
+      return { status: tag.status, expiryDate, parentIdTag };
     }
 
     if (tag.expiryDate && tag.expiryDate < new Date()) {
-      return { status: 'EXPIRED', expiryDate: tag.expiryDate };
+      return { status: 'EXPIRED', expiryDate, parentIdTag };
     }
 
-    return { 
-      status: tag.status, 
-      expiryDate: tag.expiryDate || undefined 
-    };
+    if (tag.parentIdTag && tag.parentIdTag !== tag.idTag) {
+      const parent = await this.prisma.idTag.findUnique({
+        where: { idTag: tag.parentIdTag },
+      });
+
+      // A parentIdTag without its own record is just a group label
+      if (parent) {
+        if (!parent.isActive || parent.status === 'BLOCKED') {
+          return { status: 'BLOCKED', expiryDate, parentIdTag };
+        }
+        if (parent.status === 'EXPIRED' || (parent.expiryDate && parent.expiryDate < new Date())) {
+          return { status: 'EXPIRED', expiryDate, parentIdTag };
+        }
+      }
+    }
+
+    if (!options?.allowConcurrentTx) {
+      const activeTransactions = await this.prisma.transaction.count({
+        where: {
+          idTagId: tag.id,
+          stopTimestamp: null,
+        },
+      });
+
+      if (activeTransactions > 0) {
+        return { status: 'CONCURRENT_TX', expiryDate, parentIdTag };
+      }
+    }
+
+    return { status: 'ACCEPTED', expiryDate, parentIdTag };
+  }
+
+  public async markIdTagUsed(idTag: string): Promise<void> {
+    await this.prisma.idTag.updateMany({
+      where: { idTag },
+      data: { lastUsed: new Date() },
+    });
   }
 
   public async createIdTag(data: {
@@ -1118,6 +1269,90 @@ public async getAllUsers(): Promise<UserWithRelations[]> {
     return tag
   }
 
+  // IdTag Management
+  public async getIdTags(options: {
+    status?: IdTag['status'];
+    parentIdTag?: string;
+    search?: string;
+    includeDeleted?: boolean;
+    skip?: number;
+    take?: number;
+  }): Promise<{ idTags: IdTag[]; total: number }> {
+    const where: Prisma.IdTagWhereInput = {
+      ...(!options.includeDeleted && { isActive: true }),
+      ...(options.status && { status: options.status }),
+      ...(options.parentIdTag && { parentIdTag: options.parentIdTag }),
+      ...(options.search && { idTag: { contains: options.search, mode: 'insensitive' } }),
+    };
+
+    const [idTags, total] = await Promise.all([
+      this.prisma.idTag.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: options.skip,
+        take: options.take,
+      }),
+      this.prisma.idTag.count({ where }),
+    ]);
+
+    return { idTags, total };
+  }
+
+  public async updateIdTag(idTag: string, data: Prisma.IdTagUpdateInput): Promise<IdTag> {
+    return this.prisma.idTag.update({
+      where: { idTag },
+      data,
+    });
+  }
+
+  public async softDeleteIdTag(idTag: string, deletedBy?: string, deleteReason?: string): Promise<IdTag> {
+    return this.prisma.idTag.update({
+      where: { idTag },
+      data: {
+        isActive: false,
+        deletedAt: new Date(),
+        deletedBy,
+        deleteReason,
+      },
+    });
+  }
+
+  public async assignIdTagParent(idTags: string[], parentIdTag: string | null): Promise<number> {
+    const result = await this.prisma.idTag.updateMany({
+      where: { idTag: { in: idTags } },
+      data: { parentIdTag },
+    });
+
+    return result.count;
+  }
+
+  public async findExistingIdTags(idTags: string[]): Promise<string[]> {
+    const existing = await this.prisma.idTag.findMany({
+      where: { idTag: { in: idTags } },
+      select: { idTag: true },
+    });
+
+    return existing.map((tag) => tag.idTag);
+  }
+
+  public async importIdTags(rows: Prisma.IdTagCreateManyInput[]): Promise<number> {
+    const result = await this.prisma.idTag.createMany({
+      data: rows,
+      skipDuplicates: true,
+    });
+
+    return result.count;
+  }
+
   // System Settings Management
   public async getSetting(key: string): Promise<any | null> {
     const setting = await this.prisma.systemSettings.findUnique({
@@ -1747,6 +1982,1153 @@ public async getAllUsers(): Promise<UserWithRelations[]> {
     });
   }
 
+  // Reservation Management
+  public async createReservation(data: {
+    chargePointId: string;
+    connectorId: number;
+    idTag: string;
+    parentIdTag?: string | null;
+    expiryDate: Date;
+    createdBy?: string;
+  }): Promise<Reservation> {
+    return this.prisma.reservation.create({
+      data: {
+        chargePointId: data.chargePointId,
+        connectorId: data.connectorId,
+        idTag: data.idTag,
+        parentIdTag: data.parentIdTag ?? null,
+        expiryDate: data.expiryDate,
+        createdBy: data.createdBy,
+      },
+    });
+  }
+
+  public async getReservation(id: number): Promise<Reservation | null> {
+    return this.prisma.reservation.findUnique({
+      where: { id },
+    });
+  }
+
+  public async updateReservation(id: number, data: Prisma.ReservationUpdateInput): Promise<Reservation> {
+    return this.prisma.reservation.update({
+      where: { id },
+      data,
+    });
+  }
+
+  public async getReservations(filter?: {
+    chargePointId?: string;
+    connectorId?: number;
+    status?: ReservationStatus[];
+  }): Promise<Reservation[]> {
+    return this.prisma.reservation.findMany({
+      where: {
+        ...(filter?.chargePointId && { chargePointId: filter.chargePointId }),
+        ...(filter?.connectorId !== undefined && { connectorId: filter.connectorId }),
+        ...(filter?.status && { status: { in: filter.status } }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Reservation currently holding a connector. A reservation made on
+   * connector 0 holds the whole charge point, so it matches every connector.
+   */
+  // Connector 0 reservations included, oldest first
+  public async getActiveReservations(chargePointId: string): Promise<Reservation[]> {
+    return this.prisma.reservation.findMany({
+      where: {
+        chargePointId,
+        status: { in: [ReservationStatus.PENDING, ReservationStatus.ACTIVE] },
+        expiryDate: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  public async expireReservations(now: Date = new Date()): Promise<number> {
+    const result = await this.prisma.reservation.updateMany({
+      where: {
+        status: { in: [ReservationStatus.PENDING, ReservationStatus.ACTIVE] },
+        expiryDate: { lte: now },
+      },
+      data: { status: ReservationStatus.EXPIRED },
+    });
+
+    return result.count;
+  }
+
+  // Charging Profile Management
+  public async createChargingProfile(data: Prisma.ChargingProfileUncheckedCreateInput): Promise<ChargingProfile> {
+    return this.prisma.chargingProfile.create({
+      data,
+    });
+  }
+
+  public async getChargingProfile(id: number): Promise<ChargingProfile | null> {
+    return this.prisma.chargingProfile.findUnique({
+      where: { id },
+    });
+  }
+
+  public async updateChargingProfile(id: number, data: Prisma.ChargingProfileUpdateInput): Promise<ChargingProfile> {
+    return this.prisma.chargingProfile.update({
+      where: { id },
+      data,
+    });
+  }
+
+  public async getChargingProfiles(where: Prisma.ChargingProfileWhereInput): Promise<ChargingProfile[]> {
+    return this.prisma.chargingProfile.findMany({
+      where,
+      orderBy: [{ connectorId: 'asc' }, { stackLevel: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Mark every profile matching the filter as cleared. Only profiles the
+   * charge point may still hold (PENDING/ACTIVE) are touched.
+   */
+  public async clearChargingProfiles(where: Prisma.ChargingProfileWhereInput): Promise<number> {
+    const result = await this.prisma.chargingProfile.updateMany({
+      where: {
+        ...where,
+        status: { in: [ChargingProfileStatus.PENDING, ChargingProfileStatus.ACTIVE] },
+      },
+      data: {
+        status: ChargingProfileStatus.CLEARED,
+        clearedAt: new Date(),
+      },
+    });
+
+    return result.count;
+  }
+
+  public async updateConnectorCompositeSchedule(
+    chargePointId: string,
+    connectorId: number,
+    compositeSchedule: Prisma.InputJsonValue
+  ): Promise<Connector> {
+    return this.prisma.connector.update({
+      where: {
+        chargePointId_connectorId: {
+          chargePointId,
+          connectorId,
+        },
+      },
+      data: {
+        compositeSchedule,
+        compositeScheduleUpdatedAt: new Date(),
+      },
+    });
+  }
+
+  // Site Management
+  public async createSite(data: Prisma.SiteCreateInput): Promise<Site> {
+    return this.prisma.site.create({
+      data,
+    });
+  }
+
+  public async getSites(): Promise<(Site & { chargePoints: ChargePoint[] })[]> {
+    return this.prisma.site.findMany({
+      include: {
+        chargePoints: true,
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  public async getSite(id: string): Promise<(Site & { chargePoints: (ChargePoint & { connectors: Connector[] })[] }) | null> {
+    return this.prisma.site.findUnique({
+      where: { id },
+      include: {
+        chargePoints: {
+          include: {
+            connectors: true,
+          },
+        },
+      },
+    });
+  }
+
+  public async updateSite(id: string, data: Prisma.SiteUpdateInput): Promise<Site> {
+    return this.prisma.site.update({
+      where: { id },
+      data,
+    });
+  }
+
+  public async deleteSite(id: string): Promise<Site> {
+    return this.prisma.site.delete({
+      where: { id },
+    });
+  }
+
+  public async assignChargePointsToSite(siteId: string | null, chargePointIds: string[]): Promise<number> {
+    const result = await this.prisma.chargePoint.updateMany({
+      where: { id: { in: chargePointIds } },
+      data: { siteId },
+    });
+
+    return result.count;
+  }
+
+  public async getChargePointSiteId(chargePointId: string): Promise<string | null> {
+    const chargePoint = await this.prisma.chargePoint.findUnique({
+      where: { id: chargePointId },
+      select: { siteId: true },
+    });
+
+    return chargePoint?.siteId ?? null;
+  }
+
+  public async getActiveTransactionsForSite(siteId: string): Promise<Transaction[]> {
+    return this.prisma.transaction.findMany({
+      where: {
+        stopTimestamp: null,
+        chargePoint: { siteId },
+      },
+      orderBy: { startTimestamp: 'asc' },
+    });
+  }
+
+  // Local Authorization Lists
+  public async createLocalAuthList(data: Prisma.LocalAuthListUncheckedCreateInput): Promise<LocalAuthList> {
+    return this.prisma.localAuthList.create({
+      data,
+    });
+  }
+
+  public async getLocalAuthLists(): Promise<any[]> {
+    return this.prisma.localAuthList.findMany({
+      include: {
+        fleet: { select: { id: true, name: true } },
+        chargePoints: {
+          select: {
+            id: true,
+            localListVersion: true,
+            localListSyncStatus: true,
+            localListSyncedAt: true,
+          },
+        },
+        _count: { select: { entries: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  public async getLocalAuthList(id: string): Promise<any | null> {
+    return this.prisma.localAuthList.findUnique({
+      where: { id },
+      include: {
+        fleet: { select: { id: true, name: true } },
+        entries: {
+          include: { idTag: true },
+        },
+        chargePoints: {
+          select: {
+            id: true,
+            localListVersion: true,
+            localListSyncStatus: true,
+            localListSyncedAt: true,
+          },
+        },
+      },
+    });
+  }
+
+  public async updateLocalAuthList(id: string, data: Prisma.LocalAuthListUncheckedUpdateInput): Promise<LocalAuthList> {
+    return this.prisma.localAuthList.update({
+      where: { id },
+      data,
+    });
+  }
+
+  public async deleteLocalAuthList(id: string): Promise<LocalAuthList> {
+    return this.prisma.localAuthList.delete({
+      where: { id },
+    });
+  }
+
+  public async addLocalAuthListEntries(listId: string, idTags: string[]): Promise<number> {
+    const tags = await this.prisma.idTag.findMany({
+      where: { idTag: { in: idTags } },
+      select: { id: true },
+    });
+
+    const result = await this.prisma.localAuthListEntry.createMany({
+      data: tags.map((tag) => ({ listId, idTagId: tag.id })),
+      skipDuplicates: true,
+    });
+
+    return result.count;
+  }
+
+  public async removeLocalAuthListEntries(listId: string, idTags: string[]): Promise<number> {
+    const result = await this.prisma.localAuthListEntry.deleteMany({
+      where: {
+        listId,
+        idTag: { idTag: { in: idTags } },
+      },
+    });
+
+    return result.count;
+  }
+
+  public async assignLocalAuthList(listId: string | null, chargePointIds: string[]): Promise<number> {
+    const result = await this.prisma.chargePoint.updateMany({
+      where: { id: { in: chargePointIds } },
+      data: { localAuthListId: listId },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Tags that belong on a list: its explicit entries plus, for a fleet list,
+   * the tags of the fleet's vehicle owners and managers
+   */
+  public async getLocalAuthListTags(listId: string): Promise<IdTag[]> {
+    const list = await this.prisma.localAuthList.findUnique({
+      where: { id: listId },
+      select: { fleetId: true },
+    });
+
+    if (!list) return [];
+
+    return this.prisma.idTag.findMany({
+      where: {
+        OR: [
+          { localAuthListEntries: { some: { listId } } },
+          ...(list.fleetId
+            ? [
+                { user: { vehicles: { some: { fleetId: list.fleetId } } } },
+                { user: { fleetManagements: { some: { fleetId: list.fleetId } } } },
+              ]
+            : []),
+        ],
+      },
+    });
+  }
+
+  public async getChargePointIdsForIdTag(idTag: string): Promise<string[]> {
+    const chargePoints = await this.prisma.chargePoint.findMany({
+      where: {
+        localAuthList: {
+          OR: [
+            { entries: { some: { idTag: { idTag } } } },
+            { fleet: { vehicles: { some: { owner: { idTag: { idTag } } } } } },
+            { fleet: { fleetManagers: { some: { user: { idTag: { idTag } } } } } },
+          ],
+        },
+      },
+      select: { id: true },
+    });
+
+    return chargePoints.map((cp) => cp.id);
+  }
+
+  public async getChargePointIdsForLocalAuthList(listId: string): Promise<string[]> {
+    const chargePoints = await this.prisma.chargePoint.findMany({
+      where: { localAuthListId: listId },
+      select: { id: true },
+    });
+
+    return chargePoints.map((cp) => cp.id);
+  }
+
+  public async getChargePointLocalListState(chargePointId: string): Promise<{
+    localAuthListId: string | null;
+    localListVersion: number | null;
+    localListSnapshot: Prisma.JsonValue | null;
+  } | null> {
+    return this.prisma.chargePoint.findUnique({
+      where: { id: chargePointId },
+      select: {
+        localAuthListId: true,
+        localListVersion: true,
+        localListSnapshot: true,
+      },
+    });
+  }
+
+  public async updateChargePointLocalListState(
+    chargePointId: string,
+    data: {
+      localListVersion?: number | null;
+      localListSnapshot?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+      localListSyncStatus?: string;
+      localListSyncedAt?: Date;
+    }
+  ): Promise<void> {
+    await this.prisma.chargePoint.update({
+      where: { id: chargePointId },
+      data,
+    });
+  }
+
+  public async getIdTagsExpiredBetween(from: Date, to: Date): Promise<IdTag[]> {
+    return this.prisma.idTag.findMany({
+      where: {
+        expiryDate: { gt: from, lte: to },
+      },
+    });
+  }
+
+  // Authorization Cache
+  public async createAuthCacheClear(data: Prisma.AuthCacheClearUncheckedCreateInput): Promise<AuthCacheClear> {
+    return this.prisma.authCacheClear.create({
+      data,
+    });
+  }
+
+  public async getAuthCacheClears(options: {
+    chargePointId?: string;
+    idTag?: string;
+    take?: number;
+  }): Promise<AuthCacheClear[]> {
+    return this.prisma.authCacheClear.findMany({
+      where: {
+        ...(options.chargePointId && { chargePointId: options.chargePointId }),
+        ...(options.idTag && { idTag: options.idTag }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.take ?? 100,
+    });
+  }
+
+  /**
+   * Charge points where the tag started a transaction since the given date
+   */
+  public async getChargePointIdsUsedByIdTag(idTag: string, since: Date): Promise<string[]> {
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        idTag: { idTag },
+        startTimestamp: { gte: since },
+      },
+      select: { chargePointId: true },
+      distinct: ['chargePointId'],
+    });
+
+    return transactions.map((tx) => tx.chargePointId);
+  }
+
+  // Firmware Management
+  public async createFirmwareVersion(data: Prisma.FirmwareVersionUncheckedCreateInput): Promise<FirmwareVersion> {
+    return this.prisma.firmwareVersion.create({
+      data,
+    });
+  }
+
+  public async getFirmwareVersions(where?: { vendor?: string; model?: string }): Promise<FirmwareVersion[]> {
+    return this.prisma.firmwareVersion.findMany({
+      where: {
+        ...(where?.vendor && { vendor: where.vendor }),
+        ...(where?.model && { model: where.model }),
+      },
+      orderBy: [{ vendor: 'asc' }, { model: 'asc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  public async getFirmwareVersion(id: string): Promise<FirmwareVersion | null> {
+    return this.prisma.firmwareVersion.findUnique({
+      where: { id },
+    });
+  }
+
+  public async getFirmwareVersionByLocation(vendor: string, model: string, location: string): Promise<FirmwareVersion | null> {
+    return this.prisma.firmwareVersion.findFirst({
+      where: { vendor, model, location },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  public async deleteFirmwareVersion(id: string): Promise<FirmwareVersion> {
+    return this.prisma.firmwareVersion.delete({
+      where: { id },
+    });
+  }
+
+  public async countFirmwareRollouts(firmwareVersionId: string): Promise<number> {
+    return this.prisma.firmwareRollout.count({
+      where: { firmwareVersionId },
+    });
+  }
+
+  public async createFirmwareRollout(
+    data: Prisma.FirmwareRolloutUncheckedCreateInput,
+    chargePoints: { id: string; firmwareVersion: string | null }[]
+  ): Promise<FirmwareRollout & { updates: FirmwareUpdate[] }> {
+    return this.prisma.firmwareRollout.create({
+      data: {
+        ...data,
+        updates: {
+          create: chargePoints.map((cp) => ({
+            chargePointId: cp.id,
+            previousVersion: cp.firmwareVersion,
+          })),
+        },
+      },
+      include: { updates: true },
+    });
+  }
+
+  public async getFirmwareRollouts(): Promise<any[]> {
+    return this.prisma.firmwareRollout.findMany({
+      include: {
+        firmwareVersion: true,
+        _count: { select: { updates: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  public async getFirmwareRollout(id: string): Promise<any | null> {
+    return this.prisma.firmwareRollout.findUnique({
+      where: { id },
+      include: {
+        firmwareVersion: true,
+        updates: {
+          orderBy: { chargePointId: 'asc' },
+        },
+      },
+    });
+  }
+
+  public async updateFirmwareRollout(id: string, data: Prisma.FirmwareRolloutUpdateInput): Promise<FirmwareRollout> {
+    return this.prisma.firmwareRollout.update({
+      where: { id },
+      data,
+    });
+  }
+
+  public async getFirmwareUpdate(id: string): Promise<(FirmwareUpdate & { rollout: FirmwareRollout & { firmwareVersion: FirmwareVersion } }) | null> {
+    return this.prisma.firmwareUpdate.findUnique({
+      where: { id },
+      include: {
+        rollout: {
+          include: { firmwareVersion: true },
+        },
+      },
+    });
+  }
+
+  public async getFirmwareUpdates(where: Prisma.FirmwareUpdateWhereInput): Promise<(FirmwareUpdate & { rollout: FirmwareRollout & { firmwareVersion: FirmwareVersion } })[]> {
+    return this.prisma.firmwareUpdate.findMany({
+      where,
+      include: {
+        rollout: {
+          include: { firmwareVersion: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  public async updateFirmwareUpdate(id: string, data: Prisma.FirmwareUpdateUpdateInput): Promise<FirmwareUpdate> {
+    return this.prisma.firmwareUpdate.update({
+      where: { id },
+      data,
+    });
+  }
+
+  public async updateFirmwareUpdates(where: Prisma.FirmwareUpdateWhereInput, data: Prisma.FirmwareUpdateUpdateManyMutationInput): Promise<number> {
+    const result = await this.prisma.firmwareUpdate.updateMany({
+      where,
+      data,
+    });
+
+    return result.count;
+  }
+
+  public async getChargePointsByIds(ids: string[]): Promise<ChargePoint[]> {
+    return this.prisma.chargePoint.findMany({
+      where: { id: { in: ids } },
+    });
+  }
+
+  // Diagnostics
+  public async createDiagnosticsRequest(data: Prisma.DiagnosticsRequestUncheckedCreateInput): Promise<DiagnosticsRequest> {
+    return this.prisma.diagnosticsRequest.create({
+      data,
+    });
+  }
+
+  public async getDiagnosticsRequest(id: string): Promise<DiagnosticsRequest | null> {
+    return this.prisma.diagnosticsRequest.findUnique({
+      where: { id },
+    });
+  }
+
+  public async getDiagnosticsRequestByToken(uploadToken: string): Promise<DiagnosticsRequest | null> {
+    return this.prisma.diagnosticsRequest.findUnique({
+      where: { uploadToken },
+    });
+  }
+
+  public async getDiagnosticsRequests(filters?: {
+    chargePointId?: string;
+    status?: DiagnosticsStatus;
+    limit?: number;
+  }): Promise<DiagnosticsRequest[]> {
+    return this.prisma.diagnosticsRequest.findMany({
+      where: {
+        ...(filters?.chargePointId && { chargePointId: filters.chargePointId }),
+        ...(filters?.status && { status: filters.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters?.limit || 100,
+    });
+  }
+
+  /**
+   * DiagnosticsStatusNotification carries no request id, so it is matched
+   * to the newest request that has been handed an upload URL
+   */
+  public async getOpenDiagnosticsRequest(chargePointId: string): Promise<DiagnosticsRequest | null> {
+    return this.prisma.diagnosticsRequest.findFirst({
+      where: {
+        chargePointId,
+        status: {
+          in: [DiagnosticsStatus.REQUESTED, DiagnosticsStatus.UPLOADING, DiagnosticsStatus.UPLOADED, DiagnosticsStatus.RECEIVED],
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  public async updateDiagnosticsRequest(id: string, data: Prisma.DiagnosticsRequestUpdateInput): Promise<DiagnosticsRequest> {
+    return this.prisma.diagnosticsRequest.update({
+      where: { id },
+      data,
+    });
+  }
+
+  // Vehicle data from DataTransfer
+  public async createBmsSample(data: Prisma.BmsSampleUncheckedCreateInput): Promise<BmsSample> {
+    return this.prisma.bmsSample.create({
+      data,
+    });
+  }
+
+  public async getTransactionBmsSamples(
+    transactionPrimaryKeyId: number,
+    filters?: { from?: Date; to?: Date }
+  ): Promise<BmsSample[]> {
+    return this.prisma.bmsSample.findMany({
+      where: {
+        transactionId: transactionPrimaryKeyId,
+        ...((filters?.from || filters?.to) && {
+          timestamp: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lte: filters.to }),
+          },
+        }),
+      },
+      orderBy: { timestamp: 'asc' },
+    });
+  }
+
+  /**
+   * Record the VIN on the transaction and, when it matches a registered
+   * vehicle, link the vehicle if the session has none yet
+   */
+  public async setTransactionVin(transactionPrimaryKeyId: number, vin: string): Promise<Transaction> {
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: transactionPrimaryKeyId },
+      select: { vehicleId: true },
+    });
+
+    const vehicle = transaction && !transaction.vehicleId
+      ? await this.prisma.vehicle.findUnique({ where: { vin }, select: { id: true, fleetId: true } })
+      : null;
+
+    return this.prisma.transaction.update({
+      where: { id: transactionPrimaryKeyId },
+      data: {
+        vin,
+        ...(vehicle && {
+          vehicleId: vehicle.id,
+          originalVehicleId: vehicle.id,
+          ...(vehicle.fleetId && { originalFleetId: vehicle.fleetId }),
+        }),
+      },
+    });
+  }
+
+  // Availability & Maintenance Windows
+  /**
+   * Update availability fields of one connector, or of every connector of
+   * the charge point when connectorId is 0
+   */
+  public async updateConnectorAvailability(
+    chargePointId: string,
+    connectorId: number,
+    data: Prisma.ConnectorUpdateManyMutationInput
+  ): Promise<number> {
+    const result = await this.prisma.connector.updateMany({
+      where: {
+        chargePointId,
+        ...(connectorId > 0 && { connectorId }),
+      },
+      data,
+    });
+
+    return result.count;
+  }
+
+  public async createAvailabilityChange(data: Prisma.AvailabilityChangeUncheckedCreateInput): Promise<AvailabilityChange> {
+    return this.prisma.availabilityChange.create({
+      data,
+    });
+  }
+
+  public async getAvailabilityChanges(chargePointId: string, limit: number = 50): Promise<AvailabilityChange[]> {
+    return this.prisma.availabilityChange.findMany({
+      where: { chargePointId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  public async markScheduledAvailabilityChangesApplied(chargePointId: string, connectorId: number): Promise<number> {
+    const result = await this.prisma.availabilityChange.updateMany({
+      where: {
+        chargePointId,
+        connectorId: { in: [connectorId, 0] },
+        status: 'Scheduled',
+        appliedAt: null,
+      },
+      data: { appliedAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  public async createMaintenanceWindow(data: Prisma.MaintenanceWindowUncheckedCreateInput): Promise<MaintenanceWindow> {
+    return this.prisma.maintenanceWindow.create({
+      data,
+    });
+  }
+
+  public async getMaintenanceWindow(id: string): Promise<MaintenanceWindow | null> {
+    return this.prisma.maintenanceWindow.findUnique({
+      where: { id },
+    });
+  }
+
+  public async getMaintenanceWindows(filters?: {
+    chargePointId?: string;
+    status?: MaintenanceWindowStatus;
+    from?: Date;
+    to?: Date;
+  }): Promise<MaintenanceWindow[]> {
+    return this.prisma.maintenanceWindow.findMany({
+      where: {
+        ...(filters?.chargePointId && { chargePointId: filters.chargePointId }),
+        ...(filters?.status && { status: filters.status }),
+        ...(filters?.from && { endsAt: { gte: filters.from } }),
+        ...(filters?.to && { startsAt: { lte: filters.to } }),
+      },
+      orderBy: { startsAt: 'asc' },
+    });
+  }
+
+  public async updateMaintenanceWindow(id: string, data: Prisma.MaintenanceWindowUpdateInput): Promise<MaintenanceWindow> {
+    return this.prisma.maintenanceWindow.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Windows that should start (scheduled, start reached) or end (active,
+   * end reached) at the given time
+   */
+  public async getDueMaintenanceWindows(now: Date, chargePointId?: string): Promise<MaintenanceWindow[]> {
+    return this.prisma.maintenanceWindow.findMany({
+      where: {
+        ...(chargePointId && { chargePointId }),
+        OR: [
+          { status: MaintenanceWindowStatus.SCHEDULED, startsAt: { lte: now } },
+          { status: MaintenanceWindowStatus.ACTIVE, endsAt: { lte: now } },
+        ],
+      },
+      orderBy: { startsAt: 'asc' },
+    });
+  }
+
+  // Charge Point Security
+  public async getChargePointSecurity(chargePointId: string): Promise<{
+    securityProfile: number;
+    authorizationKeyHash: string | null;
+  } | null> {
+    const chargePoint = await this.prisma.chargePoint.findUnique({
+      where: { id: chargePointId },
+      select: {
+        securityProfile: true,
+        credential: { select: { authorizationKeyHash: true } },
+      },
+    });
+
+    return chargePoint
+      ? {
+          securityProfile: chargePoint.securityProfile,
+          authorizationKeyHash: chargePoint.credential?.authorizationKeyHash ?? null,
+        }
+      : null;
+  }
+
+  public async setChargePointSecurityProfile(chargePointId: string, securityProfile: number): Promise<ChargePoint> {
+    return this.prisma.chargePoint.update({
+      where: { id: chargePointId },
+      data: { securityProfile },
+    });
+  }
+
+  public async setChargePointAuthorizationKeyHash(
+    chargePointId: string,
+    authorizationKeyHash: string,
+    rotatedBy?: string
+  ): Promise<ChargePointCredential> {
+    return this.prisma.chargePointCredential.upsert({
+      where: { chargePointId },
+      update: { authorizationKeyHash, rotatedBy, rotatedAt: new Date() },
+      create: { chargePointId, authorizationKeyHash, rotatedBy },
+    });
+  }
+
+  public async createChargePointCertificate(data: Prisma.ChargePointCertificateUncheckedCreateInput): Promise<ChargePointCertificate> {
+    return this.prisma.chargePointCertificate.create({
+      data,
+    });
+  }
+
+  public async getChargePointCertificate(id: string): Promise<ChargePointCertificate | null> {
+    return this.prisma.chargePointCertificate.findUnique({
+      where: { id },
+    });
+  }
+
+  public async getChargePointCertificates(chargePointId: string, filters?: {
+    certificateType?: string;
+    status?: CertificateStatus;
+  }): Promise<ChargePointCertificate[]> {
+    return this.prisma.chargePointCertificate.findMany({
+      where: {
+        chargePointId,
+        ...(filters?.certificateType && { certificateType: filters.certificateType }),
+        ...(filters?.status && { status: filters.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  public async updateChargePointCertificate(id: string, data: Prisma.ChargePointCertificateUpdateInput): Promise<ChargePointCertificate> {
+    return this.prisma.chargePointCertificate.update({
+      where: { id },
+      data,
+    });
+  }
+
+  public async markChargePointCertificatesDeleted(chargePointId: string, serialNumber: string): Promise<number> {
+    const result = await this.prisma.chargePointCertificate.updateMany({
+      where: { chargePointId, serialNumber, status: CertificateStatus.ACCEPTED },
+      data: { status: CertificateStatus.DELETED },
+    });
+    return result.count;
+  }
+
+  public async createSecurityEvent(data: Prisma.SecurityEventUncheckedCreateInput): Promise<SecurityEvent> {
+    return this.prisma.securityEvent.create({
+      data,
+    });
+  }
+
+  public async getSecurityEvents(filters?: {
+    chargePointId?: string;
+    type?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  }): Promise<SecurityEvent[]> {
+    return this.prisma.securityEvent.findMany({
+      where: {
+        ...(filters?.chargePointId && { chargePointId: filters.chargePointId }),
+        ...(filters?.type && { type: filters.type }),
+        ...((filters?.from || filters?.to) && {
+          timestamp: {
+            ...(filters?.from && { gte: filters.from }),
+            ...(filters?.to && { lte: filters.to }),
+          },
+        }),
+      },
+      orderBy: { timestamp: 'desc' },
+      take: filters?.limit || 100,
+    });
+  }
+
+  public async setChargePointPayloadValidation(chargePointId: string, payloadValidation: PayloadValidation | null): Promise<ChargePoint> {
+    return this.prisma.chargePoint.update({
+      where: { id: chargePointId },
+      data: { payloadValidation },
+    });
+  }
+
+  // Charge Point Provisioning
+  public async getChargePointsByRegistrationStatus(registrationStatus: RegistrationStatus): Promise<ChargePoint[]> {
+    return this.prisma.chargePoint.findMany({
+      where: { registrationStatus },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  public async setChargePointRegistrationStatus(
+    chargePointId: string,
+    registrationStatus: RegistrationStatus,
+    reviewedBy?: string
+  ): Promise<ChargePoint> {
+    return this.prisma.chargePoint.update({
+      where: { id: chargePointId },
+      data: { registrationStatus, reviewedBy, reviewedAt: new Date() },
+    });
+  }
+
+  public async setChargePointDefaultsApplied(chargePointId: string): Promise<ChargePoint> {
+    return this.prisma.chargePoint.update({
+      where: { id: chargePointId },
+      data: { defaultsAppliedAt: new Date() },
+    });
+  }
+
+  public async rejectChargePointsBySerialNumber(serialNumber: string, reviewedBy?: string): Promise<number> {
+    const result = await this.prisma.chargePoint.updateMany({
+      where: { serialNumber },
+      data: { registrationStatus: RegistrationStatus.REJECTED, reviewedBy, reviewedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  public async getBlockedSerialNumber(serialNumber: string): Promise<BlockedSerialNumber | null> {
+    return this.prisma.blockedSerialNumber.findUnique({
+      where: { serialNumber },
+    });
+  }
+
+  public async getBlockedSerialNumbers(): Promise<BlockedSerialNumber[]> {
+    return this.prisma.blockedSerialNumber.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  public async blockSerialNumber(serialNumber: string, reason?: string, blockedBy?: string): Promise<BlockedSerialNumber> {
+    return this.prisma.blockedSerialNumber.upsert({
+      where: { serialNumber },
+      update: { reason, blockedBy },
+      create: { serialNumber, reason, blockedBy },
+    });
+  }
+
+  public async unblockSerialNumber(serialNumber: string): Promise<boolean> {
+    const result = await this.prisma.blockedSerialNumber.deleteMany({
+      where: { serialNumber },
+    });
+    return result.count > 0;
+  }
+
+  public async getChargePointModelDefault(vendor: string, model: string): Promise<ChargePointModelDefault | null> {
+    return this.prisma.chargePointModelDefault.findUnique({
+      where: { vendor_model: { vendor, model } },
+    });
+  }
+
+  public async getChargePointModelDefaults(): Promise<ChargePointModelDefault[]> {
+    return this.prisma.chargePointModelDefault.findMany({
+      orderBy: [{ vendor: 'asc' }, { model: 'asc' }],
+    });
+  }
+
+  public async upsertChargePointModelDefault(data: {
+    vendor: string;
+    model: string;
+    heartbeatInterval?: number | null;
+    configuration?: Record<string, string> | null;
+    updatedBy?: string;
+  }): Promise<ChargePointModelDefault> {
+    const values = {
+      heartbeatInterval: data.heartbeatInterval ?? null,
+      configuration: data.configuration ?? Prisma.DbNull,
+      updatedBy: data.updatedBy,
+    };
+
+    return this.prisma.chargePointModelDefault.upsert({
+      where: { vendor_model: { vendor: data.vendor, model: data.model } },
+      update: values,
+      create: { vendor: data.vendor, model: data.model, ...values },
+    });
+  }
+
+  public async deleteChargePointModelDefault(id: string): Promise<boolean> {
+    const result = await this.prisma.chargePointModelDefault.deleteMany({
+      where: { id },
+    });
+    return result.count > 0;
+  }
+
+  // OCPP Message Log
+  public async createOcppMessageLogs(entries: Prisma.OcppMessageLogCreateManyInput[]): Promise<number> {
+    const result = await this.prisma.ocppMessageLog.createMany({
+      data: entries,
+    });
+    return result.count;
+  }
+
+  public async deleteOcppMessageLogsBefore(cutoff: Date): Promise<number> {
+    const result = await this.prisma.ocppMessageLog.deleteMany({
+      where: { timestamp: { lt: cutoff } },
+    });
+    return result.count;
+  }
+
+  public async getOcppMessageLogs(chargePointId: string, filters: OcppMessageLogFilters & {
+    skip?: number;
+    take?: number;
+  }): Promise<{ logs: OcppMessageLog[]; total: number }> {
+    const where = this.buildOcppMessageLogWhere(chargePointId, filters);
+
+    const [logs, total] = await this.prisma.$transaction([
+      this.prisma.ocppMessageLog.findMany({
+        where,
+        orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+        skip: filters.skip,
+        take: filters.take ?? 100,
+      }),
+      this.prisma.ocppMessageLog.count({ where }),
+    ]);
+
+    return { logs, total };
+  }
+
+  // Oldest first, continuing after the entry with id `after`
+  public async getOcppMessageLogBatch(
+    chargePointId: string,
+    filters: OcppMessageLogFilters,
+    take: number,
+    after?: string
+  ): Promise<OcppMessageLog[]> {
+    return this.prisma.ocppMessageLog.findMany({
+      where: this.buildOcppMessageLogWhere(chargePointId, filters),
+      orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+      take,
+      ...(after && { cursor: { id: after }, skip: 1 }),
+    });
+  }
+
+  private buildOcppMessageLogWhere(chargePointId: string, filters: OcppMessageLogFilters): Prisma.OcppMessageLogWhereInput {
+    return {
+      chargePointId,
+      ...(filters.action && { action: filters.action }),
+      ...(filters.direction && { direction: filters.direction }),
+      ...(filters.uniqueId && { uniqueId: filters.uniqueId }),
+      // CALLERRORs and frames that could not be parsed
+      ...(filters.errorsOnly && { OR: [{ messageType: 4 }, { errorDescription: { not: null } }] }),
+      ...((filters.from || filters.to) && {
+        timestamp: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+  }
+
+  // Offline Commands
+  public async createOfflineCommand(data: {
+    chargePointId: string;
+    action: string;
+    payload: any;
+    expiresAt?: Date | null;
+    createdBy?: string;
+  }): Promise<OfflineCommand> {
+    return this.prisma.offlineCommand.create({
+      data,
+    });
+  }
+
+  public async getOfflineCommand(id: string): Promise<OfflineCommand | null> {
+    return this.prisma.offlineCommand.findUnique({
+      where: { id },
+    });
+  }
+
+  public async getOfflineCommands(filters: {
+    chargePointId?: string;
+    status?: OfflineCommandStatus[];
+    skip?: number;
+    take?: number;
+  }): Promise<{ commands: OfflineCommand[]; total: number }> {
+    const where: Prisma.OfflineCommandWhereInput = {
+      ...(filters.chargePointId && { chargePointId: filters.chargePointId }),
+      ...(filters.status && { status: { in: filters.status } }),
+    };
+
+    const [commands, total] = await this.prisma.$transaction([
+      this.prisma.offlineCommand.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: filters.skip,
+        take: filters.take ?? 50,
+      }),
+      this.prisma.offlineCommand.count({ where }),
+    ]);
+
+    return { commands, total };
+  }
+
+  /**
+   * Mark the oldest unexpired queued command of a charge point as being
+   * delivered. The status check in the update makes sure only one caller
+   * gets a command.
+   */
+  public async claimNextOfflineCommand(chargePointId: string): Promise<OfflineCommand | null> {
+    while (true) {
+      const next = await this.prisma.offlineCommand.findFirst({
+        where: {
+          chargePointId,
+          status: OfflineCommandStatus.QUEUED,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+      if (!next) return null;
+
+      const claimed = await this.prisma.offlineCommand.updateMany({
+        where: { id: next.id, status: OfflineCommandStatus.QUEUED },
+        data: { status: OfflineCommandStatus.DELIVERING, attempts: { increment: 1 } },
+      });
+      if (claimed.count > 0) {
+        return { ...next, status: OfflineCommandStatus.DELIVERING, attempts: next.attempts + 1 };
+      }
+    }
+  }
+
+  public async updateOfflineCommand(id: string, data: Prisma.OfflineCommandUpdateInput): Promise<OfflineCommand> {
+    return this.prisma.offlineCommand.update({
+      where: { id },
+      data,
+    });
+  }
+
+  public async updateOfflineCommands(where: Prisma.OfflineCommandWhereInput, data: Prisma.OfflineCommandUpdateManyMutationInput): Promise<number> {
+    const result = await this.prisma.offlineCommand.updateMany({
+      where,
+      data,
+    });
+
+    return result.count;
+  }
+
   // Utility methods
   public async healthCheck(): Promise<boolean> {
     try {
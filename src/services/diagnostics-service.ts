@@ -0,0 +1,159 @@
+import { DiagnosticsRequest, DiagnosticsStatus } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import {
+  DiagnosticsStatusNotificationRequest,
+  GetDiagnosticsRequest,
+  GetDiagnosticsResponse
+} from '../types/ocpp_types';
+
+const statusFromOCPP: Record<Exclude<DiagnosticsStatusNotificationRequest['status'], 'Idle'>, DiagnosticsStatus> = {
+  Uploading: DiagnosticsStatus.UPLOADING,
+  Uploaded: DiagnosticsStatus.UPLOADED,
+  UploadFailed: DiagnosticsStatus.UPLOAD_FAILED,
+};
+
+export class DiagnosticsService {
+  private logger = Logger.getInstance();
+  private readonly storageDir = path.resolve(process.env.DIAGNOSTICS_STORAGE_DIR || 'storage/diagnostics');
+  private readonly uploadTtlHours = parseInt(process.env.DIAGNOSTICS_UPLOAD_TTL_HOURS || '24');
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  /**
+   * Send GetDiagnostics pointing the charge point at a one-off upload URL
+   * on this server. The token in the URL is the only credential the upload
+   * needs, so it expires after DIAGNOSTICS_UPLOAD_TTL_HOURS.
+   */
+  public async requestDiagnostics(
+    chargePointId: string,
+    options: {
+      baseUrl: string;
+      startTime?: Date;
+      stopTime?: Date;
+      retries?: number;
+      retryInterval?: number;
+      requestedBy?: string;
+    }
+  ): Promise<DiagnosticsRequest> {
+    const baseUrl = (process.env.DIAGNOSTICS_UPLOAD_BASE_URL || options.baseUrl).replace(/\/+$/, '');
+    const uploadToken = randomBytes(24).toString('hex');
+    const location = `${baseUrl}/api/v1/diagnostics/upload/${uploadToken}`;
+
+    const record = await this.db.createDiagnosticsRequest({
+      chargePointId,
+      uploadToken,
+      location,
+      startTime: options.startTime,
+      stopTime: options.stopTime,
+      retries: options.retries,
+      retryInterval: options.retryInterval,
+      requestedBy: options.requestedBy,
+      expiresAt: new Date(Date.now() + this.uploadTtlHours * 60 * 60 * 1000),
+    });
+
+    const request: GetDiagnosticsRequest = {
+      location,
+      ...(options.retries !== undefined && { retries: options.retries }),
+      ...(options.retryInterval !== undefined && { retryInterval: options.retryInterval }),
+      ...(options.startTime && { startTime: options.startTime.toISOString() }),
+      ...(options.stopTime && { stopTime: options.stopTime.toISOString() }),
+    };
+
+    let response: GetDiagnosticsResponse;
+    try {
+      response = await this.ocppServer.sendMessage(chargePointId, 'GetDiagnostics', request);
+    } catch (error: any) {
+      await this.db.updateDiagnosticsRequest(record.id, {
+        status: DiagnosticsStatus.FAILED,
+        lastError: error.message,
+        statusUpdatedAt: new Date(),
+      });
+      throw error;
+    }
+
+    // No file name means the charge point has no diagnostics to upload
+    const updated = await this.db.updateDiagnosticsRequest(record.id, {
+      status: response?.fileName ? DiagnosticsStatus.REQUESTED : DiagnosticsStatus.NO_DIAGNOSTICS,
+      fileName: response?.fileName ?? null,
+      statusUpdatedAt: new Date(),
+    });
+
+    this.logger.info(`🩺 GetDiagnostics sent to ${chargePointId} → ${response?.fileName ?? 'no diagnostics available'}`);
+    return updated;
+  }
+
+  public async handleStatusNotification(
+    chargePointId: string,
+    status: DiagnosticsStatusNotificationRequest['status']
+  ): Promise<void> {
+    if (status === 'Idle') return;
+
+    const request = await this.db.getOpenDiagnosticsRequest(chargePointId);
+    if (!request) {
+      this.logger.warn(`⚠️ Diagnostics status ${status} from ${chargePointId} without an open request`);
+      return;
+    }
+
+    // The archive already arrived, later notifications add nothing
+    if (request.status === DiagnosticsStatus.RECEIVED) return;
+
+    await this.db.updateDiagnosticsRequest(request.id, {
+      status: statusFromOCPP[status],
+      ...(status === 'UploadFailed' && { lastError: 'Charge point reported UploadFailed' }),
+      statusUpdatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Store an archive uploaded to the URL handed out in GetDiagnostics.
+   * The upload may arrive before or after the Uploaded notification.
+   */
+  public async receiveUpload(
+    uploadToken: string,
+    upload: { data: Buffer; fileName?: string; contentType?: string }
+  ): Promise<DiagnosticsRequest> {
+    const request = await this.db.getDiagnosticsRequestByToken(uploadToken);
+    if (!request) {
+      throw new Error('Unknown upload token');
+    }
+    if (request.receivedAt) {
+      throw new Error('Diagnostics already uploaded');
+    }
+    if (request.expiresAt <= new Date()) {
+      throw new Error('Upload token expired');
+    }
+
+    const fileName = this.sanitizeFileName(upload.fileName || request.fileName || `${request.id}.bin`);
+    const directory = path.join(this.storageDir, request.chargePointId);
+    const storedPath = path.join(directory, `${request.id}-${fileName}`);
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(storedPath, upload.data);
+
+    const updated = await this.db.updateDiagnosticsRequest(request.id, {
+      status: DiagnosticsStatus.RECEIVED,
+      fileName: request.fileName ?? fileName,
+      storedPath,
+      fileSize: upload.data.length,
+      contentType: upload.contentType,
+      checksum: createHash('sha256').update(upload.data).digest('hex'),
+      receivedAt: new Date(),
+      statusUpdatedAt: new Date(),
+    });
+
+    this.logger.info(`🩺 Diagnostics from ${request.chargePointId} stored (${upload.data.length} bytes)`);
+    return updated;
+  }
+
+  private sanitizeFileName(fileName: string): string {
+    return path.basename(fileName).replace(/[^\w.-]/g, '_');
+  }
+}
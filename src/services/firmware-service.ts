@@ -0,0 +1,346 @@
+import {
+  FirmwareRollout,
+  FirmwareRolloutStatus,
+  FirmwareUpdate,
+  FirmwareUpdateStatus,
+  FirmwareVersion
+} from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import { FirmwareStatusNotificationRequest, UpdateFirmwareRequest } from '../types/ocpp_types';
+
+type FirmwareUpdateWithRollout = FirmwareUpdate & { rollout: FirmwareRollout & { firmwareVersion: FirmwareVersion } };
+
+const statusFromOCPP: Record<Exclude<FirmwareStatusNotificationRequest['status'], 'Idle'>, FirmwareUpdateStatus> = {
+  Downloading: FirmwareUpdateStatus.DOWNLOADING,
+  Downloaded: FirmwareUpdateStatus.DOWNLOADED,
+  DownloadFailed: FirmwareUpdateStatus.DOWNLOAD_FAILED,
+  Installing: FirmwareUpdateStatus.INSTALLING,
+  Installed: FirmwareUpdateStatus.INSTALLED,
+  InstallationFailed: FirmwareUpdateStatus.INSTALLATION_FAILED,
+};
+
+// Updates the charge point is still working on
+const IN_FLIGHT_STATUSES: FirmwareUpdateStatus[] = [
+  FirmwareUpdateStatus.SENT,
+  FirmwareUpdateStatus.DOWNLOADING,
+  FirmwareUpdateStatus.DOWNLOADED,
+  FirmwareUpdateStatus.INSTALLING,
+  FirmwareUpdateStatus.INSTALLED,
+];
+
+const RETRYABLE_STATUSES: FirmwareUpdateStatus[] = [
+  FirmwareUpdateStatus.PENDING,
+  FirmwareUpdateStatus.DOWNLOAD_FAILED,
+  FirmwareUpdateStatus.INSTALLATION_FAILED,
+];
+
+const FINAL_STATUSES: FirmwareUpdateStatus[] = [
+  FirmwareUpdateStatus.VERIFIED,
+  FirmwareUpdateStatus.FAILED,
+  FirmwareUpdateStatus.CANCELLED,
+];
+
+export class FirmwareService {
+  private logger = Logger.getInstance();
+  private retryTimer?: NodeJS.Timeout;
+  private readonly retryCheckInterval = parseInt(process.env.FIRMWARE_RETRY_CHECK_MS || '60000');
+  private readonly retryDelay = parseInt(process.env.FIRMWARE_RETRY_DELAY_MS || '900000');
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  public start(): void {
+    if (this.retryTimer) return;
+
+    this.retryTimer = setInterval(() => {
+      this.processDueUpdates().catch((error) => {
+        this.logger.error('Error processing firmware updates:', error);
+      });
+    }, this.retryCheckInterval);
+  }
+
+  public stop(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+  }
+
+  /**
+   * Create a rollout for the given charge points and send UpdateFirmware to
+   * the connected ones. Charge points of another vendor/model are refused
+   * unless force is set.
+   */
+  public async startRollout(data: {
+    firmwareVersionId: string;
+    chargePointIds: string[];
+    name?: string;
+    retrieveDate?: Date;
+    retries?: number;
+    retryInterval?: number;
+    maxAttempts?: number;
+    force?: boolean;
+    createdBy?: string;
+  }): Promise<FirmwareRollout & { updates: FirmwareUpdate[] }> {
+    const firmware = await this.db.getFirmwareVersion(data.firmwareVersionId);
+    if (!firmware) {
+      throw new Error(`Firmware version ${data.firmwareVersionId} not found`);
+    }
+
+    const chargePoints = await this.db.getChargePointsByIds(data.chargePointIds);
+    const missing = data.chargePointIds.filter((id) => !chargePoints.some((cp) => cp.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Unknown charge point(s): ${missing.join(', ')}`);
+    }
+
+    if (!data.force) {
+      const mismatched = chargePoints.filter((cp) => cp.vendor !== firmware.vendor || cp.model !== firmware.model);
+      if (mismatched.length > 0) {
+        throw new Error(`Firmware is for ${firmware.vendor} ${firmware.model}, not for: ${mismatched.map((cp) => cp.id).join(', ')}`);
+      }
+    }
+
+    const rollout = await this.db.createFirmwareRollout({
+      firmwareVersionId: firmware.id,
+      name: data.name,
+      retrieveDate: data.retrieveDate ?? new Date(),
+      retries: data.retries,
+      retryInterval: data.retryInterval,
+      maxAttempts: data.maxAttempts,
+      createdBy: data.createdBy,
+    }, chargePoints);
+
+    this.logger.info(`📦 Firmware rollout ${rollout.id}: ${firmware.version} to ${chargePoints.length} charge point(s)`);
+
+    const connected = new Set(await this.ocppServer.getClusterConnectedChargePoints());
+    for (const update of rollout.updates) {
+      if (connected.has(update.chargePointId)) {
+        await this.dispatch(update.id);
+      }
+    }
+
+    return (await this.db.getFirmwareRollout(rollout.id))!;
+  }
+
+  /**
+   * Registered firmware for the charge point's vendor and model that is
+   * downloaded from location
+   */
+  public async findFirmwareVersion(chargePointId: string, location: string): Promise<FirmwareVersion | null> {
+    const chargePoint = await this.db.getChargePoint(chargePointId);
+    if (!chargePoint?.vendor || !chargePoint.model) return null;
+
+    return this.db.getFirmwareVersionByLocation(chargePoint.vendor, chargePoint.model, location);
+  }
+
+  /**
+   * Send a single UpdateFirmware, e.g. one queued while the charge point was
+   * offline, as a rollout of one so it is tracked like any other update. The
+   * caller handles retries; nothing is left pending when the send fails.
+   */
+  public async updateChargePoint(
+    chargePointId: string,
+    request: UpdateFirmwareRequest,
+    createdBy?: string
+  ): Promise<FirmwareUpdate> {
+    const firmware = await this.findFirmwareVersion(chargePointId, request.location);
+    if (!firmware) {
+      throw new Error(`No firmware version for ${chargePointId} is downloaded from ${request.location}`);
+    }
+
+    const rollout = await this.startRollout({
+      firmwareVersionId: firmware.id,
+      chargePointIds: [chargePointId],
+      retrieveDate: new Date(request.retrieveDate),
+      retries: request.retries,
+      retryInterval: request.retryInterval,
+      maxAttempts: 1,
+      createdBy,
+    });
+
+    const [update] = rollout.updates;
+    if (update.status !== FirmwareUpdateStatus.SENT) {
+      // Not sent at all when the charge point dropped off in the meantime
+      if (update.status === FirmwareUpdateStatus.PENDING) {
+        await this.cancelRollout(rollout.id);
+      }
+      throw new Error(update.lastError ?? `UpdateFirmware was not sent to ${chargePointId}`);
+    }
+
+    return update;
+  }
+
+  public async cancelRollout(rolloutId: string): Promise<{ cancelled: number }> {
+    const rollout = await this.db.getFirmwareRollout(rolloutId);
+    if (!rollout) {
+      throw new Error(`Rollout ${rolloutId} not found`);
+    }
+
+    // Charge points that already received UpdateFirmware cannot be stopped
+    const cancelled = await this.db.updateFirmwareUpdates(
+      { rolloutId, status: { in: RETRYABLE_STATUSES } },
+      { status: FirmwareUpdateStatus.CANCELLED, nextAttemptAt: null, statusUpdatedAt: new Date() }
+    );
+
+    await this.db.updateFirmwareRollout(rolloutId, { status: FirmwareRolloutStatus.CANCELLED });
+    return { cancelled };
+  }
+
+  /**
+   * Track FirmwareStatusNotification against the charge point's current update
+   */
+  public async handleStatusNotification(
+    chargePointId: string,
+    status: FirmwareStatusNotificationRequest['status']
+  ): Promise<void> {
+    // Idle is the answer to a TriggerMessage when nothing is going on
+    if (status === 'Idle') return;
+
+    const [update] = await this.db.getFirmwareUpdates({
+      chargePointId,
+      status: { in: [...IN_FLIGHT_STATUSES, FirmwareUpdateStatus.DOWNLOAD_FAILED, FirmwareUpdateStatus.INSTALLATION_FAILED] },
+    });
+
+    if (!update) {
+      this.logger.info(`📦 Firmware status ${status} from ${chargePointId} (no rollout in progress)`);
+      return;
+    }
+
+    const failed = status === 'DownloadFailed' || status === 'InstallationFailed';
+    const canRetry = failed && update.attempts < update.rollout.maxAttempts;
+
+    await this.db.updateFirmwareUpdate(update.id, {
+      status: failed && !canRetry ? FirmwareUpdateStatus.FAILED : statusFromOCPP[status],
+      statusUpdatedAt: new Date(),
+      ...(failed && { lastError: status }),
+      ...(canRetry && { nextAttemptAt: new Date(Date.now() + this.retryDelay) }),
+    });
+
+    this.logger.info(`📦 Firmware status ${status} from ${chargePointId} (rollout ${update.rolloutId})`);
+    await this.refreshRolloutStatus(update.rolloutId);
+  }
+
+  /**
+   * After a reboot the reported firmwareVersion tells whether the install
+   * took. Pending updates for the charge point are sent now that it is online.
+   */
+  public async onBoot(chargePointId: string, firmwareVersion?: string): Promise<void> {
+    const updates = await this.db.getFirmwareUpdates({
+      chargePointId,
+      status: { in: [...IN_FLIGHT_STATUSES, FirmwareUpdateStatus.INSTALLATION_FAILED] },
+    });
+
+    for (const update of updates) {
+      const target = update.rollout.firmwareVersion.version;
+
+      if (firmwareVersion && firmwareVersion === target) {
+        await this.db.updateFirmwareUpdate(update.id, {
+          status: FirmwareUpdateStatus.VERIFIED,
+          reportedVersion: firmwareVersion,
+          nextAttemptAt: null,
+          statusUpdatedAt: new Date(),
+        });
+        this.logger.info(`✅ ${chargePointId} is running firmware ${target}`);
+      } else if (update.status === FirmwareUpdateStatus.INSTALLED) {
+        // Installed but the charge point still reports another version
+        const canRetry = update.attempts < update.rollout.maxAttempts;
+        await this.db.updateFirmwareUpdate(update.id, {
+          status: canRetry ? FirmwareUpdateStatus.INSTALLATION_FAILED : FirmwareUpdateStatus.FAILED,
+          reportedVersion: firmwareVersion ?? null,
+          lastError: `Booted with firmware ${firmwareVersion ?? 'unknown'}, expected ${target}`,
+          nextAttemptAt: canRetry ? new Date(Date.now() + this.retryDelay) : null,
+          statusUpdatedAt: new Date(),
+        });
+        this.logger.warn(`⚠️ ${chargePointId} booted with firmware ${firmwareVersion}, expected ${target}`);
+      }
+
+      await this.refreshRolloutStatus(update.rolloutId);
+    }
+
+    const pending = await this.db.getFirmwareUpdates({
+      chargePointId,
+      status: FirmwareUpdateStatus.PENDING,
+      rollout: { status: FirmwareRolloutStatus.IN_PROGRESS },
+    });
+    for (const update of pending) {
+      await this.dispatch(update.id);
+    }
+  }
+
+  public async getChargePointUpdates(chargePointId: string): Promise<FirmwareUpdateWithRollout[]> {
+    return this.db.getFirmwareUpdates({ chargePointId });
+  }
+
+  private async dispatch(updateId: string): Promise<void> {
+    const update = await this.db.getFirmwareUpdate(updateId);
+    if (!update || update.rollout.status !== FirmwareRolloutStatus.IN_PROGRESS) return;
+
+    const { rollout } = update;
+    const attempts = update.attempts + 1;
+    const request: UpdateFirmwareRequest = {
+      location: rollout.firmwareVersion.location,
+      // A retry must not ask for a download in the past of the original window
+      retrieveDate: new Date(Math.max(rollout.retrieveDate.getTime(), Date.now())).toISOString(),
+      ...(rollout.retries !== null && { retries: rollout.retries }),
+      ...(rollout.retryInterval !== null && { retryInterval: rollout.retryInterval }),
+    };
+
+    try {
+      await this.ocppServer.sendMessage(update.chargePointId, 'UpdateFirmware', request);
+
+      await this.db.updateFirmwareUpdate(update.id, {
+        status: FirmwareUpdateStatus.SENT,
+        attempts,
+        lastAttemptAt: new Date(),
+        nextAttemptAt: null,
+        statusUpdatedAt: new Date(),
+      });
+      this.logger.info(`📦 UpdateFirmware sent to ${update.chargePointId} (attempt ${attempts}/${rollout.maxAttempts})`);
+    } catch (error: any) {
+      const canRetry = attempts < rollout.maxAttempts;
+      await this.db.updateFirmwareUpdate(update.id, {
+        status: canRetry ? FirmwareUpdateStatus.PENDING : FirmwareUpdateStatus.FAILED,
+        attempts,
+        lastAttemptAt: new Date(),
+        lastError: error.message,
+        nextAttemptAt: canRetry ? new Date(Date.now() + this.retryDelay) : null,
+        statusUpdatedAt: new Date(),
+      });
+      this.logger.warn(`⚠️ UpdateFirmware to ${update.chargePointId} failed (attempt ${attempts}/${rollout.maxAttempts}): ${error.message}`);
+      await this.refreshRolloutStatus(rollout.id);
+    }
+  }
+
+  private async processDueUpdates(): Promise<void> {
+    // Every instance retries the charge points connected to it
+    const connected = this.ocppServer.getConnectedChargePoints();
+    if (connected.length === 0) return;
+
+    const due = await this.db.getFirmwareUpdates({
+      chargePointId: { in: connected },
+      status: { in: RETRYABLE_STATUSES },
+      // No nextAttemptAt means the charge point was offline when the rollout started
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: new Date() } }],
+      rollout: { status: FirmwareRolloutStatus.IN_PROGRESS },
+    });
+
+    for (const update of due) {
+      await this.dispatch(update.id);
+    }
+  }
+
+  private async refreshRolloutStatus(rolloutId: string): Promise<void> {
+    const rollout = await this.db.getFirmwareRollout(rolloutId);
+    if (!rollout || rollout.status !== FirmwareRolloutStatus.IN_PROGRESS) return;
+
+    const done = rollout.updates.every((update: FirmwareUpdate) => FINAL_STATUSES.includes(update.status));
+    if (done) {
+      await this.db.updateFirmwareRollout(rolloutId, { status: FirmwareRolloutStatus.COMPLETED });
+      this.logger.info(`📦 Firmware rollout ${rolloutId} completed`);
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import { Site, Transaction } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { SmartChargingService } from './smart-charging-service';
+
+interface LiveSample {
+  current?: number; // A, highest phase
+  power?: number;   // W
+  timestamp: number;
+}
+
+export interface SessionAllocation {
+  chargePointId: string;
+  connectorId: number;
+  transactionId: number;
+  measuredCurrent: number | null;
+  limit: number;
+  sent: boolean;
+}
+
+export class LoadManagementService {
+  private logger = Logger.getInstance();
+  // -> key = `${chargePointId}:${connectorId}`
+  private liveSamples = new Map<string, LiveSample>();
+  // -> key = `${chargePointId}:${connectorId}:${transactionId}`, value = last limit sent (A)
+  private appliedLimits = new Map<string, number>();
+  private pendingRebalances = new Map<string, NodeJS.Timeout>();
+  private lastAllocations = new Map<string, { at: Date; capacity: number; sessions: SessionAllocation[] }>();
+  private periodicTimer?: NodeJS.Timeout;
+
+  private readonly debounceMs = parseInt(process.env.LOAD_BALANCING_DEBOUNCE_MS || '2000');
+  private readonly intervalMs = parseInt(process.env.LOAD_BALANCING_INTERVAL_MS || '60000');
+  private readonly stackLevel = parseInt(process.env.LOAD_BALANCING_STACK_LEVEL || '1');
+  private readonly sampleMaxAgeMs = 5 * 60 * 1000;
+  private readonly headroom = 2;       // A added on top of measured draw
+  private readonly minLimitChange = 1; // A below which no new profile is sent
+
+  constructor(
+    private db: DatabaseService,
+    private smartCharging: SmartChargingService
+  ) {}
+
+  public start(): void {
+    if (this.periodicTimer) return;
+
+    // Re-evaluate periodically so capacity freed by sessions drawing less
+    // than their limit is handed to the others
+    this.periodicTimer = setInterval(() => {
+      const siteIds = new Set(Array.from(this.lastAllocations.entries())
+        .filter(([, allocation]) => allocation.sessions.length > 0)
+        .map(([siteId]) => siteId));
+
+      siteIds.forEach((siteId) => this.scheduleRebalance(siteId));
+    }, this.intervalMs);
+  }
+
+  public stop(): void {
+    if (this.periodicTimer) {
+      clearInterval(this.periodicTimer);
+      this.periodicTimer = undefined;
+    }
+    this.pendingRebalances.forEach((timer) => clearTimeout(timer));
+    this.pendingRebalances.clear();
+  }
+
+  /**
+   * Record a live Current.Import / Power.Active.Import sample from MeterValues
+   */
+  public recordSample(
+    chargePointId: string,
+    connectorId: number,
+    measurand: string,
+    rawValue: string | number,
+    unit?: string
+  ): void {
+    const value = Number(rawValue);
+    if (Number.isNaN(value)) return;
+
+    const key = `${chargePointId}:${connectorId}`;
+    const sample = this.liveSamples.get(key) ?? { timestamp: 0 };
+    const isFresh = Date.now() - sample.timestamp < 1000;
+
+    if (measurand === 'Current.Import') {
+      // Per-phase samples arrive together; keep the highest phase
+      sample.current = isFresh && sample.current !== undefined ? Math.max(sample.current, value) : value;
+    } else if (measurand === 'Power.Active.Import') {
+      const watts = unit === 'kW' ? value * 1000 : value;
+      sample.power = isFresh && sample.power !== undefined ? sample.power + watts : watts;
+    } else {
+      return;
+    }
+
+    sample.timestamp = Date.now();
+    this.liveSamples.set(key, sample);
+  }
+
+  /**
+   * Called when a session starts or stops on a charge point
+   */
+  public async onSessionChanged(chargePointId: string): Promise<void> {
+    const siteId = await this.db.getChargePointSiteId(chargePointId);
+    if (siteId) {
+      this.scheduleRebalance(siteId);
+    }
+  }
+
+  public scheduleRebalance(siteId: string): void {
+    const existing = this.pendingRebalances.get(siteId);
+    if (existing) clearTimeout(existing);
+
+    this.pendingRebalances.set(siteId, setTimeout(() => {
+      this.pendingRebalances.delete(siteId);
+      this.rebalance(siteId).catch((error) => {
+        this.logger.error(`Load balancing failed for site ${siteId}:`, error);
+      });
+    }, this.debounceMs));
+  }
+
+  /**
+   * Split the site's available current across its active sessions and push
+   * the result as TxProfile limits.
+   */
+  public async rebalance(siteId: string): Promise<SessionAllocation[]> {
+    const site = await this.db.getSite(siteId);
+    if (!site || !site.loadBalancingEnabled) {
+      return [];
+    }
+
+    const capacity = this.getAvailableCurrent(site);
+    const transactions = await this.db.getActiveTransactionsForSite(siteId);
+    const limits = this.allocate(site, capacity, transactions);
+
+    const allocations: SessionAllocation[] = [];
+    for (const tx of transactions) {
+      const key = `${tx.chargePointId}:${tx.connectorId}:${tx.transactionId}`;
+      const limit = limits.get(tx.transactionId) ?? 0;
+      const previous = this.appliedLimits.get(key);
+      const measuredCurrent = this.getMeasuredCurrent(site, tx.chargePointId, tx.connectorId);
+      let sent = false;
+
+      if (previous === undefined || Math.abs(previous - limit) >= this.minLimitChange) {
+        try {
+          const result = await this.smartCharging.setChargingProfile({
+            chargePointId: tx.chargePointId,
+            connectorId: tx.connectorId,
+            transactionId: tx.transactionId,
+            stackLevel: this.stackLevel,
+            purpose: 'TxProfile',
+            kind: 'Relative',
+            chargingRateUnit: 'A',
+            chargingSchedulePeriod: [{ startPeriod: 0, limit, numberPhases: site.phases }],
+            source: 'load-management',
+          });
+
+          if (result.status === 'Accepted') {
+            this.appliedLimits.set(key, limit);
+            sent = true;
+          }
+        } catch (error: any) {
+          this.logger.warn(`⚠️ Could not apply ${limit}A to ${tx.chargePointId}:${tx.connectorId}: ${error.message}`);
+        }
+      }
+
+      allocations.push({
+        chargePointId: tx.chargePointId,
+        connectorId: tx.connectorId,
+        transactionId: tx.transactionId,
+        measuredCurrent: measuredCurrent ?? null,
+        limit,
+        sent,
+      });
+    }
+
+    this.forgetFinishedSessions(site.chargePoints.map((cp) => cp.id), transactions);
+    this.lastAllocations.set(siteId, { at: new Date(), capacity, sessions: allocations });
+    this.logger.info(`⚖️ Site ${site.name}: ${capacity}A shared across ${transactions.length} session(s)`);
+
+    return allocations;
+  }
+
+  public getSiteLoad(siteId: string): { at: Date; capacity: number; sessions: SessionAllocation[] } | null {
+    return this.lastAllocations.get(siteId) ?? null;
+  }
+
+  public getAvailableCurrent(site: Site): number {
+    let capacity = site.maxImportCurrent;
+    if (site.maxImportPower) {
+      capacity = Math.min(capacity, site.maxImportPower / (site.voltage * site.phases));
+    }
+    return Math.max(0, Math.floor((capacity - site.reservedCurrent) * 10) / 10);
+  }
+
+  /**
+   * Water-filling: sessions drawing less than an equal share keep what they
+   * use plus headroom, the rest is split evenly among the others. Sessions
+   * that cannot get the minimum current are paused with a 0A limit, newest
+   * first.
+   */
+  private allocate(site: Site, capacity: number, transactions: Transaction[]): Map<number, number> {
+    const limits = new Map<number, number>();
+    const minCurrent = site.minCurrentPerConnector;
+    const maxSessions = minCurrent > 0 ? Math.floor(capacity / minCurrent) : transactions.length;
+
+    const served = transactions.slice(0, maxSessions);
+    transactions.slice(maxSessions).forEach((tx) => limits.set(tx.transactionId, 0));
+
+    const demands = served.map((tx) => {
+      const measured = this.getMeasuredCurrent(site, tx.chargePointId, tx.connectorId);
+      const applied = this.appliedLimits.get(`${tx.chargePointId}:${tx.connectorId}:${tx.transactionId}`);
+
+      // A session running at (or near) its limit may want more, so only
+      // trust the measurement when it is clearly below the limit
+      const demand = measured !== undefined && applied !== undefined && measured < applied * 0.9
+        ? Math.max(minCurrent, measured + this.headroom)
+        : Infinity;
+
+      return { tx, demand };
+    }).sort((a, b) => a.demand - b.demand);
+
+    let remaining = capacity;
+    demands.forEach(({ tx, demand }, index) => {
+      const share = remaining / (demands.length - index);
+      const limit = Math.max(minCurrent, Math.floor(Math.min(demand, share) * 10) / 10);
+      limits.set(tx.transactionId, limit);
+      remaining -= limit;
+    });
+
+    return limits;
+  }
+
+  // Chargers that only report power get their current derived from the site's supply
+  private getMeasuredCurrent(site: Site, chargePointId: string, connectorId: number): number | undefined {
+    const sample = this.getFreshSample(chargePointId, connectorId);
+    if (sample?.current !== undefined) return sample.current;
+    if (sample?.power === undefined) return undefined;
+
+    return Math.round(sample.power / (site.voltage * site.phases) * 10) / 10;
+  }
+
+  private getFreshSample(chargePointId: string, connectorId: number): LiveSample | undefined {
+    const sample = this.liveSamples.get(`${chargePointId}:${connectorId}`);
+    if (!sample || Date.now() - sample.timestamp > this.sampleMaxAgeMs) {
+      return undefined;
+    }
+    return sample;
+  }
+
+  private forgetFinishedSessions(chargePointIds: string[], active: Transaction[]): void {
+    const activeKeys = new Set(active.map((tx) => `${tx.chargePointId}:${tx.connectorId}:${tx.transactionId}`));
+    const siteChargePoints = new Set(chargePointIds);
+
+    Array.from(this.appliedLimits.keys()).forEach((key) => {
+      const [chargePointId] = key.split(':');
+      if (siteChargePoints.has(chargePointId) && !activeKeys.has(key)) {
+        this.appliedLimits.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,299 @@
+import { IdTag, Prisma } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import { idTagStatus } from '../helpers/helper';
+import {
+  AuthorizationData,
+  GetLocalListVersionResponse,
+  IdTagInfo,
+  SendLocalListRequest,
+  SendLocalListResponse
+} from '../types/ocpp_types';
+
+type LocalListSnapshot = Record<string, IdTagInfo>;
+
+export interface LocalListSyncResult {
+  chargePointId: string;
+  status: SendLocalListResponse['status'] | 'UpToDate';
+  updateType?: SendLocalListRequest['updateType'];
+  listVersion: number | null;
+  changes: number;
+}
+
+export class LocalListService {
+  private logger = Logger.getInstance();
+  private expiryTimer?: NodeJS.Timeout;
+  private lastExpiryCheck = new Date();
+  // Serialises syncs per charge point so list versions stay monotonic
+  private syncQueue = new Map<string, Promise<unknown>>();
+  private readonly expiryCheckInterval = parseInt(process.env.LOCAL_LIST_EXPIRY_CHECK_MS || '60000');
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  public start(): void {
+    if (this.expiryTimer) return;
+
+    this.lastExpiryCheck = new Date();
+    this.expiryTimer = setInterval(() => {
+      this.pushExpiredTags().catch((error) => {
+        this.logger.error('Error pushing expired idTags to local lists:', error);
+      });
+    }, this.expiryCheckInterval);
+  }
+
+  public stop(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+
+  /**
+   * Bring the charge point's local list in line with its assigned list.
+   * A differential update is sent when the acknowledged snapshot is known,
+   * otherwise (or on VersionMismatch) the full list is sent.
+   */
+  public syncChargePoint(chargePointId: string, options?: { forceFull?: boolean }): Promise<LocalListSyncResult> {
+    return this.serialise(chargePointId, () => this.doSync(chargePointId, options?.forceFull ?? false));
+  }
+
+  /**
+   * Send a list put together by the caller, e.g. one queued while the charge
+   * point was offline. The version is recorded as for a sync; the snapshot
+   * only when it can be worked out, otherwise the next sync is a full one.
+   */
+  public sendLocalList(chargePointId: string, request: SendLocalListRequest): Promise<SendLocalListResponse['status']> {
+    return this.serialise(chargePointId, async () => {
+      const state = await this.db.getChargePointLocalListState(chargePointId);
+      if (!state) {
+        throw new Error(`Charge point ${chargePointId} not found`);
+      }
+
+      const base = request.updateType === 'Full' ? {} : state.localListSnapshot as LocalListSnapshot | null;
+      return this.send(chargePointId, request, base && this.apply(base, request.localAuthorizationList ?? []));
+    });
+  }
+
+  public async syncList(listId: string, options?: { forceFull?: boolean }): Promise<LocalListSyncResult[]> {
+    const chargePointIds = await this.db.getChargePointIdsForLocalAuthList(listId);
+    return this.syncConnected(chargePointIds, options);
+  }
+
+  /**
+   * Compare the version held by the charge point with the one we recorded.
+   * On a mismatch the stored snapshot is dropped so the next sync is a full one.
+   */
+  public async getLocalListVersion(chargePointId: string): Promise<{
+    listVersion: number;
+    storedVersion: number | null;
+    inSync: boolean;
+  }> {
+    const response: GetLocalListVersionResponse = await this.ocppServer.sendMessage(
+      chargePointId,
+      'GetLocalListVersion',
+      {}
+    );
+
+    const state = await this.db.getChargePointLocalListState(chargePointId);
+    const storedVersion = state?.localListVersion ?? null;
+    const inSync = storedVersion !== null && response?.listVersion === storedVersion;
+
+    if (!inSync && state) {
+      await this.db.updateChargePointLocalListState(chargePointId, {
+        localListSnapshot: Prisma.DbNull,
+      });
+    }
+
+    return { listVersion: response?.listVersion, storedVersion, inSync };
+  }
+
+  /**
+   * Called after an idTag is blocked, expired or deleted
+   */
+  public async onIdTagChanged(idTag: string): Promise<LocalListSyncResult[]> {
+    const chargePointIds = await this.db.getChargePointIdsForIdTag(idTag);
+    if (chargePointIds.length === 0) return [];
+
+    this.logger.info(`🏷️ IdTag ${idTag} changed, updating local lists on ${chargePointIds.length} charge point(s)`);
+    return this.syncConnected(chargePointIds);
+  }
+
+  /**
+   * Charge points that were offline during a change catch up after booting
+   */
+  public async onBoot(chargePointId: string): Promise<void> {
+    const state = await this.db.getChargePointLocalListState(chargePointId);
+    if (!state || (!state.localAuthListId && !state.localListSnapshot)) return;
+
+    const result = await this.syncChargePoint(chargePointId);
+    if (result.status !== 'UpToDate') {
+      this.logger.info(`📋 Local list on ${chargePointId} synced after boot → ${result.status}`);
+    }
+  }
+
+  private async syncConnected(
+    chargePointIds: string[],
+    options?: { forceFull?: boolean }
+  ): Promise<LocalListSyncResult[]> {
+    const connected = new Set(await this.ocppServer.getClusterConnectedChargePoints());
+    const results: LocalListSyncResult[] = [];
+
+    for (const chargePointId of chargePointIds.filter((id) => connected.has(id))) {
+      try {
+        results.push(await this.syncChargePoint(chargePointId, options));
+      } catch (error: any) {
+        this.logger.warn(`⚠️ Local list sync failed for ${chargePointId}: ${error.message}`);
+      }
+    }
+
+    return results;
+  }
+
+  private serialise<T>(chargePointId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.syncQueue.get(chargePointId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(task);
+
+    this.syncQueue.set(chargePointId, next);
+    next.finally(() => {
+      if (this.syncQueue.get(chargePointId) === next) {
+        this.syncQueue.delete(chargePointId);
+      }
+    }).catch(() => undefined);
+
+    return next;
+  }
+
+  private async doSync(chargePointId: string, forceFull: boolean): Promise<LocalListSyncResult> {
+    const state = await this.db.getChargePointLocalListState(chargePointId);
+    if (!state) {
+      throw new Error(`Charge point ${chargePointId} not found`);
+    }
+
+    const desired = state.localAuthListId
+      ? await this.buildSnapshot(state.localAuthListId)
+      : {};
+    const current = state.localListSnapshot as LocalListSnapshot | null;
+    const nextVersion = (state.localListVersion ?? 0) + 1;
+
+    if (!forceFull && current && state.localListVersion !== null) {
+      const changes = this.diff(current, desired);
+      if (changes.length === 0) {
+        return { chargePointId, status: 'UpToDate', listVersion: state.localListVersion, changes: 0 };
+      }
+
+      const status = await this.send(chargePointId, {
+        listVersion: nextVersion,
+        updateType: 'Differential',
+        localAuthorizationList: changes,
+      }, desired);
+
+      if (status !== 'VersionMismatch') {
+        return { chargePointId, status, updateType: 'Differential', listVersion: nextVersion, changes: changes.length };
+      }
+
+      this.logger.warn(`📋 Local list version mismatch on ${chargePointId}, sending full list`);
+    }
+
+    const entries = Object.entries(desired).map(([idTag, idTagInfo]) => ({ idTag, idTagInfo }));
+    const status = await this.send(chargePointId, {
+      listVersion: nextVersion,
+      updateType: 'Full',
+      localAuthorizationList: entries,
+    }, desired);
+
+    return { chargePointId, status, updateType: 'Full', listVersion: nextVersion, changes: entries.length };
+  }
+
+  private async send(
+    chargePointId: string,
+    request: SendLocalListRequest,
+    desired: LocalListSnapshot | null
+  ): Promise<SendLocalListResponse['status']> {
+    const response: SendLocalListResponse = await this.ocppServer.sendMessage(chargePointId, 'SendLocalList', request);
+    const status = response?.status;
+
+    await this.db.updateChargePointLocalListState(chargePointId, {
+      localListSyncStatus: status,
+      localListSyncedAt: new Date(),
+      ...(status === 'Accepted' && {
+        localListVersion: request.listVersion,
+        localListSnapshot: desired ? desired as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+      }),
+    });
+
+    this.logger.info(`📋 SendLocalList ${request.updateType} v${request.listVersion} (${request.localAuthorizationList?.length ?? 0} entries) to ${chargePointId} → ${status}`);
+    return status;
+  }
+
+  private async buildSnapshot(listId: string): Promise<LocalListSnapshot> {
+    const tags = await this.db.getLocalAuthListTags(listId);
+    const snapshot: LocalListSnapshot = {};
+
+    for (const tag of tags) {
+      // Deleted tags are dropped from the list rather than sent as Invalid
+      if (!tag.isActive) continue;
+      snapshot[tag.idTag] = this.toIdTagInfo(tag);
+    }
+
+    return snapshot;
+  }
+
+  private diff(current: LocalListSnapshot, desired: LocalListSnapshot): AuthorizationData[] {
+    const changes: AuthorizationData[] = [];
+
+    for (const [idTag, idTagInfo] of Object.entries(desired)) {
+      if (JSON.stringify(current[idTag]) !== JSON.stringify(idTagInfo)) {
+        changes.push({ idTag, idTagInfo });
+      }
+    }
+
+    for (const idTag of Object.keys(current)) {
+      if (!(idTag in desired)) {
+        changes.push({ idTag });
+      }
+    }
+
+    return changes;
+  }
+
+  // Entries without idTagInfo remove the idTag
+  private apply(snapshot: LocalListSnapshot, changes: AuthorizationData[]): LocalListSnapshot {
+    const next: LocalListSnapshot = { ...snapshot };
+
+    for (const { idTag, idTagInfo } of changes) {
+      if (idTagInfo) {
+        next[idTag] = idTagInfo;
+      } else {
+        delete next[idTag];
+      }
+    }
+
+    return next;
+  }
+
+  private toIdTagInfo(tag: IdTag): IdTagInfo {
+    const expired = tag.expiryDate !== null && tag.expiryDate <= new Date();
+
+    return {
+      status: expired && tag.status === 'ACCEPTED' ? 'Expired' : idTagStatus(tag.status),
+      ...(tag.expiryDate && { expiryDate: tag.expiryDate.toISOString() }),
+      ...(tag.parentIdTag && { parentIdTag: tag.parentIdTag }),
+    };
+  }
+
+  private async pushExpiredTags(): Promise<void> {
+    const now = new Date();
+    const expired = await this.db.getIdTagsExpiredBetween(this.lastExpiryCheck, now);
+    this.lastExpiryCheck = now;
+
+    for (const tag of expired) {
+      await this.onIdTagChanged(tag.idTag);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { MessageDirection, Prisma } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { MessageType } from '../types/ocpp_types';
+
+interface OpenCall {
+  action: string;
+  direction: MessageDirection;
+  sentAt: number;
+}
+
+// Calls time out after 30 s, anything answered later is not matched
+const OPEN_CALL_TTL_MS = 120000;
+const MAX_BUFFERED_ENTRIES = 10000;
+
+/**
+ * Records the raw OCPP traffic in ocpp_logs: every CALL, CALLRESULT and
+ * CALLERROR in both directions, plus frames that could not be parsed.
+ * Answers carry the action and the latency of the CALL they belong to.
+ *
+ * Entries are buffered and written in batches so logging never holds up a
+ * message. Entries older than OCPP_LOG_RETENTION_DAYS (30, 0 keeps them)
+ * are purged once an hour. OCPP_MESSAGE_LOG=false turns logging off.
+ */
+export class MessageLogService {
+  private logger = Logger.getInstance();
+  private buffer: Prisma.OcppMessageLogCreateManyInput[] = [];
+  private openCalls = new Map<string, OpenCall>();
+  private flushing?: Promise<void>;
+  private flushTimer?: NodeJS.Timeout;
+  private retentionTimer?: NodeJS.Timeout;
+  private readonly enabled = process.env.OCPP_MESSAGE_LOG !== 'false';
+  private readonly flushInterval = parseInt(process.env.OCPP_LOG_FLUSH_MS || '2000');
+  private readonly batchSize = parseInt(process.env.OCPP_LOG_BATCH_SIZE || '200');
+  private readonly retentionDays = parseInt(process.env.OCPP_LOG_RETENTION_DAYS || '30');
+
+  constructor(private db: DatabaseService) {}
+
+  public start(): void {
+    if (!this.enabled || this.flushTimer) return;
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((error) => {
+        this.logger.error('Error writing OCPP message log:', error);
+      });
+    }, this.flushInterval);
+
+    if (this.retentionDays > 0) {
+      this.retentionTimer = setInterval(() => {
+        this.purgeExpired().catch((error) => {
+          this.logger.error('Error purging OCPP message log:', error);
+        });
+      }, 3600000);
+    }
+  }
+
+  public stop(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = undefined;
+    }
+  }
+
+  // Raw frame as received, so frames that are not valid JSON are kept too
+  public logInbound(chargePointId: string, data: string): void {
+    if (!this.enabled) return;
+
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      message = undefined;
+    }
+
+    if (!Array.isArray(message)) {
+      this.push({
+        chargePointId,
+        direction: MessageDirection.INBOUND,
+        payload: data,
+        errorDescription: 'Unparseable frame',
+      });
+      return;
+    }
+
+    this.record(chargePointId, MessageDirection.INBOUND, message);
+  }
+
+  public logOutbound(chargePointId: string, message: any[]): void {
+    if (!this.enabled) return;
+
+    this.record(chargePointId, MessageDirection.OUTBOUND, message);
+  }
+
+  /**
+   * Write the buffered entries. Entries are dropped when the database stays
+   * unavailable and the buffer fills up.
+   */
+  public async flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+
+    this.flushing = (async () => {
+      while (this.buffer.length > 0) {
+        const batch = this.buffer.splice(0, this.batchSize);
+        try {
+          await this.db.createOcppMessageLogs(batch);
+        } catch (error) {
+          this.buffer.unshift(...batch);
+          if (this.buffer.length > MAX_BUFFERED_ENTRIES) {
+            const dropped = this.buffer.splice(0, this.buffer.length - MAX_BUFFERED_ENTRIES).length;
+            this.logger.warn(`⚠️ OCPP message log buffer full, dropped ${dropped} entries`);
+          }
+          throw error;
+        }
+      }
+      this.pruneOpenCalls();
+    })().finally(() => {
+      this.flushing = undefined;
+    });
+
+    return this.flushing;
+  }
+
+  public async purgeExpired(): Promise<number> {
+    if (this.retentionDays <= 0) return 0;
+
+    const cutoff = new Date(Date.now() - this.retentionDays * 86400000);
+    const deleted = await this.db.deleteOcppMessageLogsBefore(cutoff);
+    if (deleted > 0) {
+      this.logger.info(`🧹 Purged ${deleted} OCPP message log entries older than ${this.retentionDays} days`);
+    }
+    return deleted;
+  }
+
+  private record(chargePointId: string, direction: MessageDirection, message: any[]): void {
+    const [messageType, uniqueId] = message;
+    const now = Date.now();
+
+    switch (messageType) {
+      case MessageType.CALL:
+        this.openCalls.set(`${chargePointId}:${uniqueId}`, { action: message[2], direction, sentAt: now });
+        this.push({
+          chargePointId,
+          direction,
+          messageType,
+          uniqueId,
+          action: message[2],
+          payload: message[3],
+        });
+        break;
+
+      case MessageType.CALLRESULT:
+      case MessageType.CALLERROR: {
+        const key = `${chargePointId}:${uniqueId}`;
+        const call = this.openCalls.get(key);
+        // Only an answer from the other side closes the call
+        const answered = call && call.direction !== direction ? call : undefined;
+        if (answered) this.openCalls.delete(key);
+
+        this.push({
+          chargePointId,
+          direction,
+          messageType,
+          uniqueId,
+          action: answered?.action,
+          latencyMs: answered ? now - answered.sentAt : undefined,
+          ...(messageType === MessageType.CALLRESULT
+            ? { payload: message[2] }
+            : { errorCode: message[2], errorDescription: message[3], payload: message[4] }),
+        });
+        break;
+      }
+
+      default:
+        this.push({
+          chargePointId,
+          direction,
+          messageType: typeof messageType === 'number' ? messageType : undefined,
+          uniqueId: typeof uniqueId === 'string' ? uniqueId : undefined,
+          payload: message,
+          errorDescription: 'Unknown message type',
+        });
+    }
+  }
+
+  private push(entry: Omit<Prisma.OcppMessageLogCreateManyInput, 'payload'> & { payload?: any }): void {
+    this.buffer.push({
+      ...entry,
+      payload: entry.payload === undefined || entry.payload === null ? Prisma.DbNull : entry.payload,
+      timestamp: new Date(),
+    });
+
+    if (this.buffer.length >= this.batchSize) {
+      this.flush().catch((error) => {
+        this.logger.error('Error writing OCPP message log:', error);
+      });
+    }
+  }
+
+  private pruneOpenCalls(): void {
+    const cutoff = Date.now() - OPEN_CALL_TTL_MS;
+    for (const [key, call] of this.openCalls) {
+      if (call.sentAt < cutoff) this.openCalls.delete(key);
+    }
+  }
+}
@@ -1,10 +1,32 @@
 // src/services/ocpp-server.ts
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server as HttpServer } from 'http'
+import { Server as HttpServer, IncomingMessage, STATUS_CODES } from 'http'
+import { Duplex } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import { Logger } from '../Utils/logger';
 import { OCPPMessageHandler } from '../handlers/ocpp_handlers';
+import { translateCommandTo201 } from '../handlers/ocpp201_handlers';
 import { ChargePointManager } from '../services/charge-point-manager';
+import { ReservationManager } from '../services/reservation-manager';
+import { SmartChargingService } from '../services/smart-charging-service';
+import { LoadManagementService } from '../services/load-management-service';
+import { LocalListService } from '../services/local-list-service';
+import { AuthCacheService } from '../services/auth-cache-service';
+import { FirmwareService } from '../services/firmware-service';
+import { DiagnosticsService } from '../services/diagnostics-service';
+import { DataTransferRegistry } from '../services/data-transfer-registry';
+import { AvailabilityService } from '../services/availability-service';
+import { ChargePointProvisioning } from '../services/charge-point-provisioning';
+import { MessageLogService } from './message-log-service';
+import { PayloadValidator } from './payload-validator';
+import { CallDeduplicator } from './call-deduplicator';
+import { CallOptions, OutboundCallQueue, QueuedCall } from './outbound-call-queue';
+import { OfflineCommandService } from './offline-command-service';
+import { ClusterRouter } from './cluster-router';
+import { ChargePointSecurity } from '../services/charge-point-security';
+import { CertificateAuthority } from '../services/certificate-authority';
+import { CertificateService } from '../services/certificate-service';
+import { registerGbtDataTransferHandlers } from '../handlers/gbt_data_transfer';
 import { DatabaseService } from '../services/database';
 import { RedisService } from '../services/redis';
 import {
@@ -13,16 +35,85 @@ import {
   MessageType,
   ChargingStationData,
   ConfigRequestValues,
-  ConnectorNumResponse
+  ConnectorNumResponse,
+  DataTransferRequest,
+  DataTransferResponse,
+  TriggerMessageRequest,
+  TriggerMessageResponse,
+  TriggerMessageType,
+  OCPPVersion
 } from '../types/ocpp_types';
+import {
+  GetVariableData201,
+  GetVariableResult201,
+  SetVariableData201,
+  SetVariableResult201
+} from '../types/ocpp201_types';
 import { APIGateway } from './api_gateway';
 import { ChargePointStatus } from '../types/ocpp_types';
 
+// Sec-WebSocket-Protocol values, in order of preference
+const OCPP_PROTOCOLS: Record<string, OCPPVersion> = {
+  'ocpp1.6': '1.6',
+  'ocpp2.0.1': '2.0.1',
+};
+
+/**
+ * handleProtocols callback for the WebSocket server. Chargers that offer
+ * both versions are run on 1.6. Handshakes without a supported subprotocol
+ * are rejected in handleUpgrade before they get here.
+ */
+export const selectOcppProtocol = (protocols: Set<string>): string | false => {
+  return Object.keys(OCPP_PROTOCOLS).find((protocol) => protocols.has(protocol)) ?? false;
+};
+
+// OCPP endpoints are served at the root, e.g. /CP001, unless a prefix such as /ocpp is set
+export const OCPP_PATH_PREFIX = (process.env.OCPP_PATH_PREFIX || '').replace(/\/+$/, '');
+
+export interface TriggeredMessage {
+  action: TriggerMessageType;
+  payload: any;
+  receivedAt: Date;
+}
+
+interface MessageWaiter {
+  action: TriggerMessageType;
+  connectorId?: number;
+  messages: TriggeredMessage[];
+  // StatusNotification for the whole charge point arrives once per connector
+  collectAll: boolean;
+  settleTimer?: NodeJS.Timeout;
+  finish: () => void;
+}
+
 export class OCPPServer {
   private logger = Logger.getInstance();
   private connections = new Map<string, ChargePointConnection>();
+  // -> key = chargePointId, callers waiting for a triggered message
+  private messageWaiters = new Map<string, MessageWaiter[]>();
+  private readonly triggerTimeout = parseInt(process.env.TRIGGER_MESSAGE_TIMEOUT_MS || '30000');
+  private readonly triggerSettleTime = 1500;
   private messageHandler: OCPPMessageHandler;
   private chargePointManager: ChargePointManager;
+  private reservationManager: ReservationManager;
+  private smartChargingService: SmartChargingService;
+  private loadManagementService: LoadManagementService;
+  private localListService: LocalListService;
+  private authCacheService: AuthCacheService;
+  private firmwareService: FirmwareService;
+  private diagnosticsService: DiagnosticsService;
+  private dataTransferRegistry: DataTransferRegistry;
+  private availabilityService: AvailabilityService;
+  private provisioning: ChargePointProvisioning;
+  private security: ChargePointSecurity;
+  private certificateAuthority: CertificateAuthority;
+  private certificateService: CertificateService;
+  private messageLog: MessageLogService;
+  private payloadValidator: PayloadValidator;
+  private callDeduplicator: CallDeduplicator;
+  private outboundQueue: OutboundCallQueue;
+  private offlineCommands: OfflineCommandService;
+  private clusterRouter: ClusterRouter;
 
   constructor(
     private wss: WebSocketServer,
@@ -32,24 +123,146 @@ export class OCPPServer {
   ) {
     this.messageHandler = new OCPPMessageHandler(this.db, this.redis, apiGateway);
     this.chargePointManager = new ChargePointManager(this.db, this.redis);
+    this.reservationManager = new ReservationManager(this.db, this);
+    this.smartChargingService = new SmartChargingService(this.db, this);
+    this.loadManagementService = new LoadManagementService(this.db, this.smartChargingService);
+    this.localListService = new LocalListService(this.db, this);
+    this.authCacheService = new AuthCacheService(this.db, this);
+    this.firmwareService = new FirmwareService(this.db, this);
+    this.diagnosticsService = new DiagnosticsService(this.db, this);
+    this.dataTransferRegistry = new DataTransferRegistry();
+    registerGbtDataTransferHandlers(this.dataTransferRegistry, this.db);
+    this.availabilityService = new AvailabilityService(this.db, this);
+    this.provisioning = new ChargePointProvisioning(this.db, this);
+    this.security = new ChargePointSecurity(this.db, this);
+    this.certificateAuthority = new CertificateAuthority();
+    this.certificateService = new CertificateService(this.db, this, this.certificateAuthority);
+    this.messageLog = new MessageLogService(this.db);
+    this.payloadValidator = new PayloadValidator(this.db);
+    this.callDeduplicator = new CallDeduplicator(this.redis);
+    this.outboundQueue = new OutboundCallQueue(this.executeCall.bind(this));
+    this.offlineCommands = new OfflineCommandService(this.db, this);
+    this.clusterRouter = new ClusterRouter(this.redis, this.chargePointManager, this);
+    this.messageHandler.setOcppServer(this);
   }
 
   public initialize(): void {
     this.wss.on('connection', this.handleConnection.bind(this));
     this.setupHeartbeatCheck();
+    this.reservationManager.start();
+    this.loadManagementService.start();
+    this.localListService.start();
+    this.firmwareService.start();
+    this.availabilityService.start();
+    this.offlineCommands.start();
+    this.clusterRouter.start().catch((error) => {
+      this.logger.error('❌ Cluster routing unavailable, only local charge points can be reached:', error);
+    });
+    this.messageLog.start();
     this.logger.info('✅ OCPP Server initialized and listening for connections');
   }
 
+  /**
+   * HTTP upgrade handler for OCPP connections. The handshake is refused
+   * unless the path is <prefix>/<chargePointId>, the charger offers a
+   * supported OCPP subprotocol, the charge point may connect and it passes
+   * the checks of its security profile.
+   */
+  public async handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    socket.on('error', (error) => {
+      this.logger.warn(`⚠️ Socket error during OCPP handshake: ${error.message}`);
+    });
+
+    const chargePointID = this.getChargePointIdFromPath(request.url);
+    if (!chargePointID) {
+      this.logger.warn(`❌ Connection rejected: ${request.url} is not an OCPP endpoint`);
+      return this.rejectUpgrade(socket, 404, `OCPP endpoints are served at ${OCPP_PATH_PREFIX}/<chargePointId>`);
+    }
+
+    const offered = new Set(
+      (request.headers['sec-websocket-protocol'] || '')
+        .split(',')
+        .map((protocol) => protocol.trim())
+        .filter(Boolean)
+    );
+    if (!selectOcppProtocol(offered)) {
+      this.logger.warn(`❌ Connection rejected for ${chargePointID}: unsupported subprotocol "${Array.from(offered).join(', ')}"`);
+      return this.rejectUpgrade(socket, 400, `Supported subprotocols: ${Object.keys(OCPP_PROTOCOLS).join(', ')}`);
+    }
+
+    try {
+      if (!(await this.provisioning.isConnectionAllowed(chargePointID))) {
+        this.logger.warn(`❌ Connection rejected: charge point ${chargePointID} is not known or allowed`);
+        return this.rejectUpgrade(socket, 404, 'Unknown charge point');
+      }
+
+      const auth = await this.security.authenticate(chargePointID, request);
+      if (!auth.allowed) {
+        this.logger.warn(`❌ Connection rejected for ${chargePointID}: ${auth.reason}`);
+        return this.rejectUpgrade(
+          socket,
+          auth.statusCode ?? 401,
+          auth.reason ?? 'Unauthorized',
+          auth.statusCode === 401 ? { 'WWW-Authenticate': 'Basic realm="OCPP", charset="UTF-8"' } : {}
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`❌ Connection checks failed for ${chargePointID}: ${error.message}`);
+      return this.rejectUpgrade(socket, 503, 'Service unavailable');
+    }
+
+    this.wss.handleUpgrade(request, socket, head, (ws) => {
+      this.wss.emit('connection', ws, request);
+    });
+  }
+
+  private getChargePointIdFromPath(requestUrl?: string): string | null {
+    if (!requestUrl) return null;
+
+    let pathname: string;
+    try {
+      pathname = new URL(requestUrl, 'http://localhost').pathname.replace(/\/+$/, '');
+    } catch {
+      return null;
+    }
+
+    // Without a prefix the last path segment is the id, as it always was
+    let chargePointId = pathname.slice(pathname.lastIndexOf('/') + 1);
+    if (OCPP_PATH_PREFIX) {
+      if (!pathname.startsWith(`${OCPP_PATH_PREFIX}/`)) return null;
+      chargePointId = pathname.slice(OCPP_PATH_PREFIX.length + 1);
+    }
+    if (!chargePointId || chargePointId.includes('/')) return null;
+
+    try {
+      return decodeURIComponent(chargePointId);
+    } catch {
+      return null;
+    }
+  }
+
+  private rejectUpgrade(socket: Duplex, statusCode: number, message: string, headers: Record<string, string> = {}): void {
+    if (socket.writable) {
+      socket.write(
+        `HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode]}\r\n` +
+        Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`).join('') +
+        'Connection: close\r\n' +
+        'Content-Type: text/plain\r\n' +
+        `Content-Length: ${Buffer.byteLength(message)}\r\n` +
+        `\r\n${message}`
+      );
+    }
+    socket.destroy();
+  }
+
   private async handleConnection(ws: WebSocket, request: any): Promise<void> {
     try {
-      const url = new URL(request.url!, `http://${request.headers.host}`);
-      const pathSegments = url.pathname.split('/').filter(Boolean);
-      const chargePointID = pathSegments[pathSegments.length - 1];
+      const chargePointID = this.getChargePointIdFromPath(request.url);
 
       this.logger.info(`🔌 Connection attempt: ${request.url}`);
       console.log(`🔌 Connection attempt from: ${chargePointID}`);
 
-      if (!chargePointID || chargePointID.trim() === '') {
+      if (!chargePointID) {
         this.logger.warn('❌ Connection rejected: No charge point ID provided');
         ws.close(1008, 'Charge point ID required');
         return;
@@ -60,22 +273,15 @@ export class OCPPServer {
         this.logger.warn(`⚠️ Charge point ${chargePointID} already connected, replacing connection`);
         const oldConnection = this.connections.get(chargePointID)!;
         oldConnection.ws.close(1000, 'New connection established');
+        // The old socket will not answer; calls still waiting go out on the new one
+        this.abortInFlightCall(chargePointID, new Error(`Connection of ${chargePointID} replaced`));
       }
 
-      let numOfConnector: ConnectorNumResponse | undefined;
-      
-      // Get connector count - use default if fails
-      try {
-        numOfConnector = await this.getConnectorNum(chargePointID);
-      } catch (error) {
-        this.logger.warn(`⚠️ Failed to get connector count for ${chargePointID}, using default (2)`);
-        numOfConnector = { connectorNum: 2 };
-      }
-
+      const ocppVersion: OCPPVersion = OCPP_PROTOCOLS[ws.protocol] ?? '1.6';
       const connectors = new Map<number, ChargingStationData>();
       
-      // Initialize connectors with default data
-      for (let i = 1; i <= (numOfConnector?.connectorNum || 2); i++) {
+      // Initialize connectors with default data; the real count follows below
+      for (let i = 1; i <= 2; i++) {
         const defaultConnector = this.getDefaultChargingData(chargePointID, i);
         connectors.set(i, defaultConnector);
         this.logger.debug(`📍 Initialized connector ${i} for ${chargePointID}`);
@@ -84,18 +290,19 @@ export class OCPPServer {
       const connection: ChargePointConnection = {
         id: chargePointID,
         ws,
+        ocppVersion,
         isAlive: true,
         lastSeen: new Date(),
         bootNotificationSent: false,
         heartbeatInterval: 300000,
         connectors,
-        numberOfConnectors: numOfConnector?.connectorNum || 1,
+        numberOfConnectors: 2,
         meters: new Map<string, any>()
       };
 
+      // Registered before anything is awaited: BootNotification is usually the
+      // first frame and would be lost otherwise
       this.connections.set(chargePointID, connection);
-      this.logger.info(`✅ Charge point ${chargePointID} connected with ${connection.numberOfConnectors} connectors`);
-      console.log(`✅ ${chargePointID} is now connected` ,connection.currentData);
 
       // Setup WebSocket event handlers
       ws.on('message', (data) => {
@@ -105,7 +312,7 @@ export class OCPPServer {
 
       ws.on('close', () => {
         this.logger.info(`📴 WebSocket closed for ${chargePointID}`);
-        this.handleDisconnection(chargePointID);
+        this.handleDisconnection(chargePointID, ws);
       });
 
       ws.on('error', (error) => {
@@ -117,8 +324,26 @@ export class OCPPServer {
         this.handlePong(chargePointID);
       });
 
-      // Register charge point with manager
-      this.chargePointManager.registerChargePoint(chargePointID, connection);
+      this.logger.info(`✅ Charge point ${chargePointID} connected (OCPP ${ocppVersion})`);
+      console.log(`✅ ${chargePointID} is now connected` ,connection.currentData);
+
+      this.resolveConnectorCount(connection).catch((error) => {
+        this.logger.warn(`⚠️ Could not determine connectors of ${chargePointID}: ${error.message}`);
+      });
+
+      // Register charge point with manager; a previous socket on another instance is closed
+      this.chargePointManager.registerChargePoint(chargePointID, connection).then((previousOwner) => {
+        if (previousOwner && previousOwner !== this.chargePointManager.instanceId) {
+          return this.clusterRouter.evict(chargePointID, previousOwner);
+        }
+      }).catch((error) => {
+        this.logger.error(`⚠️ Closing the previous connection of ${chargePointID} failed: ${error.message}`);
+      });
+
+      // Chargers that reconnect without booting get their queued commands now
+      this.offlineCommands.onConnect(chargePointID).catch((error) => {
+        this.logger.error(`⚠️ Delivering queued commands failed for ${chargePointID}: ${error.message}`);
+      });
 
     } catch (error: any) {
       this.logger.error(`❌ Error during connection handling: ${error.message}`);
@@ -126,6 +351,41 @@ export class OCPPServer {
     }
   }
 
+  private async resolveConnectorCount(connection: ChargePointConnection): Promise<void> {
+    let numOfConnector: ConnectorNumResponse | undefined;
+
+    if (connection.ocppVersion === '2.0.1') {
+      // No NumberOfConnectors in 2.0.1; EVSEs are discovered from StatusNotification
+      const knownConnectors = await this.db.getConnectorsByChargePointId(connection.id);
+      numOfConnector = { connectorNum: knownConnectors.filter((c) => c.connectorId > 0).length || 1 };
+    } else {
+      // Get connector count - use default if fails
+      try {
+        numOfConnector = await this.getConnectorNum(connection.id);
+      } catch (error) {
+        this.logger.warn(`⚠️ Failed to get connector count for ${connection.id}, using default (2)`);
+        numOfConnector = { connectorNum: 2 };
+      }
+    }
+
+    // The charge point reconnected in the meantime
+    if (this.connections.get(connection.id) !== connection) return;
+
+    const connectorNum = numOfConnector?.connectorNum || 2;
+    connection.numberOfConnectors = numOfConnector?.connectorNum || 1;
+    for (let i = 1; i <= connectorNum; i++) {
+      if (!connection.connectors.has(i)) {
+        connection.connectors.set(i, this.getDefaultChargingData(connection.id, i));
+        this.logger.debug(`📍 Initialized connector ${i} for ${connection.id}`);
+      }
+    }
+    // Drop the placeholders of connectors the charge point does not have
+    for (let i = connectorNum + 1; i <= 2; i++) {
+      connection.connectors.delete(i);
+    }
+    this.logger.info(`📊 ${connection.id} has ${connection.numberOfConnectors} connectors`);
+  }
+
   public async getConnectorNum(chargePointID: string): Promise<ConnectorNumResponse | undefined> {
     try {
       const payload = {
@@ -182,26 +442,7 @@ export class OCPPServer {
     connectorId: number,
     requestedMessage: 'StatusNotification' | 'MeterValues' | 'Heartbeat' | 'BootNotification' | 'FirmwareStatusNotification'
   ): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const uniqueId = uuidv4();
-      const message = [MessageType.CALL, uniqueId, 'TriggerMessage', {
-        requestedMessage,
-        connectorId
-      }];
-
-      const timeout = setTimeout(() => {
-        reject(new Error(`Timeout waiting for response from ${connection.id} connector ${connectorId}`));
-      }, 30000);
-
-      this.messageHandler.addPendingCall(uniqueId, resolve, reject, timeout);
-      
-      try {
-        connection.ws.send(JSON.stringify(message));
-      } catch (error: any) {
-        clearTimeout(timeout);
-        reject(new Error(`Failed to send message: ${error.message}`));
-      }
-    });
+    return this.sendMessage(connection.id, 'TriggerMessage', { requestedMessage, connectorId }, { priority: 'low' });
   }
 
   private async handleMessage(chargePointId: string, data: any): Promise<void> {
@@ -215,16 +456,59 @@ export class OCPPServer {
       connection.lastSeen = new Date();
       connection.isAlive = true;
 
-      const message = JSON.parse(data.toString());
-      const response = await this.messageHandler.handleMessage(chargePointId, message, connection);
-      
-      if (response) {
-        connection.ws.send(JSON.stringify(response));
-        this.logger.debug(`📤 Response sent to ${chargePointId}`);
+      const raw = data.toString();
+      this.messageLog.logInbound(chargePointId, raw);
+
+      let message: any;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        this.sendCallError(chargePointId, '', 'FormationViolation', 'Message is not valid JSON');
+        return;
+      }
+
+      // Only the 1.6 schemas are available
+      if (message[0] === MessageType.CALL && connection.ocppVersion === '1.6') {
+        const violation = await this.payloadValidator.check(chargePointId, message[2], message[3]);
+        if (violation) {
+          this.sendCallError(chargePointId, message[1], violation.errorCode, violation.description);
+          return;
+        }
+      }
+
+      if (message[0] === MessageType.CALL) {
+        const { response, replayed } = await this.callDeduplicator.handle(chargePointId, message, () =>
+          this.messageHandler.handleMessage(chargePointId, message, connection)
+        );
+        if (response) {
+          this.transmit(connection, response);
+          this.logger.debug(`📤 Response sent to ${chargePointId}`);
+        }
+        // The original already updated the real-time data
+        if (replayed) return;
+      } else {
+        await this.messageHandler.handleMessage(chargePointId, message, connection);
+      }
+
+      // Messages of a charge point that is not accepted were refused by the handler
+      if (
+        message[0] === MessageType.CALL &&
+        message[2] !== 'BootNotification' &&
+        (connection.registrationStatus === 'Pending' || connection.registrationStatus === 'Rejected')
+      ) {
+        return;
+      }
+
+      if (message[0] === MessageType.CALL) {
+        this.notifyMessageWaiters(chargePointId, message[2], message[3]);
       }
 
       // Update real-time data
-      await this.updateRealTimeData(chargePointId, message, connection);
+      if (connection.ocppVersion === '2.0.1') {
+        await this.updateRealTimeData201(chargePointId, message, connection);
+      } else {
+        await this.updateRealTimeData(chargePointId, message, connection);
+      }
 
     } catch (error: any) {
       this.logger.error(`❌ Error handling message from ${chargePointId}: ${error.message}`);
@@ -258,7 +542,10 @@ export class OCPPServer {
             connectorData.timestamp = new Date();
           });
 
-          this.logger.info(`✅ Boot notification processed for ${chargePointId}`);
+          this.logger.info(`✅ Boot notification processed for ${chargePointId} (${connection.registrationStatus})`);
+          if (connection.registrationStatus === 'Accepted') {
+            this.onChargePointBooted(chargePointId, payload.firmwareVersion);
+          }
           break;
 
         case 'StatusNotification':
@@ -364,31 +651,104 @@ export class OCPPServer {
           this.logger.debug(`📩 Message ${action} from ${chargePointId}`);
       }
 
-      // Store connectors in Redis and sync to database
-      if (connection.connectors.size > 0) {
-        const connectorsArray = Array.from(connection.connectors.values());
+      await this.syncConnectorState(chargePointId, connection);
 
-        try {
+    } catch (error) {
+      this.logger.error(`❌ Error updating real-time data: ${error}`);
+    }
+  }
+
+  /**
+   * The 2.0.1 handlers keep connector state themselves; only the boot
+   * bookkeeping and the live meter readings are done here
+   */
+  private async updateRealTimeData201(
+    chargePointId: string,
+    message: any,
+    connection: ChargePointConnection
+  ): Promise<void> {
+    try {
+      const [messageTypeId, , action, payload] = message;
+      if (messageTypeId !== MessageType.CALL) return;
+
+      switch (action) {
+        case 'BootNotification':
           await this.redis.setJSON(
-            `chargepoint:${chargePointId}:connectors`,
-            connectorsArray,
-            3600
+            `chargepoint:${chargePointId}:info`,
+            {
+              chargePointModel: payload.chargingStation?.model,
+              chargePointVendor: payload.chargingStation?.vendorName,
+              chargePointSerialNumber: payload.chargingStation?.serialNumber,
+              firmwareVersion: payload.chargingStation?.firmwareVersion,
+              lastBootNotification: new Date(),
+            },
+            86400
           );
 
-          for (const connector of connectorsArray) {
-            await this.db.updateConnectorStatus(chargePointId, connector.connectorId, connector.status);
+          this.logger.info(`✅ Boot notification processed for ${chargePointId} (${connection.registrationStatus})`);
+          if (connection.registrationStatus === 'Accepted') {
+            this.onChargePointBooted(chargePointId, payload.chargingStation?.firmwareVersion);
           }
-          this.logger.debug(`🔄 Synced data for ${chargePointId}`);
-        } catch (error) {
-          this.logger.error(`⚠️ Failed to sync data: ${error}`);
-        }
+          break;
+
+        case 'MeterValues':
+          this.processMeterValues(connection, { connectorId: payload.evseId, meterValue: payload.meterValue });
+          break;
+
+        case 'TransactionEvent':
+          if (payload.evse?.id) {
+            this.processMeterValues(connection, { connectorId: payload.evse.id, meterValue: payload.meterValue });
+          }
+          break;
       }
 
+      await this.syncConnectorState(chargePointId, connection);
+
     } catch (error) {
       this.logger.error(`❌ Error updating real-time data: ${error}`);
     }
   }
 
+  private onChargePointBooted(chargePointId: string, firmwareVersion?: string): void {
+    this.provisioning.onBoot(chargePointId).catch((error) => {
+      this.logger.error(`⚠️ Pushing model defaults after boot failed for ${chargePointId}: ${error.message}`);
+    });
+    this.localListService.onBoot(chargePointId).catch((error) => {
+      this.logger.error(`⚠️ Local list sync after boot failed for ${chargePointId}: ${error.message}`);
+    });
+    this.firmwareService.onBoot(chargePointId, firmwareVersion).catch((error) => {
+      this.logger.error(`⚠️ Firmware check after boot failed for ${chargePointId}: ${error.message}`);
+    });
+    this.availabilityService.onBoot(chargePointId).catch((error) => {
+      this.logger.error(`⚠️ Maintenance check after boot failed for ${chargePointId}: ${error.message}`);
+    });
+    this.offlineCommands.onBoot(chargePointId).catch((error) => {
+      this.logger.error(`⚠️ Delivering queued commands after boot failed for ${chargePointId}: ${error.message}`);
+    });
+  }
+
+  // Store connectors in Redis and sync to database
+  private async syncConnectorState(chargePointId: string, connection: ChargePointConnection): Promise<void> {
+    if (connection.connectors.size === 0) return;
+
+    const connectorsArray = Array.from(connection.connectors.values());
+
+    try {
+      await this.redis.setJSON(
+        `chargepoint:${chargePointId}:connectors`,
+        connectorsArray,
+        3600
+      );
+
+      for (const connector of connectorsArray) {
+        await this.db.updateConnectorStatus(chargePointId, connector.connectorId, connector.status);
+      }
+      this.logger.debug(`🔄 Synced data for ${chargePointId}`);
+    } catch (error) {
+      this.logger.error(`⚠️ Failed to sync data: ${error}`);
+    }
+  }
+
   public async getAllChargeStationsStructured(): Promise<{
     chargeStations: Record<string, { connectors: Record<number, ChargingStationData> }>;
   }> {
@@ -492,6 +852,7 @@ export class OCPPServer {
 
     try {
       client.send(JSON.stringify(ocppMessage));
+      this.messageLog.logOutbound(chargePointId, ocppMessage);
       this.logger.info(`✅ ChangeConfiguration sent to ${chargePointId}: ${key}=${value}`);
     } catch (error: any) {
       this.logger.error(`❌ Failed to send ChangeConfiguration: ${error.message}`);
@@ -743,48 +1104,343 @@ export class OCPPServer {
     }, 30000);
   }
 
+  // Every frame we send goes through here so it ends up in the message log
+  private transmit(connection: ChargePointConnection, message: any[]): void {
+    connection.ws.send(JSON.stringify(message));
+    this.messageLog.logOutbound(connection.id, message);
+  }
+
   public sendCallError(chargePointId: string, uniqueId: string, errorCode: string, errorDescription: string): void {
     const connection = this.connections.get(chargePointId);
     if (!connection) return;
 
     const errorMessage = [MessageType.CALLERROR, uniqueId, errorCode, errorDescription, {}];
     try {
-      connection.ws.send(JSON.stringify(errorMessage));
+      this.transmit(connection, errorMessage);
     } catch (error) {
       this.logger.error(`⚠️ Failed to send error: ${error}`);
     }
   }
 
-  public sendMessage(chargePointId: string, action: string, payload: any): Promise<any> {
+  /**
+   * Send a command and wait for the response. Commands are written in 1.6
+   * terms and translated for 2.0.1 charge points, responses included.
+   * They wait in the charge point's outbound queue until no other call is
+   * outstanding. Charge points connected to another instance are reached
+   * through the cluster router.
+   */
+  public async sendMessage(chargePointId: string, action: string, payload: any, options: CallOptions = {}): Promise<any> {
+    if (!this.connections.has(chargePointId)) {
+      return this.clusterRouter.route(chargePointId, action, payload, options);
+    }
+
+    if (this.connections.get(chargePointId)?.ocppVersion === '2.0.1') {
+      const command = await translateCommandTo201(this.db, action, payload);
+      const response = await this.sendCall(chargePointId, command.action, command.payload, options);
+      return command.translateResponse(response);
+    }
+
+    return this.sendCall(chargePointId, action, payload, options);
+  }
+
+  private async sendCall(chargePointId: string, action: string, payload: any, options: CallOptions = {}): Promise<any> {
+    if (!this.connections.has(chargePointId)) {
+      throw new Error(`Charge point ${chargePointId} not connected`);
+    }
+
+    return this.outboundQueue.enqueue(chargePointId, action, payload, options);
+  }
+
+  // Called by the outbound queue once the call is next in line
+  private executeCall(call: QueuedCall): Promise<any> {
     return new Promise((resolve, reject) => {
-      const connection = this.connections.get(chargePointId);
+      const connection = this.connections.get(call.chargePointId);
       if (!connection) {
-        reject(new Error(`Charge point ${chargePointId} not connected`));
+        reject(new Error(`Charge point ${call.chargePointId} not connected`));
         return;
       }
 
       const uniqueId = uuidv4();
-      const message = [MessageType.CALL, uniqueId, action, payload];
+      call.uniqueId = uniqueId;
+      const message = [MessageType.CALL, uniqueId, call.action, call.payload];
 
       const timeout = setTimeout(() => {
-        reject(new Error(`Timeout waiting for response from ${chargePointId}`));
+        this.messageHandler.removePendingCall(uniqueId);
+        reject(new Error(`Timeout waiting for response from ${call.chargePointId}`));
       }, 30000);
 
       this.messageHandler.addPendingCall(uniqueId, resolve, reject, timeout);
       
       try {
-        connection.ws.send(JSON.stringify(message));
+        this.transmit(connection, message);
       } catch (error: any) {
-        clearTimeout(timeout);
+        this.messageHandler.removePendingCall(uniqueId);
         reject(new Error(`Failed to send message: ${error.message}`));
       }
     });
   }
 
+  private abortInFlightCall(chargePointId: string, error: Error): void {
+    const active = this.outboundQueue.getActiveCall(chargePointId);
+    if (active?.uniqueId) {
+      this.messageHandler.rejectPendingCall(active.uniqueId, error);
+    }
+  }
+
+  /**
+   * Send TriggerMessage and wait for the message it asks for. The waiter is
+   * registered before sending because chargers often send the requested
+   * message before the TriggerMessage response.
+   */
+  public async triggerMessage(
+    chargePointId: string,
+    requestedMessage: TriggerMessageType,
+    connectorId?: number
+  ): Promise<{ status: TriggerMessageResponse['status']; messages: TriggeredMessage[] }> {
+    // The requested message arrives on the instance holding the socket
+    if (!this.connections.has(chargePointId)) {
+      return this.clusterRouter.routeTrigger(chargePointId, requestedMessage, connectorId);
+    }
+
+    let finish!: () => void;
+    const waiter: MessageWaiter = {
+      action: requestedMessage,
+      connectorId,
+      messages: [],
+      collectAll: requestedMessage === 'StatusNotification' && connectorId === undefined,
+      finish: () => finish(),
+    };
+
+    const received = new Promise<TriggeredMessage[]>((resolve) => {
+      const timeout = setTimeout(() => finish(), this.triggerTimeout);
+      finish = () => {
+        clearTimeout(timeout);
+        if (waiter.settleTimer) clearTimeout(waiter.settleTimer);
+        this.removeMessageWaiter(chargePointId, waiter);
+        resolve(waiter.messages);
+      };
+    });
+
+    this.messageWaiters.set(chargePointId, [...(this.messageWaiters.get(chargePointId) ?? []), waiter]);
+
+    const request: TriggerMessageRequest = {
+      requestedMessage,
+      ...(connectorId !== undefined && { connectorId }),
+    };
+
+    let response: TriggerMessageResponse;
+    try {
+      response = await this.sendMessage(chargePointId, 'TriggerMessage', request);
+    } catch (error) {
+      waiter.finish();
+      throw error;
+    }
+
+    if (response?.status !== 'Accepted') {
+      waiter.finish();
+      this.logger.info(`🔔 TriggerMessage ${requestedMessage} on ${chargePointId} → ${response?.status}`);
+      return { status: response?.status, messages: [] };
+    }
+
+    const messages = await received;
+    this.logger.info(`🔔 TriggerMessage ${requestedMessage} on ${chargePointId} → ${messages.length} message(s) received`);
+    return { status: response.status, messages };
+  }
+
+  private notifyMessageWaiters(chargePointId: string, action: string, payload: any): void {
+    const waiters = this.messageWaiters.get(chargePointId);
+    if (!waiters) return;
+
+    for (const waiter of [...waiters]) {
+      if (waiter.action !== action) continue;
+      // 2.0.1 messages identify the connector by evseId
+      const connectorId = payload?.evseId ?? payload?.connectorId;
+      if (waiter.connectorId !== undefined && connectorId !== undefined && connectorId !== waiter.connectorId) continue;
+
+      waiter.messages.push({ action: waiter.action, payload, receivedAt: new Date() });
+
+      if (waiter.collectAll) {
+        if (waiter.settleTimer) clearTimeout(waiter.settleTimer);
+        waiter.settleTimer = setTimeout(() => waiter.finish(), this.triggerSettleTime);
+      } else {
+        waiter.finish();
+      }
+    }
+  }
+
+  private removeMessageWaiter(chargePointId: string, waiter: MessageWaiter): void {
+    const remaining = (this.messageWaiters.get(chargePointId) ?? []).filter((w) => w !== waiter);
+    if (remaining.length > 0) {
+      this.messageWaiters.set(chargePointId, remaining);
+    } else {
+      this.messageWaiters.delete(chargePointId);
+    }
+  }
+
+  /**
+   * Send a vendor specific DataTransfer to the charge point
+   */
+  public async dataTransfer(
+    chargePointId: string,
+    vendorId: string,
+    messageId?: string,
+    data?: string
+  ): Promise<DataTransferResponse> {
+    const request: DataTransferRequest = {
+      vendorId,
+      ...(messageId !== undefined && { messageId }),
+      ...(data !== undefined && { data }),
+    };
+
+    const response: DataTransferResponse = await this.sendMessage(chargePointId, 'DataTransfer', request);
+    this.logger.info(`📨 DataTransfer ${vendorId}/${messageId ?? '-'} to ${chargePointId} → ${response?.status}`);
+    return response;
+  }
+
+  /**
+   * Read device model variables of an OCPP 2.0.1 charge point
+   */
+  public async getVariables(chargePointId: string, data: GetVariableData201[]): Promise<GetVariableResult201[]> {
+    this.assertOcpp201(chargePointId);
+
+    const response = await this.sendMessage(chargePointId, 'GetVariables', { getVariableData: data });
+    return response?.getVariableResult ?? [];
+  }
+
+  /**
+   * Write device model variables of an OCPP 2.0.1 charge point
+   */
+  public async setVariables(chargePointId: string, data: SetVariableData201[]): Promise<SetVariableResult201[]> {
+    this.assertOcpp201(chargePointId);
+
+    const response = await this.sendMessage(chargePointId, 'SetVariables', { setVariableData: data });
+    this.logger.info(`⚙️ SetVariables on ${chargePointId} → ${(response?.setVariableResult ?? []).map((r: SetVariableResult201) => r.attributeStatus).join(', ')}`);
+    return response?.setVariableResult ?? [];
+  }
+
+  // Charge points connected to another instance are checked by their answer
+  private assertOcpp201(chargePointId: string): void {
+    const connection = this.connections.get(chargePointId);
+    if (!connection) {
+      return;
+    }
+    if (connection.ocppVersion !== '2.0.1') {
+      throw new Error(`Charge point ${chargePointId} uses OCPP ${connection.ocppVersion}, device model variables need OCPP 2.0.1`);
+    }
+  }
+
+  public getInstanceId(): string {
+    return this.chargePointManager.instanceId;
+  }
+
+  public getClusterRouter(): ClusterRouter {
+    return this.clusterRouter;
+  }
+
+  public getOfflineCommands(): OfflineCommandService {
+    return this.offlineCommands;
+  }
+
+  public getOutboundQueue(): OutboundCallQueue {
+    return this.outboundQueue;
+  }
+
+  public getPayloadValidator(): PayloadValidator {
+    return this.payloadValidator;
+  }
+
+  public getMessageLog(): MessageLogService {
+    return this.messageLog;
+  }
+
+  public getProvisioning(): ChargePointProvisioning {
+    return this.provisioning;
+  }
+
+  public getSecurity(): ChargePointSecurity {
+    return this.security;
+  }
+
+  public getCertificateAuthority(): CertificateAuthority {
+    return this.certificateAuthority;
+  }
+
+  public getCertificateService(): CertificateService {
+    return this.certificateService;
+  }
+
+  public getReservationManager(): ReservationManager {
+    return this.reservationManager;
+  }
+
+  public getSmartChargingService(): SmartChargingService {
+    return this.smartChargingService;
+  }
+
+  public getLoadManagementService(): LoadManagementService {
+    return this.loadManagementService;
+  }
+
+  public getLocalListService(): LocalListService {
+    return this.localListService;
+  }
+
+  public getAuthCacheService(): AuthCacheService {
+    return this.authCacheService;
+  }
+
+  public getFirmwareService(): FirmwareService {
+    return this.firmwareService;
+  }
+
+  public getDiagnosticsService(): DiagnosticsService {
+    return this.diagnosticsService;
+  }
+
+  public getDataTransferRegistry(): DataTransferRegistry {
+    return this.dataTransferRegistry;
+  }
+
+  public getAvailabilityService(): AvailabilityService {
+    return this.availabilityService;
+  }
+
   public getConnectedChargePoints(): string[] {
     return Array.from(this.connections.keys());
   }
 
+  /**
+   * Whether the charge point is connected to this or any other instance
+   */
+  public async isChargePointConnected(chargePointId: string): Promise<boolean> {
+    if (this.connections.has(chargePointId)) return true;
+
+    try {
+      return await this.chargePointManager.isOwnedElsewhere(chargePointId);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Charge points connected to this or any other instance. Only the local
+   * ones are known while Redis is unreachable.
+   */
+  public async getClusterConnectedChargePoints(): Promise<string[]> {
+    const local = this.getConnectedChargePoints();
+
+    try {
+      const owned = await this.chargePointManager.getOwnedChargePoints();
+      return Array.from(new Set([...local, ...owned]));
+    } catch {
+      return local;
+    }
+  }
+
+  public closeConnection(chargePointId: string, reason: string): void {
+    this.connections.get(chargePointId)?.ws.close(1000, reason);
+  }
+
   public getChargePointData(chargePointId: string): ChargingStationData[] | null {
     const connection = this.connections.get(chargePointId);
     return connection ? Array.from(connection.connectors.values()) : null;
@@ -798,7 +1454,7 @@ export class OCPPServer {
     return data;
   }
 
-  private getDefaultChargingData(chargePointId: string, connectorId: number): ChargingStationData {
+  public getDefaultChargingData(chargePointId: string, connectorId: number): ChargingStationData {
     return {
       chargePointId,
       connectorId,
@@ -881,8 +1537,28 @@ export class OCPPServer {
     return data;
   }
 
-  private async handleDisconnection(chargePointId: string): Promise<void> {
+  private async handleDisconnection(chargePointId: string, ws: WebSocket): Promise<void> {
     const connection = this.connections.get(chargePointId);
+
+    // A replaced socket closes after its successor took over
+    if (connection && connection.ws !== ws) {
+      this.logger.debug(`📴 Replaced connection of ${chargePointId} closed`);
+      return;
+    }
+
+    const error = new Error(`Charge point ${chargePointId} disconnected`);
+    this.outboundQueue.failAll(chargePointId, error);
+    this.abortInFlightCall(chargePointId, error);
+
+    // Reconnected to another instance, which keeps its state from now on
+    const movedAway = await this.chargePointManager.isOwnedElsewhere(chargePointId).catch(() => false);
+    if (movedAway) {
+      if (this.connections.get(chargePointId) === connection) {
+        this.connections.delete(chargePointId);
+      }
+      this.logger.info(`📴 Charge point ${chargePointId} moved to another instance`);
+      return;
+    }
     
     if (connection) {
       try {
@@ -911,6 +1587,9 @@ export class OCPPServer {
       }
     }
     
+    // The charge point may have reconnected in the meantime
+    if (this.connections.get(chargePointId) !== connection) return;
+
     this.connections.delete(chargePointId);
     this.chargePointManager.unregisterChargePoint(chargePointId);
     this.logger.info(`📴 Charge point ${chargePointId} disconnected`);
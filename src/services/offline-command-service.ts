@@ -0,0 +1,247 @@
+import { OfflineCommand, OfflineCommandStatus, Prisma, RegistrationStatus } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import { ChangeConfigurationResponse } from '../types/ocpp_types';
+
+// Commands that still make sense when delivered later
+export const QUEUEABLE_ACTIONS = ['ChangeConfiguration', 'UpdateFirmware', 'SendLocalList', 'ChangeAvailability'] as const;
+export type QueueableAction = typeof QUEUEABLE_ACTIONS[number];
+
+// A delivery that has not finished by then was interrupted by a restart
+const STALE_DELIVERY_MS = 300000;
+
+export type SendOrQueueResult =
+  | { delivered: true; response: any }
+  | { delivered: false; command: OfflineCommand };
+
+/**
+ * Persists commands for charge points that are offline and sends them, oldest
+ * first, once the charge point reconnects or boots. Commands not delivered
+ * before expiresAt are expired; without an explicit expiry they are kept for
+ * OCPP_OFFLINE_COMMAND_TTL_HOURS (24, 0 keeps them until delivered).
+ * When a command fails, delivery stops to keep the order and resumes on the
+ * next connection; a command is tried OCPP_OFFLINE_COMMAND_MAX_ATTEMPTS (3)
+ * times.
+ */
+export class OfflineCommandService {
+  private logger = Logger.getInstance();
+  private delivering = new Set<string>();
+  private expiryTimer?: NodeJS.Timeout;
+  private readonly ttlHours = parseInt(process.env.OCPP_OFFLINE_COMMAND_TTL_HOURS || '24');
+  private readonly maxAttempts = parseInt(process.env.OCPP_OFFLINE_COMMAND_MAX_ATTEMPTS || '3');
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  public start(): void {
+    if (this.expiryTimer) return;
+
+    this.expiryTimer = setInterval(() => {
+      this.expireOverdue().catch((error) => {
+        this.logger.error('Error expiring offline commands:', error);
+      });
+    }, 60000);
+  }
+
+  public stop(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+
+  public isQueueable(action: string): action is QueueableAction {
+    return (QUEUEABLE_ACTIONS as readonly string[]).includes(action);
+  }
+
+  /**
+   * Send the command right away when the charge point is connected, queue it
+   * otherwise. An undefined expiresAt uses the default TTL, null never expires.
+   */
+  public async sendOrQueue(
+    chargePointId: string,
+    action: string,
+    payload: any,
+    options: { expiresAt?: Date | null; createdBy?: string } = {}
+  ): Promise<SendOrQueueResult> {
+    if (!this.isQueueable(action)) {
+      throw new Error(`${action} cannot be queued for offline charge points`);
+    }
+
+    if (await this.ocppServer.isChargePointConnected(chargePointId)) {
+      return { delivered: true, response: await this.execute(chargePointId, action, payload, options.createdBy) };
+    }
+
+    return { delivered: false, command: await this.queue(chargePointId, action, payload, options) };
+  }
+
+  public async queue(
+    chargePointId: string,
+    action: string,
+    payload: any,
+    options: { expiresAt?: Date | null; createdBy?: string } = {}
+  ): Promise<OfflineCommand> {
+    if (!this.isQueueable(action)) {
+      throw new Error(`${action} cannot be queued for offline charge points`);
+    }
+
+    if (!(await this.db.getChargePoint(chargePointId))) {
+      throw new Error(`Charge point ${chargePointId} not found`);
+    }
+
+    const command = await this.db.createOfflineCommand({
+      chargePointId,
+      action,
+      payload,
+      expiresAt: options.expiresAt !== undefined ? options.expiresAt : this.defaultExpiry(),
+      createdBy: options.createdBy,
+    });
+
+    this.logger.info(`📥 ${action} queued for offline charge point ${chargePointId} (${command.id})`);
+    return command;
+  }
+
+  public async onConnect(chargePointId: string): Promise<void> {
+    await this.deliver(chargePointId);
+  }
+
+  public async onBoot(chargePointId: string): Promise<void> {
+    await this.deliver(chargePointId);
+  }
+
+  // Only queued commands can be cancelled
+  public async cancel(id: string): Promise<OfflineCommand | null> {
+    const cancelled = await this.db.updateOfflineCommands(
+      { id, status: OfflineCommandStatus.QUEUED },
+      { status: OfflineCommandStatus.CANCELLED }
+    );
+    if (cancelled === 0) return null;
+
+    this.logger.info(`🚫 Offline command ${id} cancelled`);
+    return this.db.getOfflineCommand(id);
+  }
+
+  // null keeps the command until it is delivered, a past time expires it now
+  public async setExpiry(id: string, expiresAt: Date | null): Promise<OfflineCommand | null> {
+    const updated = await this.db.updateOfflineCommands(
+      { id, status: OfflineCommandStatus.QUEUED },
+      { expiresAt }
+    );
+    if (updated === 0) return null;
+
+    if (expiresAt && expiresAt <= new Date()) {
+      await this.expireOverdue();
+    }
+
+    return this.db.getOfflineCommand(id);
+  }
+
+  public async expireOverdue(): Promise<number> {
+    const expired = await this.db.updateOfflineCommands(
+      { status: OfflineCommandStatus.QUEUED, expiresAt: { lte: new Date() } },
+      { status: OfflineCommandStatus.EXPIRED }
+    );
+    if (expired > 0) {
+      this.logger.info(`⌛ ${expired} offline command(s) expired`);
+    }
+
+    await this.db.updateOfflineCommands(
+      { status: OfflineCommandStatus.DELIVERING, updatedAt: { lt: new Date(Date.now() - STALE_DELIVERY_MS) } },
+      { status: OfflineCommandStatus.QUEUED }
+    );
+
+    return expired;
+  }
+
+  private async deliver(chargePointId: string): Promise<void> {
+    if (this.delivering.has(chargePointId)) return;
+    this.delivering.add(chargePointId);
+
+    try {
+      // Pending and Rejected charge points only talk BootNotification
+      const chargePoint = await this.db.getChargePoint(chargePointId);
+      if (chargePoint?.registrationStatus !== RegistrationStatus.ACCEPTED) return;
+
+      let command: OfflineCommand | null;
+      while ((command = await this.db.claimNextOfflineCommand(chargePointId))) {
+        if (!(await this.deliverCommand(command))) break;
+      }
+    } finally {
+      this.delivering.delete(chargePointId);
+    }
+  }
+
+  // false when delivery should stop until the next connection
+  private async deliverCommand(command: OfflineCommand): Promise<boolean> {
+    try {
+      const response = await this.execute(
+        command.chargePointId,
+        command.action as QueueableAction,
+        command.payload,
+        command.createdBy ?? undefined
+      );
+      await this.db.updateOfflineCommand(command.id, {
+        status: OfflineCommandStatus.DELIVERED,
+        response: response ?? Prisma.DbNull,
+        deliveredAt: new Date(),
+        lastError: null,
+      });
+
+      this.logger.info(`📤 Queued ${command.action} delivered to ${command.chargePointId} → ${response?.status ?? 'OK'}`);
+      return true;
+    } catch (error: any) {
+      const failed = command.attempts >= this.maxAttempts;
+      await this.db.updateOfflineCommand(command.id, {
+        status: failed ? OfflineCommandStatus.FAILED : OfflineCommandStatus.QUEUED,
+        lastError: error.message,
+      });
+
+      this.logger.warn(`⚠️ Delivering queued ${command.action} to ${command.chargePointId} failed (attempt ${command.attempts}): ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Commands go through the services that own them so they leave the same
+   * records as when they are sent from their own endpoints. Failures throw.
+   */
+  private async execute(chargePointId: string, action: QueueableAction, payload: any, createdBy?: string): Promise<any> {
+    switch (action) {
+      case 'ChangeConfiguration': {
+        const response: ChangeConfigurationResponse = await this.ocppServer.sendMessage(chargePointId, action, payload);
+        if (response?.status === 'Accepted' || response?.status === 'RebootRequired') {
+          await this.db.setChargePointConfiguration(chargePointId, payload.key, payload.value);
+        }
+        return response;
+      }
+
+      case 'SendLocalList':
+        return { status: await this.ocppServer.getLocalListService().sendLocalList(chargePointId, payload) };
+
+      case 'UpdateFirmware': {
+        const update = await this.ocppServer.getFirmwareService().updateChargePoint(chargePointId, payload, createdBy);
+        return { firmwareUpdateId: update.id };
+      }
+
+      case 'ChangeAvailability': {
+        const change = await this.ocppServer.getAvailabilityService().changeAvailability(
+          chargePointId,
+          payload.connectorId,
+          payload.type,
+          { requestedBy: createdBy }
+        );
+        if (change.status === 'Error' || change.status === 'NotConnected') {
+          throw new Error(change.error ?? `${chargePointId} is not connected`);
+        }
+        return { status: change.status, availabilityChangeId: change.id };
+      }
+    }
+  }
+
+  private defaultExpiry(): Date | null {
+    return this.ttlHours > 0 ? new Date(Date.now() + this.ttlHours * 3600000) : null;
+  }
+}
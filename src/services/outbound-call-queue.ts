@@ -0,0 +1,197 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../Utils/logger';
+
+export type CallPriority = 'high' | 'normal' | 'low';
+
+export interface CallOptions {
+  priority?: CallPriority;
+  // How long the call may wait in the queue before it is given up
+  queueTimeoutMs?: number;
+}
+
+export interface QueuedCall {
+  id: string;
+  chargePointId: string;
+  action: string;
+  payload: any;
+  priority: CallPriority;
+  enqueuedAt: Date;
+  sentAt?: Date;
+  uniqueId?: string; // OCPP uniqueId, set once the call is sent
+}
+
+interface QueueEntry {
+  call: QueuedCall;
+  resolve: (value: any) => void;
+  reject: (reason?: any) => void;
+  timer?: NodeJS.Timeout;
+}
+
+interface ChargePointQueue {
+  pending: QueueEntry[];
+  active?: QueueEntry;
+}
+
+const priorityRank: Record<CallPriority, number> = { high: 0, normal: 1, low: 2 };
+
+// Commands that stop or free something jump the queue unless told otherwise
+const defaultPriorities: Record<string, CallPriority> = {
+  RemoteStopTransaction: 'high',
+  RequestStopTransaction: 'high',
+  UnlockConnector: 'high',
+  Reset: 'high',
+};
+
+/**
+ * OCPP-J allows only one outstanding CALL per direction, so commands to a
+ * charge point are sent one after the other. Calls wait by priority, then
+ * in arrival order, for at most OCPP_CALL_QUEUE_TIMEOUT_MS (60 s) before
+ * they are sent; a queue holds at most OCPP_CALL_QUEUE_MAX_DEPTH (100)
+ * waiting calls.
+ */
+export class OutboundCallQueue {
+  private logger = Logger.getInstance();
+  private queues = new Map<string, ChargePointQueue>();
+  private readonly queueTimeout = parseInt(process.env.OCPP_CALL_QUEUE_TIMEOUT_MS || '60000');
+  private readonly maxDepth = parseInt(process.env.OCPP_CALL_QUEUE_MAX_DEPTH || '100');
+
+  // Sends the call and settles with the charge point's answer
+  constructor(private execute: (call: QueuedCall) => Promise<any>) {}
+
+  public enqueue(chargePointId: string, action: string, payload: any, options: CallOptions = {}): Promise<any> {
+    const queue = this.getQueue(chargePointId);
+    if (queue.pending.length >= this.maxDepth) {
+      return Promise.reject(new Error(`Call queue of ${chargePointId} is full (${this.maxDepth} waiting)`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: QueueEntry = {
+        call: {
+          id: uuidv4(),
+          chargePointId,
+          action,
+          payload,
+          priority: options.priority ?? defaultPriorities[action] ?? 'normal',
+          enqueuedAt: new Date(),
+        },
+        resolve,
+        reject,
+      };
+
+      const timeout = options.queueTimeoutMs ?? this.queueTimeout;
+      entry.timer = setTimeout(() => {
+        if (this.remove(chargePointId, entry)) {
+          reject(new Error(`${action} to ${chargePointId} was not sent within ${timeout} ms`));
+        }
+      }, timeout);
+
+      // Behind everything of the same or a higher priority
+      const index = queue.pending.findIndex((queued) => priorityRank[queued.call.priority] > priorityRank[entry.call.priority]);
+      if (index === -1) {
+        queue.pending.push(entry);
+      } else {
+        queue.pending.splice(index, 0, entry);
+      }
+
+      this.next(chargePointId);
+    });
+  }
+
+  // Only calls that are still waiting can be cancelled
+  public cancel(chargePointId: string, callId: string): boolean {
+    const entry = this.queues.get(chargePointId)?.pending.find((queued) => queued.call.id === callId);
+    if (!entry || !this.remove(chargePointId, entry)) return false;
+
+    entry.reject(new Error(`${entry.call.action} to ${chargePointId} was cancelled`));
+    this.logger.info(`🚫 Queued ${entry.call.action} ${callId} to ${chargePointId} cancelled`);
+    return true;
+  }
+
+  /**
+   * Reject every waiting call. The call in flight is returned so the caller
+   * can abort it; its slot is freed once it settles.
+   */
+  public failAll(chargePointId: string, error: Error): QueuedCall | undefined {
+    const queue = this.queues.get(chargePointId);
+    if (!queue) return undefined;
+
+    const pending = queue.pending.splice(0);
+    for (const entry of pending) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+    if (pending.length > 0) {
+      this.logger.warn(`⚠️ Failed ${pending.length} queued call(s) to ${chargePointId}: ${error.message}`);
+    }
+
+    if (!queue.active) this.queues.delete(chargePointId);
+    return queue.active?.call;
+  }
+
+  public getActiveCall(chargePointId: string): QueuedCall | undefined {
+    return this.queues.get(chargePointId)?.active?.call;
+  }
+
+  public getStatus(chargePointId: string): { depth: number; inFlight: QueuedCall | null; queued: QueuedCall[] } {
+    const queue = this.queues.get(chargePointId);
+    return {
+      depth: queue?.pending.length ?? 0,
+      inFlight: queue?.active?.call ?? null,
+      queued: queue?.pending.map((entry) => entry.call) ?? [],
+    };
+  }
+
+  public getDepths(): Record<string, { depth: number; inFlight: boolean }> {
+    const depths: Record<string, { depth: number; inFlight: boolean }> = {};
+    this.queues.forEach((queue, chargePointId) => {
+      depths[chargePointId] = { depth: queue.pending.length, inFlight: !!queue.active };
+    });
+    return depths;
+  }
+
+  private next(chargePointId: string): void {
+    const queue = this.queues.get(chargePointId);
+    if (!queue || queue.active) return;
+
+    const entry = queue.pending.shift();
+    if (!entry) {
+      this.queues.delete(chargePointId);
+      return;
+    }
+
+    clearTimeout(entry.timer);
+    queue.active = entry;
+    entry.call.sentAt = new Date();
+
+    this.execute(entry.call)
+      .then(entry.resolve, entry.reject)
+      .finally(() => {
+        queue.active = undefined;
+        if (queue.pending.length === 0) {
+          this.queues.delete(chargePointId);
+        } else {
+          this.next(chargePointId);
+        }
+      });
+  }
+
+  private remove(chargePointId: string, entry: QueueEntry): boolean {
+    const queue = this.queues.get(chargePointId);
+    const index = queue?.pending.indexOf(entry) ?? -1;
+    if (!queue || index === -1) return false;
+
+    clearTimeout(entry.timer);
+    queue.pending.splice(index, 1);
+    if (queue.pending.length === 0 && !queue.active) this.queues.delete(chargePointId);
+    return true;
+  }
+
+  private getQueue(chargePointId: string): ChargePointQueue {
+    let queue = this.queues.get(chargePointId);
+    if (!queue) {
+      queue = { pending: [] };
+      this.queues.set(chargePointId, queue);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,107 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import draft04 from 'ajv/lib/refs/json-schema-draft-04.json';
+import { PayloadValidation } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { ocpp16RequestSchemas } from '../schemas/ocpp16';
+
+export interface PayloadViolation {
+  errorCode: 'FormationViolation' | 'PropertyConstraintViolation' | 'OccurenceConstraintViolation' | 'TypeConstraintViolation';
+  description: string;
+}
+
+// OCPP-J 1.6 section 4.2.3 error codes per failing schema keyword
+const errorCodeByKeyword: Record<string, PayloadViolation['errorCode']> = {
+  type: 'TypeConstraintViolation',
+  required: 'OccurenceConstraintViolation',
+  minItems: 'OccurenceConstraintViolation',
+  maxItems: 'OccurenceConstraintViolation',
+  additionalProperties: 'FormationViolation',
+};
+
+const parseMode = (value?: string): PayloadValidation =>
+  Object.values(PayloadValidation).includes(value as PayloadValidation) ? (value as PayloadValidation) : PayloadValidation.STRICT;
+
+/**
+ * Validates inbound OCPP 1.6 CALL payloads against the official JSON
+ * schemas. What happens with a violation depends on the charge point:
+ * STRICT answers with a CALLERROR, LENIENT only logs it and processes the
+ * message anyway (for vendors known to be sloppy), OFF skips validation.
+ * Charge points without a setting use OCPP_PAYLOAD_VALIDATION (STRICT).
+ */
+export class PayloadValidator {
+  private logger = Logger.getInstance();
+  private readonly validators = new Map<string, ValidateFunction>();
+  private readonly modes = new Map<string, PayloadValidation>();
+  private readonly defaultMode = parseMode(process.env.OCPP_PAYLOAD_VALIDATION);
+
+  constructor(private db: DatabaseService) {
+    // The OCPP schemas are draft-04, which identifies schemas with `id`
+    const ajv = new Ajv({ schemaId: 'auto' });
+    ajv.addMetaSchema(draft04);
+
+    for (const [action, schema] of Object.entries(ocpp16RequestSchemas)) {
+      this.validators.set(action, ajv.compile(schema));
+    }
+  }
+
+  /**
+   * Returns the violation to answer with, or null when the message should be
+   * processed. Actions without a schema are left to the message handler.
+   */
+  public async check(chargePointId: string, action: string, payload: any): Promise<PayloadViolation | null> {
+    const mode = await this.getMode(chargePointId);
+    if (mode === PayloadValidation.OFF) return null;
+
+    const violation = this.validate(action, payload);
+    if (!violation) return null;
+
+    if (mode === PayloadValidation.LENIENT) {
+      this.logger.warn(`⚠️ ${action} from ${chargePointId} accepted despite ${violation.errorCode}: ${violation.description}`);
+      return null;
+    }
+
+    this.logger.warn(`❌ ${action} from ${chargePointId} refused with ${violation.errorCode}: ${violation.description}`);
+    return violation;
+  }
+
+  public validate(action: string, payload: any): PayloadViolation | null {
+    if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+      return { errorCode: 'FormationViolation', description: 'Payload must be a JSON object' };
+    }
+
+    const validator = this.validators.get(action);
+    if (!validator || validator(payload)) return null;
+
+    const error = validator.errors![0];
+    return {
+      errorCode: errorCodeByKeyword[error.keyword] ?? 'PropertyConstraintViolation',
+      description: this.describe(error),
+    };
+  }
+
+  public async getMode(chargePointId: string): Promise<PayloadValidation> {
+    const cached = this.modes.get(chargePointId);
+    if (cached) return cached;
+
+    const chargePoint = await this.db.getChargePoint(chargePointId);
+    const mode = chargePoint?.payloadValidation ?? this.defaultMode;
+    this.modes.set(chargePointId, mode);
+    return mode;
+  }
+
+  // null falls back to OCPP_PAYLOAD_VALIDATION
+  public async setMode(chargePointId: string, mode: PayloadValidation | null): Promise<PayloadValidation> {
+    await this.db.setChargePointPayloadValidation(chargePointId, mode);
+    this.modes.delete(chargePointId);
+
+    this.logger.info(`🔧 Payload validation of ${chargePointId} set to ${mode ?? `default (${this.defaultMode})`}`);
+    return this.getMode(chargePointId);
+  }
+
+  private describe(error: ErrorObject): string {
+    const path = error.dataPath ? error.dataPath.replace(/^\./, '') : 'payload';
+    const property = (error.params as { additionalProperty?: string }).additionalProperty;
+    return `${path} ${error.message}${property ? `: ${property}` : ''}`;
+  }
+}
@@ -98,6 +98,73 @@ export class RedisService {
     }
   }
 
+  /**
+   * Set a string value and return the value it replaced
+   */
+  public async setAndGet(key: string, value: string, ttl?: number): Promise<string | null> {
+    try {
+      return await this.client.set(key, value, ttl ? { EX: ttl, GET: true } : { GET: true });
+    } catch (error) {
+      this.logger.error(`Error setting Redis key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a Lua script atomically
+   */
+  public async eval(script: string, keys: string[], args: string[] = []): Promise<unknown> {
+    try {
+      return await this.client.eval(script, { keys, arguments: args });
+    } catch (error) {
+      this.logger.error(`Error running Redis script on ${keys.join(', ')}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish a message, returns how many subscribers received it
+   */
+  public async publish(channel: string, message: string): Promise<number> {
+    try {
+      return await this.client.publish(channel, message);
+    } catch (error) {
+      this.logger.error(`Error publishing to Redis channel ${channel}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open a second connection for subscriptions, as a subscribed connection
+   * cannot run other commands
+   */
+  public async createSubscriber(): Promise<RedisClientType> {
+    const subscriber = this.client.duplicate() as RedisClientType;
+
+    subscriber.on('error', (error) => {
+      this.logger.error('Redis subscriber error:', error);
+    });
+
+    await subscriber.connect();
+    return subscriber;
+  }
+
+  /**
+   * Keys matching a glob pattern, read with SCAN so Redis is not blocked
+   */
+  public async scanKeys(pattern: string): Promise<string[]> {
+    try {
+      const keys: string[] = [];
+      for await (const key of this.client.scanIterator({ MATCH: pattern, COUNT: 500 })) {
+        keys.push(key);
+      }
+      return keys;
+    } catch (error) {
+      this.logger.error(`Error scanning Redis keys ${pattern}:`, error);
+      throw error;
+    }
+  }
+
   public async del(key: string): Promise<void> {
     try {
       await this.client.del(key);
@@ -0,0 +1,252 @@
+import { Reservation, ReservationStatus } from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import {
+  ReserveNowRequest,
+  ReserveNowResponse,
+  CancelReservationResponse
+} from '../types/ocpp_types';
+
+export class ReservationManager {
+  private logger = Logger.getInstance();
+  private expiryTimer?: NodeJS.Timeout;
+  private readonly expiryCheckInterval = parseInt(process.env.RESERVATION_EXPIRY_CHECK_MS || '60000');
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  public start(): void {
+    if (this.expiryTimer) return;
+
+    this.expiryTimer = setInterval(() => {
+      this.expireReservations().catch((error) => {
+        this.logger.error('Error expiring reservations:', error);
+      });
+    }, this.expiryCheckInterval);
+  }
+
+  public stop(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+
+  /**
+   * Create a reservation and send ReserveNow to the charge point
+   */
+  public async reserveNow(data: {
+    chargePointId: string;
+    connectorId: number;
+    idTag: string;
+    expiryDate: Date;
+    createdBy?: string;
+  }): Promise<{ reservation: Reservation; status: ReserveNowResponse['status'] }> {
+    if (data.expiryDate <= new Date()) {
+      throw new Error('Expiry date must be in the future');
+    }
+
+    const tag = await this.db.getIdTag(data.idTag);
+    if (!tag || !tag.isActive || tag.status !== 'ACCEPTED') {
+      throw new Error(`IdTag ${data.idTag} is not valid for reservations`);
+    }
+
+    const active = await this.db.getActiveReservations(data.chargePointId);
+    const existing = data.connectorId > 0 && active.find((r) => r.connectorId === data.connectorId);
+    if (existing) {
+      throw new Error(`Connector ${data.connectorId} of ${data.chargePointId} is already reserved (reservation ${existing.id})`);
+    }
+
+    // Each connector 0 reservation needs one connector kept free, this one included
+    const stationWide = active.filter((r) => r.connectorId === 0).length + (data.connectorId === 0 ? 1 : 0);
+    if (stationWide > 0) {
+      const free = (await this.getFreeConnectors(data.chargePointId, active)).filter((id) => id !== data.connectorId);
+      if (free.length < stationWide) {
+        throw new Error(`Not enough free connectors on ${data.chargePointId} for ${stationWide} station-wide reservation(s)`);
+      }
+    }
+
+    const reservation = await this.db.createReservation({
+      chargePointId: data.chargePointId,
+      connectorId: data.connectorId,
+      idTag: data.idTag,
+      parentIdTag: tag.parentIdTag,
+      expiryDate: data.expiryDate,
+      createdBy: data.createdBy,
+    });
+
+    const request: ReserveNowRequest = {
+      connectorId: data.connectorId,
+      expiryDate: data.expiryDate.toISOString(),
+      idTag: data.idTag,
+      reservationId: reservation.id,
+      ...(tag.parentIdTag && { parentIdTag: tag.parentIdTag }),
+    };
+
+    let response: ReserveNowResponse;
+    try {
+      response = await this.ocppServer.sendMessage(data.chargePointId, 'ReserveNow', request);
+    } catch (error: any) {
+      await this.db.updateReservation(reservation.id, {
+        status: ReservationStatus.REJECTED,
+        responseStatus: 'Error',
+      });
+      throw error;
+    }
+
+    const updated = await this.db.updateReservation(reservation.id, {
+      status: response?.status === 'Accepted' ? ReservationStatus.ACTIVE : ReservationStatus.REJECTED,
+      responseStatus: response?.status,
+    });
+
+    this.logger.info(`📅 ReserveNow ${reservation.id} on ${data.chargePointId}:${data.connectorId} → ${response?.status}`);
+    return { reservation: updated, status: response?.status };
+  }
+
+  /**
+   * Send CancelReservation and close the reservation locally. A Rejected
+   * answer means the charge point no longer holds it, so it is closed either way.
+   */
+  public async cancelReservation(
+    reservationId: number,
+    cancelledBy?: string
+  ): Promise<{ reservation: Reservation; status: CancelReservationResponse['status'] }> {
+    const reservation = await this.db.getReservation(reservationId);
+    if (!reservation) {
+      throw new Error(`Reservation ${reservationId} not found`);
+    }
+
+    if (reservation.status !== ReservationStatus.PENDING && reservation.status !== ReservationStatus.ACTIVE) {
+      throw new Error(`Reservation ${reservationId} is ${reservation.status} and cannot be cancelled`);
+    }
+
+    const response: CancelReservationResponse = await this.ocppServer.sendMessage(
+      reservation.chargePointId,
+      'CancelReservation',
+      { reservationId }
+    );
+
+    const updated = await this.db.updateReservation(reservationId, {
+      status: ReservationStatus.CANCELLED,
+      responseStatus: response?.status,
+      cancelledBy,
+      cancelledAt: new Date(),
+    });
+
+    this.logger.info(`🗑️ CancelReservation ${reservationId} on ${reservation.chargePointId} → ${response?.status}`);
+    return { reservation: updated, status: response?.status };
+  }
+
+  /**
+   * Check a StartTransaction against the reservation it claims (or the one
+   * holding the connector). The presented idTag must match the reserved idTag,
+   * or share its parentIdTag. Reservations on connector 0 only need one
+   * connector kept free, so others may start as long as one is left for each.
+   */
+  public async checkStartTransaction(data: {
+    chargePointId: string;
+    connectorId: number;
+    idTag: string;
+    reservationId?: number;
+  }): Promise<{ allowed: boolean; reservation?: Reservation; reason?: string }> {
+    if (data.reservationId !== undefined && data.reservationId !== null) {
+      const claimed = await this.db.getReservation(data.reservationId);
+      if (!claimed) {
+        return { allowed: false, reason: `Unknown reservation ${data.reservationId}` };
+      }
+      return this.checkHolder(data, claimed);
+    }
+
+    const active = await this.db.getActiveReservations(data.chargePointId);
+    const reservation = active.find((r) => r.connectorId === data.connectorId);
+    if (reservation) {
+      return this.checkHolder(data, reservation);
+    }
+
+    const stationWide = active.filter((r) => r.connectorId === 0);
+    if (stationWide.length === 0) {
+      return { allowed: true };
+    }
+
+    // A holder of a station-wide reservation may use any connector
+    for (const candidate of stationWide) {
+      if (await this.isHeldBy(candidate, data.idTag)) {
+        return { allowed: true, reservation: candidate };
+      }
+    }
+
+    const free = (await this.getFreeConnectors(data.chargePointId, active)).filter((id) => id !== data.connectorId);
+    if (free.length >= stationWide.length) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      reservation: stationWide[0],
+      reason: `Connector ${data.connectorId} is needed for station-wide reservation ${stationWide[0].id}`,
+    };
+  }
+
+  public async markUsed(reservationId: number, transactionId: number): Promise<void> {
+    await this.db.updateReservation(reservationId, {
+      status: ReservationStatus.USED,
+      transactionId,
+    });
+  }
+
+  private async checkHolder(
+    data: { chargePointId: string; idTag: string },
+    reservation: Reservation
+  ): Promise<{ allowed: boolean; reservation?: Reservation; reason?: string }> {
+    if (reservation.chargePointId !== data.chargePointId) {
+      return { allowed: false, reservation, reason: `Reservation ${reservation.id} belongs to another charge point` };
+    }
+
+    if (reservation.status !== ReservationStatus.ACTIVE && reservation.status !== ReservationStatus.PENDING) {
+      return { allowed: false, reservation, reason: `Reservation ${reservation.id} is ${reservation.status}` };
+    }
+
+    if (reservation.expiryDate <= new Date()) {
+      return { allowed: false, reservation, reason: `Reservation ${reservation.id} has expired` };
+    }
+
+    if (await this.isHeldBy(reservation, data.idTag)) {
+      return { allowed: true, reservation };
+    }
+
+    return { allowed: false, reservation, reason: `IdTag ${data.idTag} does not hold reservation ${reservation.id}` };
+  }
+
+  private async isHeldBy(reservation: Reservation, idTag: string): Promise<boolean> {
+    if (reservation.idTag === idTag) return true;
+    if (!reservation.parentIdTag) return false;
+
+    const tag = await this.db.getIdTag(idTag);
+    return !!tag?.parentIdTag && tag.parentIdTag === reservation.parentIdTag;
+  }
+
+  // Connectors neither reserved on their own nor in a transaction
+  private async getFreeConnectors(chargePointId: string, active: Reservation[]): Promise<number[]> {
+    const [connectors, transactions] = await Promise.all([
+      this.db.getConnectorsByChargePointId(chargePointId),
+      this.db.getActiveTransactions(chargePointId),
+    ]);
+    const reserved = new Set(active.map((r) => r.connectorId));
+    const charging = new Set(transactions.map((t) => t.connectorId));
+
+    return connectors
+      .map((c) => c.connectorId)
+      .filter((id) => id > 0 && !reserved.has(id) && !charging.has(id));
+  }
+
+  public async expireReservations(): Promise<number> {
+    const count = await this.db.expireReservations();
+    if (count > 0) {
+      this.logger.info(`⌛ Expired ${count} reservation(s)`);
+    }
+    return count;
+  }
+}
@@ -0,0 +1,286 @@
+import {
+  ChargingProfile,
+  ChargingProfileKind,
+  ChargingProfilePurpose,
+  ChargingProfileStatus,
+  ChargingRateUnit,
+  Prisma,
+  RecurrencyKind
+} from '@prisma/client';
+import { Logger } from '../Utils/logger';
+import { DatabaseService } from './database';
+import { OCPPServer } from './ocpp_server';
+import {
+  ChargingProfileKindType,
+  ChargingProfilePurposeType,
+  ChargingRateUnitType,
+  ChargingSchedulePeriod,
+  ClearChargingProfileRequest,
+  ClearChargingProfileResponse,
+  CsChargingProfile,
+  GetCompositeScheduleResponse,
+  RecurrencyKindType,
+  SetChargingProfileResponse
+} from '../types/ocpp_types';
+
+const purposeToOCPP: Record<ChargingProfilePurpose, ChargingProfilePurposeType> = {
+  CHARGE_POINT_MAX_PROFILE: 'ChargePointMaxProfile',
+  TX_DEFAULT_PROFILE: 'TxDefaultProfile',
+  TX_PROFILE: 'TxProfile',
+};
+
+const purposeFromOCPP: Record<ChargingProfilePurposeType, ChargingProfilePurpose> = {
+  ChargePointMaxProfile: ChargingProfilePurpose.CHARGE_POINT_MAX_PROFILE,
+  TxDefaultProfile: ChargingProfilePurpose.TX_DEFAULT_PROFILE,
+  TxProfile: ChargingProfilePurpose.TX_PROFILE,
+};
+
+const kindToOCPP: Record<ChargingProfileKind, ChargingProfileKindType> = {
+  ABSOLUTE: 'Absolute',
+  RECURRING: 'Recurring',
+  RELATIVE: 'Relative',
+};
+
+const recurrencyToOCPP: Record<RecurrencyKind, RecurrencyKindType> = {
+  DAILY: 'Daily',
+  WEEKLY: 'Weekly',
+};
+
+export interface ChargingProfileInput {
+  chargePointId: string;
+  connectorId: number;
+  stackLevel: number;
+  purpose: ChargingProfilePurposeType;
+  kind: ChargingProfileKindType;
+  recurrencyKind?: RecurrencyKindType;
+  validFrom?: Date;
+  validTo?: Date;
+  transactionId?: number;
+  chargingRateUnit: ChargingRateUnitType;
+  duration?: number;
+  startSchedule?: Date;
+  minChargingRate?: number;
+  chargingSchedulePeriod: ChargingSchedulePeriod[];
+  source?: string;
+  createdBy?: string;
+}
+
+export class SmartChargingService {
+  private logger = Logger.getInstance();
+
+  constructor(
+    private db: DatabaseService,
+    private ocppServer: OCPPServer
+  ) {}
+
+  /**
+   * Store a profile and push it with SetChargingProfile. On acceptance the
+   * profile replaces any older one with the same connector, purpose and stack
+   * level, mirroring what the charge point does.
+   */
+  public async setChargingProfile(
+    input: ChargingProfileInput
+  ): Promise<{ profile: ChargingProfile; status: SetChargingProfileResponse['status'] }> {
+    const purpose = purposeFromOCPP[input.purpose];
+
+    if (purpose === ChargingProfilePurpose.CHARGE_POINT_MAX_PROFILE && input.connectorId !== 0) {
+      throw new Error('ChargePointMaxProfile can only be set on connector 0');
+    }
+
+    let transactionId = input.transactionId;
+    if (purpose === ChargingProfilePurpose.TX_PROFILE) {
+      if (input.connectorId === 0) {
+        throw new Error('TxProfile requires a connector with an active transaction');
+      }
+
+      const active = await this.db.getActiveTransactions(input.chargePointId);
+      const transaction = active.find((tx) => tx.connectorId === input.connectorId);
+      if (!transaction) {
+        throw new Error(`No active transaction on ${input.chargePointId} connector ${input.connectorId}`);
+      }
+      transactionId = transactionId ?? transaction.transactionId;
+    }
+
+    const profile = await this.db.createChargingProfile({
+      chargePointId: input.chargePointId,
+      connectorId: input.connectorId,
+      stackLevel: input.stackLevel,
+      purpose,
+      kind: input.kind.toUpperCase() as ChargingProfileKind,
+      recurrencyKind: input.recurrencyKind ? input.recurrencyKind.toUpperCase() as RecurrencyKind : null,
+      validFrom: input.validFrom,
+      validTo: input.validTo,
+      transactionId,
+      chargingRateUnit: input.chargingRateUnit as ChargingRateUnit,
+      duration: input.duration,
+      startSchedule: input.startSchedule,
+      minChargingRate: input.minChargingRate,
+      schedulePeriods: input.chargingSchedulePeriod as unknown as Prisma.InputJsonValue,
+      source: input.source || 'api',
+      createdBy: input.createdBy,
+    });
+
+    let response: SetChargingProfileResponse;
+    try {
+      response = await this.ocppServer.sendMessage(input.chargePointId, 'SetChargingProfile', {
+        connectorId: input.connectorId,
+        csChargingProfiles: this.toOCPPProfile(profile),
+      });
+    } catch (error) {
+      await this.db.updateChargingProfile(profile.id, {
+        status: ChargingProfileStatus.REJECTED,
+        responseStatus: 'Error',
+      });
+      throw error;
+    }
+
+    const status = response?.status === 'Accepted'
+      ? ChargingProfileStatus.ACTIVE
+      : response?.status === 'NotSupported'
+        ? ChargingProfileStatus.NOT_SUPPORTED
+        : ChargingProfileStatus.REJECTED;
+
+    if (status === ChargingProfileStatus.ACTIVE) {
+      await this.db.clearChargingProfiles({
+        chargePointId: profile.chargePointId,
+        connectorId: profile.connectorId,
+        purpose: profile.purpose,
+        stackLevel: profile.stackLevel,
+        id: { not: profile.id },
+      });
+    }
+
+    const updated = await this.db.updateChargingProfile(profile.id, {
+      status,
+      responseStatus: response?.status,
+    });
+
+    this.logger.info(`⚡ SetChargingProfile ${profile.id} (${input.purpose}) on ${input.chargePointId}:${input.connectorId} → ${response?.status}`);
+    return { profile: updated, status: response?.status };
+  }
+
+  /**
+   * Send ClearChargingProfile with the given criteria. When the charge point
+   * accepts, the matching stored profiles are marked cleared.
+   */
+  public async clearChargingProfile(
+    chargePointId: string,
+    criteria: {
+      id?: number;
+      connectorId?: number;
+      purpose?: ChargingProfilePurposeType;
+      stackLevel?: number;
+    }
+  ): Promise<{ status: ClearChargingProfileResponse['status']; cleared: number }> {
+    const request: ClearChargingProfileRequest = {
+      ...(criteria.id !== undefined && { id: criteria.id }),
+      ...(criteria.connectorId !== undefined && { connectorId: criteria.connectorId }),
+      ...(criteria.purpose && { chargingProfilePurpose: criteria.purpose }),
+      ...(criteria.stackLevel !== undefined && { stackLevel: criteria.stackLevel }),
+    };
+
+    const response: ClearChargingProfileResponse = await this.ocppServer.sendMessage(
+      chargePointId,
+      'ClearChargingProfile',
+      request
+    );
+
+    let cleared = 0;
+    if (response?.status === 'Accepted') {
+      cleared = await this.db.clearChargingProfiles({
+        chargePointId,
+        ...(criteria.id !== undefined && { id: criteria.id }),
+        ...(criteria.connectorId !== undefined && { connectorId: criteria.connectorId }),
+        ...(criteria.purpose && { purpose: purposeFromOCPP[criteria.purpose] }),
+        ...(criteria.stackLevel !== undefined && { stackLevel: criteria.stackLevel }),
+      });
+    }
+
+    this.logger.info(`🧹 ClearChargingProfile on ${chargePointId} → ${response?.status} (${cleared} stored profile(s) cleared)`);
+    return { status: response?.status, cleared };
+  }
+
+  /**
+   * Ask the charge point for its composite schedule. Accepted schedules for a
+   * physical connector are stored on the Connector row; connector 0 describes
+   * the whole charge point and is only returned.
+   */
+  public async getCompositeSchedule(
+    chargePointId: string,
+    connectorId: number,
+    duration: number,
+    chargingRateUnit?: ChargingRateUnitType
+  ): Promise<GetCompositeScheduleResponse> {
+    const response: GetCompositeScheduleResponse = await this.ocppServer.sendMessage(
+      chargePointId,
+      'GetCompositeSchedule',
+      {
+        connectorId,
+        duration,
+        ...(chargingRateUnit && { chargingRateUnit }),
+      }
+    );
+
+    if (response?.status === 'Accepted' && connectorId > 0) {
+      const connector = await this.db.getConnector(chargePointId, connectorId);
+      if (connector) {
+        await this.db.updateConnectorCompositeSchedule(chargePointId, connectorId, {
+          scheduleStart: response.scheduleStart ?? null,
+          chargingSchedule: (response.chargingSchedule ?? null) as any,
+          duration,
+        });
+      }
+    }
+
+    return response;
+  }
+
+  public async getProfiles(
+    chargePointId: string,
+    connectorId?: number,
+    includeCleared: boolean = false
+  ): Promise<ChargingProfile[]> {
+    return this.db.getChargingProfiles({
+      chargePointId,
+      ...(connectorId !== undefined && { connectorId }),
+      ...(!includeCleared && {
+        status: { in: [ChargingProfileStatus.PENDING, ChargingProfileStatus.ACTIVE] },
+      }),
+    });
+  }
+
+  /**
+   * Charge points discard TxProfiles when the transaction ends
+   */
+  public async onTransactionStopped(chargePointId: string, transactionId: number): Promise<void> {
+    const cleared = await this.db.clearChargingProfiles({
+      chargePointId,
+      purpose: ChargingProfilePurpose.TX_PROFILE,
+      transactionId,
+    });
+
+    if (cleared > 0) {
+      this.logger.debug(`TxProfiles for transaction ${transactionId} on ${chargePointId} discarded`);
+    }
+  }
+
+  private toOCPPProfile(profile: ChargingProfile): CsChargingProfile {
+    return {
+      chargingProfileId: profile.id,
+      ...(profile.transactionId !== null && { transactionId: profile.transactionId }),
+      stackLevel: profile.stackLevel,
+      chargingProfilePurpose: purposeToOCPP[profile.purpose],
+      chargingProfileKind: kindToOCPP[profile.kind],
+      ...(profile.recurrencyKind && { recurrencyKind: recurrencyToOCPP[profile.recurrencyKind] }),
+      ...(profile.validFrom && { validFrom: profile.validFrom.toISOString() }),
+      ...(profile.validTo && { validTo: profile.validTo.toISOString() }),
+      chargingSchedule: {
+        chargingRateUnit: profile.chargingRateUnit,
+        chargingSchedulePeriod: profile.schedulePeriods as unknown as ChargingSchedulePeriod[],
+        ...(profile.duration !== null && { duration: profile.duration }),
+        ...(profile.startSchedule && { startSchedule: profile.startSchedule.toISOString() }),
+        ...(profile.minChargingRate !== null && { minChargingRate: profile.minChargingRate }),
+      },
+    };
+  }
+}
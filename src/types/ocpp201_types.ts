@@ -0,0 +1,159 @@
+// OCPP 2.0.1 message types, limited to the messages the server handles.
+// Field names follow the 2.0.1 JSON schemas.
+
+export type IdTokenType201 =
+  | 'Central'
+  | 'eMAID'
+  | 'ISO14443'
+  | 'ISO15693'
+  | 'KeyCode'
+  | 'Local'
+  | 'MacAddress'
+  | 'NoAuthorization';
+
+export interface IdToken201 {
+  idToken: string;
+  type: IdTokenType201;
+}
+
+export type AuthorizationStatus201 =
+  | 'Accepted'
+  | 'Blocked'
+  | 'ConcurrentTx'
+  | 'Expired'
+  | 'Invalid'
+  | 'NoCredit'
+  | 'NotAllowedTypeEVSE'
+  | 'NotAtThisLocation'
+  | 'NotAtThisTime'
+  | 'Unknown';
+
+export interface IdTokenInfo201 {
+  status: AuthorizationStatus201;
+  cacheExpiryDateTime?: string;
+  groupIdToken?: IdToken201;
+}
+
+export interface EVSE201 {
+  id: number;
+  connectorId?: number;
+}
+
+export interface SampledValue201 {
+  value: number;
+  context?: 'Interruption.Begin' | 'Interruption.End' | 'Other' | 'Sample.Clock' | 'Sample.Periodic' | 'Transaction.Begin' | 'Transaction.End' | 'Trigger';
+  measurand?: string;
+  phase?: string;
+  location?: string;
+  unitOfMeasure?: {
+    unit?: string;
+    multiplier?: number;
+  };
+}
+
+export interface MeterValue201 {
+  timestamp: string;
+  sampledValue: SampledValue201[];
+}
+
+export interface BootNotificationRequest201 {
+  reason: string;
+  chargingStation: {
+    model: string;
+    vendorName: string;
+    serialNumber?: string;
+    firmwareVersion?: string;
+    modem?: {
+      iccid?: string;
+      imsi?: string;
+    };
+  };
+}
+
+export interface BootNotificationResponse201 {
+  currentTime: string;
+  interval: number;
+  status: 'Accepted' | 'Pending' | 'Rejected';
+}
+
+export interface StatusNotificationRequest201 {
+  timestamp: string;
+  connectorStatus: 'Available' | 'Occupied' | 'Reserved' | 'Unavailable' | 'Faulted';
+  evseId: number;
+  connectorId: number;
+}
+
+export interface MeterValuesRequest201 {
+  evseId: number;
+  meterValue: MeterValue201[];
+}
+
+export interface AuthorizeRequest201 {
+  idToken: IdToken201;
+}
+
+export interface AuthorizeResponse201 {
+  idTokenInfo: IdTokenInfo201;
+}
+
+export type ChargingState201 = 'Charging' | 'EVConnected' | 'SuspendedEV' | 'SuspendedEVSE' | 'Idle';
+
+export interface TransactionEventRequest201 {
+  eventType: 'Started' | 'Updated' | 'Ended';
+  timestamp: string;
+  triggerReason: string;
+  seqNo: number;
+  offline?: boolean;
+  numberOfPhasesUsed?: number;
+  reservationId?: number;
+  transactionInfo: {
+    transactionId: string;
+    chargingState?: ChargingState201;
+    timeSpentCharging?: number;
+    stoppedReason?: string;
+    remoteStartId?: number;
+  };
+  idToken?: IdToken201;
+  evse?: EVSE201;
+  meterValue?: MeterValue201[];
+}
+
+export interface TransactionEventResponse201 {
+  totalCost?: number;
+  chargingPriority?: number;
+  idTokenInfo?: IdTokenInfo201;
+}
+
+export interface ComponentVariable201 {
+  component: {
+    name: string;
+    instance?: string;
+    evse?: EVSE201;
+  };
+  variable: {
+    name: string;
+    instance?: string;
+  };
+}
+
+export type AttributeType201 = 'Actual' | 'Target' | 'MinSet' | 'MaxSet';
+
+export interface GetVariableData201 extends ComponentVariable201 {
+  attributeType?: AttributeType201;
+}
+
+export interface GetVariableResult201 extends ComponentVariable201 {
+  attributeStatus: 'Accepted' | 'Rejected' | 'UnknownComponent' | 'UnknownVariable' | 'NotSupportedAttributeType';
+  attributeType?: AttributeType201;
+  attributeValue?: string;
+}
+
+export interface SetVariableData201 extends ComponentVariable201 {
+  attributeType?: AttributeType201;
+  attributeValue: string;
+}
+
+export interface SetVariableResult201 extends ComponentVariable201 {
+  attributeStatus: 'Accepted' | 'Rejected' | 'UnknownComponent' | 'UnknownVariable' | 'NotSupportedAttributeType' | 'RebootRequired';
+  attributeType?: AttributeType201;
+}
@@ -234,13 +234,256 @@ export interface ChangeConfigurationRequest {
   value: string;
 }
 
+export interface ChangeConfigurationResponse {
+  status: 'Accepted' | 'Rejected' | 'RebootRequired' | 'NotSupported';
+}
+
+export interface ReserveNowRequest {
+  connectorId: number;
+  expiryDate: string;
+  idTag: string;
+  parentIdTag?: string;
+  reservationId: number;
+}
+
+export interface ReserveNowResponse {
+  status: 'Accepted' | 'Faulted' | 'Occupied' | 'Rejected' | 'Unavailable';
+}
+
+export interface CancelReservationRequest {
+  reservationId: number;
+}
+
+export interface CancelReservationResponse {
+  status: 'Accepted' | 'Rejected';
+}
+
+export type ChargingProfilePurposeType = 'ChargePointMaxProfile' | 'TxDefaultProfile' | 'TxProfile';
+export type ChargingProfileKindType = 'Absolute' | 'Recurring' | 'Relative';
+export type RecurrencyKindType = 'Daily' | 'Weekly';
+export type ChargingRateUnitType = 'A' | 'W';
+
+export interface ChargingSchedulePeriod {
+  startPeriod: number;
+  limit: number;
+  numberPhases?: number;
+}
+
+export interface ChargingSchedule {
+  duration?: number;
+  startSchedule?: string;
+  chargingRateUnit: ChargingRateUnitType;
+  chargingSchedulePeriod: ChargingSchedulePeriod[];
+  minChargingRate?: number;
+}
+
+export interface CsChargingProfile {
+  chargingProfileId: number;
+  transactionId?: number;
+  stackLevel: number;
+  chargingProfilePurpose: ChargingProfilePurposeType;
+  chargingProfileKind: ChargingProfileKindType;
+  recurrencyKind?: RecurrencyKindType;
+  validFrom?: string;
+  validTo?: string;
+  chargingSchedule: ChargingSchedule;
+}
+
+export interface SetChargingProfileRequest {
+  connectorId: number;
+  csChargingProfiles: CsChargingProfile;
+}
+
+export interface SetChargingProfileResponse {
+  status: 'Accepted' | 'Rejected' | 'NotSupported';
+}
+
+export interface ClearChargingProfileRequest {
+  id?: number;
+  connectorId?: number;
+  chargingProfilePurpose?: ChargingProfilePurposeType;
+  stackLevel?: number;
+}
+
+export interface ClearChargingProfileResponse {
+  status: 'Accepted' | 'Unknown';
+}
+
+export interface GetCompositeScheduleRequest {
+  connectorId: number;
+  duration: number;
+  chargingRateUnit?: ChargingRateUnitType;
+}
+
+export interface GetCompositeScheduleResponse {
+  status: 'Accepted' | 'Rejected';
+  connectorId?: number;
+  scheduleStart?: string;
+  chargingSchedule?: ChargingSchedule;
+}
+
+export interface IdTagInfo {
+  status: 'Accepted' | 'Blocked' | 'Expired' | 'Invalid' | 'ConcurrentTx';
+  expiryDate?: string;
+  parentIdTag?: string;
+}
+
+export interface AuthorizationData {
+  idTag: string;
+  idTagInfo?: IdTagInfo; // Omitted in a differential update to remove the entry
+}
+
+export interface SendLocalListRequest {
+  listVersion: number;
+  localAuthorizationList?: AuthorizationData[];
+  updateType: 'Differential' | 'Full';
+}
+
+export interface SendLocalListResponse {
+  status: 'Accepted' | 'Failed' | 'NotSupported' | 'VersionMismatch';
+}
+
+export interface GetLocalListVersionResponse {
+  listVersion: number;
+}
+
+export interface ClearCacheResponse {
+  status: 'Accepted' | 'Rejected';
+}
+
+export interface UpdateFirmwareRequest {
+  location: string;
+  retries?: number;
+  retrieveDate: string;
+  retryInterval?: number;
+}
+
+export interface FirmwareStatusNotificationRequest {
+  status: 'Downloaded' | 'DownloadFailed' | 'Downloading' | 'Idle' | 'InstallationFailed' | 'Installing' | 'Installed';
+}
+
+export interface GetDiagnosticsRequest {
+  location: string;
+  retries?: number;
+  retryInterval?: number;
+  startTime?: string;
+  stopTime?: string;
+}
+
+export interface GetDiagnosticsResponse {
+  fileName?: string;
+}
+
+export interface DiagnosticsStatusNotificationRequest {
+  status: 'Idle' | 'Uploaded' | 'UploadFailed' | 'Uploading';
+}
+
+export interface DataTransferRequest {
+  vendorId: string;
+  messageId?: string;
+  data?: string;
+}
+
+export interface DataTransferResponse {
+  status: 'Accepted' | 'Rejected' | 'UnknownMessageId' | 'UnknownVendorId';
+  data?: string;
+}
+
+export type TriggerMessageType =
+  | 'BootNotification'
+  | 'DiagnosticsStatusNotification'
+  | 'FirmwareStatusNotification'
+  | 'Heartbeat'
+  | 'MeterValues'
+  | 'StatusNotification';
+
+export interface TriggerMessageRequest {
+  requestedMessage: TriggerMessageType;
+  connectorId?: number;
+}
+
+export interface TriggerMessageResponse {
+  status: 'Accepted' | 'Rejected' | 'NotImplemented';
+}
+
+export interface ChangeAvailabilityRequest {
+  connectorId: number;
+  type: 'Inoperative' | 'Operative';
+}
+
+export interface ChangeAvailabilityResponse {
+  status: 'Accepted' | 'Rejected' | 'Scheduled';
+}
+
+// OCPP 1.6 security extension
+export type CertificateUseType = 'CentralSystemRootCertificate' | 'ManufacturerRootCertificate';
+
+export interface CertificateHashData {
+  hashAlgorithm: 'SHA256' | 'SHA384' | 'SHA512';
+  issuerNameHash: string;
+  issuerKeyHash: string;
+  serialNumber: string;
+}
+
+export interface SignCertificateRequest {
+  csr: string;
+}
+
+export interface SignCertificateResponse {
+  status: 'Accepted' | 'Rejected';
+}
+
+export interface CertificateSignedRequest {
+  certificateChain: string;
+}
+
+export interface CertificateSignedResponse {
+  status: 'Accepted' | 'Rejected';
+}
+
+export interface InstallCertificateRequest {
+  certificateType: CertificateUseType;
+  certificate: string;
+}
+
+export interface InstallCertificateResponse {
+  status: 'Accepted' | 'Failed' | 'Rejected';
+}
+
+export interface GetInstalledCertificateIdsRequest {
+  certificateType: CertificateUseType;
+}
+
+export interface GetInstalledCertificateIdsResponse {
+  status: 'Accepted' | 'NotFound';
+  certificateHashData?: CertificateHashData[];
+}
+
+export interface DeleteCertificateRequest {
+  certificateHashData: CertificateHashData;
+}
+
+export interface DeleteCertificateResponse {
+  status: 'Accepted' | 'Failed' | 'NotFound';
+}
+
+export interface SecurityEventNotificationRequest {
+  type: string;
+  timestamp: string;
+  techInfo?: string;
+}
+
+export type OCPPVersion = '1.6' | '2.0.1';
+
 // WebSocket connection interface
 export interface ChargePointConnection {
   id: string;
   ws: any;
+  ocppVersion: OCPPVersion; // From the negotiated Sec-WebSocket-Protocol
   isAlive: boolean;
   lastSeen: Date;
   bootNotificationSent: boolean;
+  registrationStatus?: BootNotificationResponse['status']; // Answer to the last BootNotification
   heartbeatInterval: number;
   currentData?: {
     connectors: Record<number, ChargingStationData>;